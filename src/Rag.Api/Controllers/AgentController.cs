@@ -59,10 +59,18 @@ public class AgentController : ControllerBase
 
         _logger.LogInformation("Processing agent request for tenant: {TenantId}", tenantId ?? "none");
 
-        // Check conversation cache first (only for empty history to avoid stale responses)
-        if (_semanticCache != null && (request.ConversationHistory == null || request.ConversationHistory.Count == 0))
+        // Only first questions with the default prompt and no document filters are cached;
+        // anything else could be answered from (or stored as) a differently scoped answer
+        var useCache = _semanticCache != null
+            && (request.ConversationHistory == null || request.ConversationHistory.Count == 0)
+            && string.IsNullOrEmpty(request.Config?.SystemPrompt)
+            && request.Config?.DocumentIds is not { Count: > 0 }
+            && request.Config?.ExcludedDocumentIds is not { Count: > 0 };
+
+        // Check conversation cache first
+        if (useCache)
         {
-            var cachedResponse = await _semanticCache.GetSimilarAsync(request.Message, tenantId ?? "default", cancellationToken);
+            var cachedResponse = await _semanticCache!.GetSimilarAsync(request.Message, tenantId ?? "default", cancellationToken);
             if (cachedResponse != null)
             {
                 _logger.LogInformation("Agent conversation cache HIT for query '{Query}' (similarity: {Similarity:F3})", 
@@ -90,31 +98,11 @@ public class AgentController : ControllerBase
             }
         }
 
-        // Convert DTOs to domain models
-        var history = request.ConversationHistory?.Select(m => new AgentMessage(
-            m.Role,
-            m.Content,
-            m.ToolCall != null ? new ToolCall(m.ToolCall.ToolName, m.ToolCall.Arguments, m.ToolCall.ReasoningTrace) : null,
-            m.ToolResult != null ? new ToolResult(m.ToolResult.Success, m.ToolResult.Content, m.ToolResult.Data, m.ToolResult.Error) : null
-        )).ToList() ?? new List<AgentMessage>();
-
-        var config = request.Config != null
-            ? new AgentConfig(
-                request.Config.MaxToolCalls,
-                request.Config.AllowParallelToolCalls,
-                request.Config.UseRagForContext,
-                request.Config.TopKDocuments,
-                request.Config.MinRelevanceScore,
-                request.Config.EnableChainOfThought,
-                request.Config.SystemPrompt
-            )
-            : new AgentConfig();
-
         // Process agent request
         var response = await _orchestrator.ProcessAsync(
             request.Message,
-            history,
-            config,
+            ToHistory(request),
+            ToConfig(request),
             tenantId,
             cancellationToken
         );
@@ -126,12 +114,7 @@ public class AgentController : ControllerBase
             tc.ReasoningTrace
         )).ToList();
 
-        var citationDtos = response.Citations.Select(c => new CitationDto(
-            c.DocumentId,
-            c.PageNumber,
-            c.Score,
-            c.Text
-        )).ToList();
+        var citationDtos = response.Citations.Select(ToCitationDto).ToList();
 
         var metricsDto = new AgentMetricsDto(
             response.Metrics.ToolCallsCount,
@@ -149,8 +132,8 @@ public class AgentController : ControllerBase
             metricsDto
         );
 
-        // Cache the full agent response (only for empty history to avoid stale responses)
-        if (_semanticCache != null && (request.ConversationHistory == null || request.ConversationHistory.Count == 0))
+        // Cache the full agent response
+        if (useCache)
         {
             try
             {
@@ -158,7 +141,7 @@ public class AgentController : ControllerBase
                 var citations = response.RetrievedDocuments.Select(d => 
                     new Core.Models.Citation(d, 0, 1.0)).ToList();
                 
-                await _semanticCache.StoreAsync(
+                await _semanticCache!.StoreAsync(
                     request.Message,
                     responseJson,
                     citations,
@@ -178,6 +161,149 @@ public class AgentController : ControllerBase
         return Ok(responseDto);
     }
 
+    /// <summary>
+    /// Chat with the agent over Server-Sent Events. Tool calls are reported as they start
+    /// and finish (tool_start, tool_result), followed by the answer (token), its citations,
+    /// metrics and done. Responses are not served from or stored in the semantic cache.
+    /// </summary>
+    [HttpPost("chat/stream")]
+    public async Task ChatStream([FromBody] AgentChatRequest request, CancellationToken cancellationToken)
+    {
+        // Validate before the stream starts, so errors are ordinary 400 responses
+        var validationResult = await _validator.ValidateAsync(request, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            throw new ValidationException(validationResult.Errors);
+        }
+
+        var tenantId = HttpContext.Request.Headers["X-Tenant-Id"].FirstOrDefault();
+        _logger.LogInformation("Agent stream request received for tenant: {TenantId}", tenantId ?? "none");
+
+        Response.ContentType = "text/event-stream";
+        Response.Headers.Append("Cache-Control", "no-cache");
+        Response.Headers.Append("Connection", "keep-alive");
+
+        // Tool calls have no ID of their own; the client pairs starts and results by callId
+        var callIds = new Dictionary<ToolCall, string>(ReferenceEqualityComparer.Instance);
+        var callTimers = new Dictionary<string, System.Diagnostics.Stopwatch>();
+
+        try
+        {
+            await foreach (var chunk in _orchestrator.StreamAsync(
+                request.Message, ToHistory(request), ToConfig(request), tenantId, cancellationToken))
+            {
+                switch (chunk.Type)
+                {
+                    case AgentStreamChunkType.ToolCallStart when chunk.ToolCall != null:
+                    {
+                        var startedId = $"call-{callIds.Count}";
+                        callIds[chunk.ToolCall] = startedId;
+                        callTimers[startedId] = System.Diagnostics.Stopwatch.StartNew();
+                        await WriteEventAsync("tool_start", new
+                        {
+                            callId = startedId,
+                            toolName = chunk.ToolCall.ToolName,
+                            arguments = chunk.ToolCall.Arguments,
+                            reasoningTrace = chunk.ToolCall.ReasoningTrace
+                        }, cancellationToken);
+                        break;
+                    }
+
+                    case AgentStreamChunkType.ToolCallResult
+                        when chunk.ToolCall != null && callIds.TryGetValue(chunk.ToolCall, out var callId):
+                        await WriteEventAsync("tool_result", new
+                        {
+                            callId,
+                            result = chunk.ToolResult?.Content,
+                            error = chunk.ToolResult?.Error,
+                            durationMs = callTimers[callId].Elapsed.TotalMilliseconds
+                        }, cancellationToken);
+                        break;
+
+                    case AgentStreamChunkType.ContentComplete:
+                        await WriteEventAsync("token", new { token = chunk.Content ?? "" }, cancellationToken);
+
+                        if (chunk.Response != null)
+                        {
+                            foreach (var citation in chunk.Response.Citations)
+                            {
+                                var dto = ToCitationDto(citation);
+                                await WriteEventAsync("citation", new
+                                {
+                                    citation = new
+                                    {
+                                        documentId = dto.DocumentId,
+                                        chunkIndex = dto.ChunkIndex,
+                                        pageNumber = dto.PageNumber,
+                                        score = dto.Score,
+                                        text = dto.Text
+                                    }
+                                }, cancellationToken);
+                            }
+
+                            var metrics = chunk.Response.Metrics;
+                            await WriteEventAsync("metrics", new
+                            {
+                                metrics = new
+                                {
+                                    toolCallsCount = metrics.ToolCallsCount,
+                                    documentsRetrieved = metrics.DocumentsRetrieved,
+                                    durationMs = metrics.TotalDuration.TotalMilliseconds,
+                                    estimatedCost = metrics.EstimatedCost,
+                                    toolUsageCounts = metrics.ToolUsageCounts
+                                }
+                            }, cancellationToken);
+                        }
+
+                        await WriteEventAsync("done", new { }, cancellationToken);
+                        break;
+                }
+            }
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogInformation("Agent stream cancelled by the client");
+        }
+        catch (Exception ex)
+        {
+            // The response has started, so the error cannot become a status code; the stream
+            // ends without a done event, which the client reports as a failed answer
+            _logger.LogError(ex, "Agent stream failed");
+        }
+    }
+
+    private async Task WriteEventAsync(string eventName, object data, CancellationToken ct)
+    {
+        await Response.WriteAsync($"event: {eventName}\ndata: {JsonSerializer.Serialize(data)}\n\n", ct);
+        await Response.Body.FlushAsync(ct);
+    }
+
+    private static List<AgentMessage> ToHistory(AgentChatRequest request) =>
+        request.ConversationHistory?.Select(m => new AgentMessage(
+            m.Role,
+            m.Content,
+            m.ToolCall != null ? new ToolCall(m.ToolCall.ToolName, m.ToolCall.Arguments, m.ToolCall.ReasoningTrace) : null,
+            m.ToolResult != null ? new ToolResult(m.ToolResult.Success, m.ToolResult.Content, m.ToolResult.Data, m.ToolResult.Error) : null
+        )).ToList() ?? new List<AgentMessage>();
+
+    private static AgentConfig ToConfig(AgentChatRequest request) =>
+        request.Config != null
+            ? new AgentConfig(
+                request.Config.MaxToolCalls,
+                request.Config.AllowParallelToolCalls,
+                request.Config.UseRagForContext,
+                request.Config.TopKDocuments,
+                request.Config.MinRelevanceScore,
+                request.Config.EnableChainOfThought,
+                request.Config.SystemPrompt,
+                request.Config.DocumentIds,
+                request.Config.ExcludedDocumentIds
+            )
+            : new AgentConfig();
+
+    private static CitationDto ToCitationDto(AgentCitation c) =>
+        new(c.DocumentId, c.PageNumber, c.Score, c.Text, c.ChunkIndex);
+
     /// <summary>
     /// Get list of available tools.
     /// </summary>
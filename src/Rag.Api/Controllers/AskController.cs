@@ -8,6 +8,7 @@ using Rag.Core.Abstractions;
 using Rag.Core.Models;
 using Rag.Core.Services;
 using System.Runtime.CompilerServices;
+using System.Security.Cryptography;
 using System.Text;
 using System.Text.Json;
 
@@ -64,10 +65,15 @@ public sealed class AskController : ControllerBase
 
         var tenantId = _tenantContext.TenantId ?? "default";
 
+        // Cached answers may cite any of the tenant's documents, so filtered questions skip the cache
+        var useCache = _semanticCache != null
+            && req.DocumentIds is not { Count: > 0 }
+            && req.ExcludedDocumentIds is not { Count: > 0 };
+
         // 🚀 PHASE 9 - Caching: Check semantic cache first
-        if (_semanticCache != null)
+        if (useCache)
         {
-            var cachedResult = await _semanticCache.GetSimilarAsync(req.Question, tenantId, ct);
+            var cachedResult = await _semanticCache!.GetSimilarAsync(req.Question, tenantId, ct);
             if (cachedResult != null)
             {
                 _logger.LogInformation("✨ Semantic cache HIT: Question='{Question}' matched with similarity {Similarity:F3}",
@@ -92,6 +98,8 @@ public sealed class AskController : ControllerBase
             embeddingResult.Embedding, 
             topK: Math.Clamp(req.TopK, 1, 20), 
             tenantId: _tenantContext.TenantId,
+            documentIds: req.DocumentIds,
+            excludedDocumentIds: req.ExcludedDocumentIds,
             ct);
 
         Console.WriteLine($"[STANDARD] Question: {req.Question}");
@@ -106,7 +114,7 @@ public sealed class AskController : ControllerBase
         foreach (var h in hits)
         {
             var docId = h.Payload.TryGetValue("documentId", out var d) ? d?.ToString() ?? "" : "";
-            var chunkIndex = h.Payload.TryGetValue("chunkIndex", out var ci) && int.TryParse(ci?.ToString(), out var idx) ? idx : -1;
+            var chunkIndex = ChunkIndexOf(h);
             var textRaw = h.Payload.TryGetValue("text", out var t) ? t?.ToString() ?? "" : "";
             var text = Rag.Core.Text.PromptGuards.SanitizeContext(textRaw);
             
@@ -150,7 +158,7 @@ public sealed class AskController : ControllerBase
         .ToList();
 
         // 🚀 PHASE 9 - Caching: Store result in semantic cache
-        if (_semanticCache != null)
+        if (useCache)
         {
             var totalTokenUsage = new TokenUsage
             {
@@ -162,7 +170,7 @@ public sealed class AskController : ControllerBase
             {
                 try
                 {
-                    await _semanticCache.StoreAsync(req.Question, chatResult.Answer, deduped, tenantId, totalTokenUsage, CancellationToken.None);
+                    await _semanticCache!.StoreAsync(req.Question, chatResult.Answer, deduped, tenantId, totalTokenUsage, CancellationToken.None);
                     _logger.LogDebug("Stored query in semantic cache: '{Question}'", req.Question);
                 }
                 catch (Exception ex)
@@ -175,6 +183,45 @@ public sealed class AskController : ControllerBase
         return Ok(new AskResponse(chatResult.Answer, deduped, tenantId));
     }
 
+    /// <summary>
+    /// Runs retrieval only: embeds the question and returns the top-K chunks with their scores
+    /// and text, skipping the semantic cache and the chat model.
+    /// </summary>
+    [HttpPost("retrieve")]
+    public async Task<ActionResult<RetrieveResponse>> Retrieve([FromBody] AskRequest req, CancellationToken ct)
+    {
+        var validationResult = await _validator.ValidateAsync(req, ct);
+        if (!validationResult.IsValid)
+        {
+            throw new ValidationException(validationResult.Errors);
+        }
+
+        var tenantId = _tenantContext.TenantId ?? "default";
+        var topK = Math.Clamp(req.TopK, 1, 20);
+
+        var embeddingResult = await _embeddings.EmbedAsync(req.Question, ct);
+        HttpContext.TrackTokenUsage(embeddingResult.TokenUsage);
+
+        var hits = await _vectorStore.SearchAsync(
+            _qdrant.Collection,
+            embeddingResult.Embedding,
+            topK,
+            tenantId: _tenantContext.TenantId,
+            documentIds: req.DocumentIds,
+            excludedDocumentIds: req.ExcludedDocumentIds,
+            ct);
+
+        var chunks = hits.Select(h => new RetrievedChunk(
+            h.Payload.TryGetValue("documentId", out var d) ? d?.ToString() ?? "" : "",
+            ChunkIndexOf(h),
+            h.Score,
+            h.Payload.TryGetValue("text", out var t) ? t?.ToString() ?? "" : "")).ToList();
+
+        _logger.LogInformation("Retrieval for '{Question}' (topK {TopK}) returned {Count} hits", req.Question, topK, chunks.Count);
+
+        return Ok(new RetrieveResponse(req.Question, topK, chunks, tenantId));
+    }
+
     /// <summary>
     /// [DEPRECATED] Streaming is not implemented in the frontend.
     /// Use /api/v1/agent/chat for standard responses or implement streaming via SignalR.
@@ -185,6 +232,8 @@ public sealed class AskController : ControllerBase
     public async Task AskStream(
         [FromQuery] string question,
         [FromQuery] int topK = 5,
+        [FromQuery] List<string>? documentIds = null,
+        [FromQuery] List<string>? excludedDocumentIds = null,
         CancellationToken ct = default)
     {
         // Set SSE headers
@@ -202,20 +251,54 @@ public sealed class AskController : ControllerBase
 
         topK = Math.Clamp(topK, 1, 20);
 
+        var validationResult = await _validator.ValidateAsync(new AskRequest(question, topK, documentIds, excludedDocumentIds), ct);
+        if (!validationResult.IsValid)
+        {
+            var error = new { error = validationResult.Errors[0].ErrorMessage };
+            await Response.WriteAsync($"data: {JsonSerializer.Serialize(error)}\n\n", ct);
+            await Response.Body.FlushAsync(ct);
+            return;
+        }
+
+        // Cached answers may cite any of the tenant's documents, so filtered questions skip the cache
+        var useCache = _semanticCache != null
+            && documentIds is not { Count: > 0 }
+            && excludedDocumentIds is not { Count: > 0 };
+
         // Check semantic cache first
-        if (_semanticCache != null)
+        if (useCache)
         {
-            var cachedResult = await _semanticCache.GetSimilarAsync(question, _tenantContext.TenantId ?? "default", ct);
+            var cachedResult = await _semanticCache!.GetSimilarAsync(question, _tenantContext.TenantId ?? "default", ct);
             if (cachedResult != null)
             {
                 _logger.LogInformation("Streaming cache HIT for query '{Query}' (similarity: {Similarity:F3})", question, cachedResult.SimilarityScore);
                 
-                // Stream cached response token-by-token for smooth UX
+                // A cached answer replays identically, so a reconnect carrying one of its ids
+                // skips the frames the client already has
                 var cachedResponse = cachedResult.Response;
+                var cachedStreamKey = CachedStreamKey(cachedResponse);
+                var resumeAfter = ResumeAfter(cachedStreamKey);
+                var sequence = 0;
+
+                // Send the cached sources first so the client can check the answer's citation markers
+                if (sequence > resumeAfter)
+                {
+                    var cachedSources = new
+                    {
+                        sources = cachedResult.Citations.Select(c => new { documentId = c.DocumentId, chunkIndex = c.ChunkIndex, score = c.Score }),
+                        done = false,
+                        cached = true
+                    };
+                    await WriteEventAsync(cachedStreamKey, sequence, cachedSources, ct);
+                }
+
+                // Stream cached response token-by-token for smooth UX
                 var words = cachedResponse.Split(' ');
                 
                 foreach (var word in words)
                 {
+                    if (++sequence <= resumeAfter) continue;
+
                     var chunk = new
                     {
                         token = word + " ",
@@ -223,9 +306,7 @@ public sealed class AskController : ControllerBase
                         cached = true
                     };
 
-                    var sseData = $"data: {JsonSerializer.Serialize(chunk)}\n\n";
-                    await Response.WriteAsync(sseData, ct);
-                    await Response.Body.FlushAsync(ct);
+                    await WriteEventAsync(cachedStreamKey, sequence, chunk, ct);
                     
                     // Small delay to simulate natural streaming
                     await Task.Delay(10, ct);
@@ -233,9 +314,7 @@ public sealed class AskController : ControllerBase
 
                 // Send completion signal
                 var cachedDoneChunk = new { done = true, cached = true };
-                var cachedDoneSseData = $"data: {JsonSerializer.Serialize(cachedDoneChunk)}\n\n";
-                await Response.WriteAsync(cachedDoneSseData, ct);
-                await Response.Body.FlushAsync(ct);
+                await WriteEventAsync(cachedStreamKey, ++sequence, cachedDoneChunk, ct);
                 return;
             }
             else
@@ -253,6 +332,8 @@ public sealed class AskController : ControllerBase
             embeddingResult.Embedding,
             topK,
             tenantId: _tenantContext.TenantId,
+            documentIds: documentIds,
+            excludedDocumentIds: excludedDocumentIds,
             ct);
 
         Console.WriteLine($"[STREAM] Question: {question}");
@@ -264,7 +345,7 @@ public sealed class AskController : ControllerBase
         foreach (var h in hits)
         {
             var docId = h.Payload.TryGetValue("documentId", out var d) ? d?.ToString() ?? "" : "";
-            var chunkIndex = h.Payload.TryGetValue("chunkIndex", out var ci) && int.TryParse(ci?.ToString(), out var idx) ? idx : -1;
+            var chunkIndex = ChunkIndexOf(h);
             var textRaw = h.Payload.TryGetValue("text", out var t) ? t?.ToString() ?? "" : "";
             var text = Rag.Core.Text.PromptGuards.SanitizeContext(textRaw);
 
@@ -294,7 +375,30 @@ public sealed class AskController : ControllerBase
 
         Answer:";
 
-        // 2. Stream response tokens in SSE format and accumulate for caching
+        // 2. Send the retrieved sources, then stream response tokens in SSE format and accumulate for caching.
+        // A generated answer cannot be resumed, so a reconnect gets a new stream key and starts over
+        // with the sources, which tells the client to drop what it had.
+        var streamKey = Guid.NewGuid().ToString("N")[..12];
+        var eventSequence = 0;
+        if (!string.IsNullOrEmpty(Request.Headers["Last-Event-ID"]))
+        {
+            _logger.LogInformation("Cannot resume a generated answer for query '{Query}', starting over", question);
+        }
+
+        var citations = hits.Select(h =>
+        {
+            var docId = h.Payload.TryGetValue("documentId", out var d) ? d?.ToString() ?? "" : "";
+            var chunkIndex = ChunkIndexOf(h);
+            return new Citation(docId, chunkIndex, h.Score);
+        }).ToList();
+
+        var sourcesChunk = new
+        {
+            sources = citations.Select(c => new { documentId = c.DocumentId, chunkIndex = c.ChunkIndex, score = c.Score }),
+            done = false
+        };
+        await WriteEventAsync(streamKey, eventSequence, sourcesChunk, ct);
+
         var fullResponse = new StringBuilder();
         await foreach (var token in _chat.StreamResponseAsync(systemPrompt, userPrompt, ct))
         {
@@ -306,24 +410,15 @@ public sealed class AskController : ControllerBase
                 done = false
             };
 
-            var sseData = $"data: {JsonSerializer.Serialize(chunk)}\n\n";
-            await Response.WriteAsync(sseData, ct);
-            await Response.Body.FlushAsync(ct);
+            await WriteEventAsync(streamKey, ++eventSequence, chunk, ct);
         }
 
         // 3. Store in semantic cache for future requests
-        if (_semanticCache != null)
+        if (useCache)
         {
             try
             {
-                var citations = hits.Select(h => 
-                {
-                    var docId = h.Payload.TryGetValue("documentId", out var d) ? d?.ToString() ?? "" : "";
-                    var chunkIndex = h.Payload.TryGetValue("chunkIndex", out var ci) && int.TryParse(ci?.ToString(), out var idx) ? idx : 0;
-                    return new Citation(docId, chunkIndex, h.Score);
-                }).ToList();
-
-                await _semanticCache.StoreAsync(
+                await _semanticCache!.StoreAsync(
                     question,
                     fullResponse.ToString(),
                     citations,
@@ -342,8 +437,40 @@ public sealed class AskController : ControllerBase
 
         // 4. Send completion signal
         var doneChunk = new { done = true };
-        var doneSseData = $"data: {JsonSerializer.Serialize(doneChunk)}\n\n";
-        await Response.WriteAsync(doneSseData, ct);
+        await WriteEventAsync(streamKey, ++eventSequence, doneChunk, ct);
+    }
+
+    /// <summary>
+    /// Writes one SSE frame with the id "{streamKey}.{sequence}", which the client sends
+    /// back as Last-Event-ID when it reconnects.
+    /// </summary>
+    private async Task WriteEventAsync(string streamKey, int sequence, object data, CancellationToken ct)
+    {
+        await Response.WriteAsync($"id: {streamKey}.{sequence}\ndata: {JsonSerializer.Serialize(data)}\n\n", ct);
         await Response.Body.FlushAsync(ct);
     }
+
+    /// <summary>
+    /// Sequence number from the Last-Event-ID header when it belongs to the given stream; -1 otherwise.
+    /// </summary>
+    private int ResumeAfter(string streamKey)
+    {
+        var lastEventId = Request.Headers["Last-Event-ID"].ToString();
+        var prefix = streamKey + ".";
+        return lastEventId.StartsWith(prefix, StringComparison.Ordinal)
+            && int.TryParse(lastEventId.AsSpan(prefix.Length), out var sequence) ? sequence : -1;
+    }
+
+    /// <summary>
+    /// Stream key for a cached answer: the same answer always gets the same key.
+    /// </summary>
+    private static string CachedStreamKey(string response) =>
+        "c" + Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(response)))[..12].ToLowerInvariant();
+
+    /// <summary>
+    /// Chunk index from the hit's payload; 0 when missing, so citations, sources and
+    /// retrieval hits always agree.
+    /// </summary>
+    private static int ChunkIndexOf(VectorHit hit) =>
+        hit.Payload.TryGetValue("chunkIndex", out var ci) && int.TryParse(ci?.ToString(), out var idx) ? idx : 0;
 }
\ No newline at end of file
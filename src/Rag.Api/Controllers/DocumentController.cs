@@ -1,8 +1,11 @@
 using Hangfire;
+using Hangfire.States;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.RateLimiting;
+using Microsoft.Extensions.Options;
 using Rag.Api.Configuration;
 using Rag.Api.Models;
+using Rag.Core.Models;
 using Rag.Core.Services;
 
 namespace Rag.Api.Controllers;
@@ -15,17 +18,23 @@ public sealed class DocumentController : ControllerBase
     private readonly IDocumentIngestionService _ingestionService;
     private readonly ITenantContext _tenantContext;
     private readonly IBackgroundJobClient _backgroundJobs;
+    private readonly JobStorage _jobStorage;
+    private readonly ValidationSettings _validation;
     private readonly ILogger<DocumentController> _logger;
 
     public DocumentController(
         IDocumentIngestionService ingestionService,
         ITenantContext tenantContext,
         IBackgroundJobClient backgroundJobs,
+        JobStorage jobStorage,
+        IOptions<ValidationSettings> validation,
         ILogger<DocumentController> logger)
     {
         _ingestionService = ingestionService;
         _tenantContext = tenantContext;
         _backgroundJobs = backgroundJobs;
+        _jobStorage = jobStorage;
+        _validation = validation.Value;
         _logger = logger;
     }
 
@@ -45,6 +54,9 @@ public sealed class DocumentController : ControllerBase
         if (!file.ContentType.Equals("application/pdf", StringComparison.OrdinalIgnoreCase))
             return BadRequest("Only PDF files are supported");
 
+        if (file.Length > _validation.MaxFileSize)
+            return BadRequest($"File exceeds the {_validation.MaxFileSize} byte limit");
+
         var tenantId = _tenantContext.TenantId;
 
         // Copy file stream to memory (Hangfire jobs need serializable data)
@@ -77,6 +89,46 @@ public sealed class DocumentController : ControllerBase
         await _ingestionService.IngestPdfAsync(documentId, pdfStream, tenantId, ct);
     }
 
+    /// <summary>
+    /// Maximum file size and allowed file types for uploads.
+    /// </summary>
+    [HttpGet("upload-limits")]
+    public ActionResult<UploadLimitsResponse> GetUploadLimits()
+    {
+        return Ok(new UploadLimitsResponse(
+            MaxFileSize: _validation.MaxFileSize,
+            AllowedFileTypes: _validation.AllowedFileTypes
+        ));
+    }
+
+    /// <summary>
+    /// Status of a PDF ingestion or document update job.
+    /// Jobs of other tenants are reported as not found.
+    /// </summary>
+    [HttpGet("jobs/{jobId}")]
+    public ActionResult<IngestJobStatusResponse> GetJobStatus(string jobId)
+    {
+        var details = _jobStorage.GetMonitoringApi().JobDetails(jobId);
+
+        // Both job methods take (documentId, content, tenantId, ct)
+        var args = details?.Job?.Args;
+        if (args == null || args.Count < 3 || args[2] as string != _tenantContext.TenantId)
+            return NotFound();
+
+        // History is ordered newest first
+        var current = details!.History.FirstOrDefault();
+        string? error = null;
+        if (current?.StateName == FailedState.StateName)
+            current.Data?.TryGetValue("ExceptionMessage", out error);
+
+        return Ok(new IngestJobStatusResponse(
+            JobId: jobId,
+            DocumentId: args[0] as string,
+            State: current?.StateName ?? EnqueuedState.StateName,
+            Error: error
+        ));
+    }
+
     /// <summary>
     /// Delete a document and all its chunks.
     /// </summary>
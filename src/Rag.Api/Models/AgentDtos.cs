@@ -40,6 +40,8 @@ public record ToolResultDto(
 
 /// <summary>
 /// Agent configuration DTO.
+/// DocumentIds optionally restricts document search to the given documents;
+/// ExcludedDocumentIds are never searched.
 /// </summary>
 public record AgentConfigDto(
     int MaxToolCalls = 5,
@@ -48,7 +50,9 @@ public record AgentConfigDto(
     int TopKDocuments = 3,
     double MinRelevanceScore = 0.7,
     bool EnableChainOfThought = true,
-    string? SystemPrompt = null
+    string? SystemPrompt = null,
+    List<string>? DocumentIds = null,
+    List<string>? ExcludedDocumentIds = null
 );
 
 /// <summary>
@@ -58,7 +62,8 @@ public record CitationDto(
     string DocumentId,
     int? PageNumber,
     double Score,
-    string? Text = null
+    string? Text = null,
+    int ChunkIndex = 0
 );
 
 /// <summary>
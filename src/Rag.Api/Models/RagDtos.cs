@@ -17,8 +17,14 @@ public sealed record IngestResponse(
 /// <summary>
 /// Request to ask a question against the RAG system.
 /// TenantId is automatically extracted from X-Tenant-Id header - ensures tenant isolation.
+/// DocumentIds optionally restricts retrieval to the given documents of the tenant;
+/// ExcludedDocumentIds are never retrieved (e.g. files attached to other conversations).
 /// </summary>
-public sealed record AskRequest(string Question, int TopK = 5);
+public sealed record AskRequest(
+    string Question,
+    int TopK = 5,
+    List<string>? DocumentIds = null,
+    List<string>? ExcludedDocumentIds = null);
 
 public sealed record AskResponse(
     string Answer,
@@ -26,6 +32,24 @@ public sealed record AskResponse(
     string TenantId
 );
 
+/// <summary>
+/// Chunks retrieval found for a question, without a generated answer.
+/// Used to tell retrieval problems apart from generation problems.
+/// </summary>
+public sealed record RetrieveResponse(
+    string Question,
+    int TopK,
+    List<RetrievedChunk> Hits,
+    string TenantId
+);
+
+public sealed record RetrievedChunk(
+    string DocumentId,
+    int ChunkIndex,
+    double Score,
+    string Text
+);
+
 /// <summary>
 /// Response when starting a background ingestion job.
 /// </summary>
@@ -36,6 +60,24 @@ public sealed record IngestJobResponse(
     string Message
 );
 
+/// <summary>
+/// Current state of a background ingestion job, using Hangfire's state names.
+/// </summary>
+public sealed record IngestJobStatusResponse(
+    string JobId,
+    string? DocumentId,
+    string State,
+    string? Error
+);
+
+/// <summary>
+/// Upload limits from ValidationSettings, so clients can check files before sending them.
+/// </summary>
+public sealed record UploadLimitsResponse(
+    long MaxFileSize,
+    IReadOnlyList<string> AllowedFileTypes
+);
+
 /// <summary>
 /// Response when deleting a document.
 /// </summary>
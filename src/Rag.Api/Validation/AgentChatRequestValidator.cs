@@ -12,6 +12,8 @@ public class AgentChatRequestValidator : AbstractValidator<AgentChatRequest>
     private const int MaxMessageLength = 2000;
     private const int MaxConversationHistoryLength = 50;
     private const int MaxToolCallsLimit = 10;
+    private const int MaxDocumentIds = 50;
+    private const int MaxExcludedDocumentIds = 500;
 
     public AgentChatRequestValidator()
     {
@@ -45,6 +47,18 @@ public class AgentChatRequestValidator : AbstractValidator<AgentChatRequest>
                 .MaximumLength(1000)
                 .When(x => !string.IsNullOrEmpty(x.Config!.SystemPrompt))
                 .WithMessage("SystemPrompt cannot exceed 1000 characters");
+
+            RuleFor(x => x.Config!.DocumentIds)
+                .Must(ids => ids == null || ids.Count <= MaxDocumentIds)
+                .WithMessage($"DocumentIds cannot contain more than {MaxDocumentIds} documents")
+                .Must(ids => ids == null || ids.All(id => !string.IsNullOrWhiteSpace(id)))
+                .WithMessage("DocumentIds cannot contain empty values");
+
+            RuleFor(x => x.Config!.ExcludedDocumentIds)
+                .Must(ids => ids == null || ids.Count <= MaxExcludedDocumentIds)
+                .WithMessage($"ExcludedDocumentIds cannot contain more than {MaxExcludedDocumentIds} documents")
+                .Must(ids => ids == null || ids.All(id => !string.IsNullOrWhiteSpace(id)))
+                .WithMessage("ExcludedDocumentIds cannot contain empty values");
         });
     }
 }
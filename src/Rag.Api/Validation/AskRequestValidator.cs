@@ -12,6 +12,8 @@ public class AskRequestValidator : AbstractValidator<AskRequest>
     private const int MaxQuestionLength = 500;
     private const int MinTopK = 1;
     private const int MaxTopK = 20;
+    private const int MaxDocumentIds = 50;
+    private const int MaxExcludedDocumentIds = 500;
 
     public AskRequestValidator()
     {
@@ -28,6 +30,18 @@ public class AskRequestValidator : AbstractValidator<AskRequest>
         RuleFor(x => x.TopK)
             .InclusiveBetween(MinTopK, MaxTopK)
             .WithMessage($"TopK must be between {MinTopK} and {MaxTopK}");
+
+        RuleFor(x => x.DocumentIds)
+            .Must(ids => ids == null || ids.Count <= MaxDocumentIds)
+            .WithMessage($"DocumentIds cannot contain more than {MaxDocumentIds} documents")
+            .Must(ids => ids == null || ids.All(id => !string.IsNullOrWhiteSpace(id)))
+            .WithMessage("DocumentIds cannot contain empty values");
+
+        RuleFor(x => x.ExcludedDocumentIds)
+            .Must(ids => ids == null || ids.Count <= MaxExcludedDocumentIds)
+            .WithMessage($"ExcludedDocumentIds cannot contain more than {MaxExcludedDocumentIds} documents")
+            .Must(ids => ids == null || ids.All(id => !string.IsNullOrWhiteSpace(id)))
+            .WithMessage("ExcludedDocumentIds cannot contain empty values");
     }
 
     private static bool NotContainControlCharacters(string question)
@@ -21,6 +21,20 @@ public interface IVectorStore
         string? tenantId, 
         CancellationToken ct);
     
+    /// <summary>
+    /// Searches for similar vectors in the collection.
+    /// If documentIds is non-empty, only chunks of those documents are returned;
+    /// chunks of excludedDocumentIds are never returned.
+    /// </summary>
+    Task<IReadOnlyList<VectorHit>> SearchAsync(
+        string collection, 
+        float[] queryVector, 
+        int topK, 
+        string? tenantId, 
+        IReadOnlyCollection<string>? documentIds, 
+        IReadOnlyCollection<string>? excludedDocumentIds, 
+        CancellationToken ct);
+    
     /// <summary>
     /// Deletes all vectors associated with a document.
     /// If tenantId is provided, only deletes vectors for that tenant.
@@ -35,7 +35,8 @@ public record AgentCitation(
     string DocumentId,
     int? PageNumber,
     double Score,
-    string? Text = null
+    string? Text = null,
+    int ChunkIndex = 0
 );
 
 /// <summary>
@@ -52,13 +53,15 @@ public record AgentResponse(
 
 /// <summary>
 /// Streaming chunk of agent response.
+/// The ContentComplete chunk carries the full Response, for its citations and metrics.
 /// </summary>
 public record AgentStreamChunk(
     AgentStreamChunkType Type,
     string? Content = null,
     ToolCall? ToolCall = null,
     ToolResult? ToolResult = null,
-    string? ReasoningTrace = null
+    string? ReasoningTrace = null,
+    AgentResponse? Response = null
 );
 
 /// <summary>
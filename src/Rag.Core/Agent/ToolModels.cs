@@ -77,6 +77,8 @@ public record AgentMessage(
 
 /// <summary>
 /// Configuration for agent behavior.
+/// DocumentIds, when set, restricts rag_search to those documents;
+/// ExcludedDocumentIds are never searched.
 /// </summary>
 public record AgentConfig(
     int MaxToolCalls = 5,
@@ -85,7 +87,9 @@ public record AgentConfig(
     int TopKDocuments = 3,
     double MinRelevanceScore = 0.7,
     bool EnableChainOfThought = true,
-    string? SystemPrompt = null
+    string? SystemPrompt = null,
+    IReadOnlyList<string>? DocumentIds = null,
+    IReadOnlyList<string>? ExcludedDocumentIds = null
 );
 
 /// <summary>
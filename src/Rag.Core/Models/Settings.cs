@@ -111,9 +111,13 @@ public sealed class ValidationSettings
     public long MaxFileSize { get; set; } = 10485760; // 10 MB
 
     /// <summary>
-    /// Allowed file types for document uploads.
+    /// Allowed file types for document uploads. PDFs are uploaded as files; the web client
+    /// converts the other types to text before ingesting them.
     /// </summary>
-    public List<string> AllowedFileTypes { get; set; } = new() { ".pdf", ".txt", ".md" };
+    public List<string> AllowedFileTypes { get; set; } = new()
+    {
+        ".pdf", ".txt", ".md", ".markdown", ".html", ".htm", ".csv", ".tsv", ".json", ".docx"
+    };
 }
 
 /// <summary>
@@ -25,7 +25,7 @@ public static class PromptGuards
         // Developer mode / jailbreak attempts
         new Regex(@"(?i)\b(developer mode|debug mode|god mode|admin mode)\b", RegexOptions.Compiled),
         new Regex(@"(?i)\benable (developer|debug|admin|god) mode\b", RegexOptions.Compiled),
-        new Regex(@"(?i)\bdo anything now|DAN\b", RegexOptions.Compiled),
+        new Regex(@"(?i)\b(do anything now|DAN)\b", RegexOptions.Compiled),
 
         // Prompt extraction
         new Regex(@"(?i)\b(repeat|print|show|display|output|return)\b.*\b(prompt|instructions|system message)\b", RegexOptions.Compiled),
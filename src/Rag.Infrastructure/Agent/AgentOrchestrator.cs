@@ -4,6 +4,7 @@ using System.Diagnostics;
 using System.Runtime.CompilerServices;
 using System.Text;
 using System.Text.Json;
+using System.Threading.Channels;
 
 namespace Rag.Infrastructure.Agent;
 
@@ -26,12 +27,25 @@ public class AgentOrchestrator : IAgentOrchestrator
         _toolExecutor = toolExecutor;
     }
 
-    public async Task<AgentResponse> ProcessAsync(
+    public Task<AgentResponse> ProcessAsync(
         string userMessage,
         List<AgentMessage> conversationHistory,
         AgentConfig config,
         string? tenantId = null,
         CancellationToken cancellationToken = default)
+        => RunAsync(userMessage, conversationHistory, config, tenantId, onChunk: null, cancellationToken);
+
+    /// <summary>
+    /// Runs the tool-calling loop. onChunk, when set, is told about each tool call as it
+    /// starts and finishes.
+    /// </summary>
+    private async Task<AgentResponse> RunAsync(
+        string userMessage,
+        List<AgentMessage> conversationHistory,
+        AgentConfig config,
+        string? tenantId,
+        Action<AgentStreamChunk>? onChunk,
+        CancellationToken cancellationToken)
     {
         var stopwatch = Stopwatch.StartNew();
         var messages = new List<AgentMessage>(conversationHistory);
@@ -99,6 +113,19 @@ public class AgentOrchestrator : IAgentOrchestrator
                 }
             }
 
+            // The document filters come from the request, not the model, so they always override
+            foreach (var toolCall in toolCalls.Where(tc => tc.ToolName == "rag_search"))
+            {
+                if (config.DocumentIds is { Count: > 0 })
+                {
+                    toolCall.Arguments["document_ids"] = config.DocumentIds;
+                }
+                if (config.ExcludedDocumentIds is { Count: > 0 })
+                {
+                    toolCall.Arguments["excluded_document_ids"] = config.ExcludedDocumentIds;
+                }
+            }
+
             // Deduplicate tool calls - check request-level cache first
             var deduplicatedToolCalls = new List<ToolCall>();
             var toolResults = new Dictionary<string, ToolResult>();
@@ -123,11 +150,22 @@ public class AgentOrchestrator : IAgentOrchestrator
             // Execute only deduplicated tool calls
             if (config.AllowParallelToolCalls && deduplicatedToolCalls.Count > 1)
             {
+                foreach (var tc in deduplicatedToolCalls)
+                {
+                    onChunk?.Invoke(new AgentStreamChunk(AgentStreamChunkType.ToolCallStart, ToolCall: tc));
+                }
+
                 var parallelResults = await _toolExecutor.ExecuteParallelAsync(deduplicatedToolCalls, cancellationToken);
                 foreach (var kvp in parallelResults)
                 {
                     toolResults[kvp.Key] = kvp.Value;
                 }
+
+                foreach (var tc in deduplicatedToolCalls)
+                {
+                    onChunk?.Invoke(new AgentStreamChunk(
+                        AgentStreamChunkType.ToolCallResult, ToolCall: tc, ToolResult: parallelResults[tc.ToolName]));
+                }
                 
                 toolCallsExecuted.AddRange(deduplicatedToolCalls);
                 foreach (var tc in deduplicatedToolCalls)
@@ -144,8 +182,10 @@ public class AgentOrchestrator : IAgentOrchestrator
             {
                 foreach (var toolCall in deduplicatedToolCalls)
                 {
+                    onChunk?.Invoke(new AgentStreamChunk(AgentStreamChunkType.ToolCallStart, ToolCall: toolCall));
                     var result = await _toolExecutor.ExecuteAsync(toolCall, cancellationToken);
                     toolResults[toolCall.ToolName] = result;
+                    onChunk?.Invoke(new AgentStreamChunk(AgentStreamChunkType.ToolCallResult, ToolCall: toolCall, ToolResult: result));
                     
                     // Cache for this request
                     var cacheKey = GetToolCallCacheKey(toolCall);
@@ -175,10 +215,11 @@ public class AgentOrchestrator : IAgentOrchestrator
                                     var page = jsonDoc.TryGetProperty("page", out var p) && int.TryParse(p.GetString(), out var pageNum) ? pageNum : (int?)null;
                                     var score = jsonDoc.TryGetProperty("score", out var s) ? s.GetDouble() : 0.0;
                                     var text = jsonDoc.TryGetProperty("text", out var t) ? t.GetString() : null;
+                                    var chunkIndex = jsonDoc.TryGetProperty("chunk_index", out var ci) && ci.TryGetInt32(out var idx) ? idx : 0;
                                     
                                     if (documentId != null)
                                     {
-                                        citations.Add(new AgentCitation(documentId, page, score, text));
+                                        citations.Add(new AgentCitation(documentId, page, score, text, chunkIndex));
                                     }
                                 }
                                 else
@@ -191,16 +232,18 @@ public class AgentOrchestrator : IAgentOrchestrator
                                         var pageProp = itemType.GetProperty("page");
                                         var scoreProp = itemType.GetProperty("score");
                                         var textProp = itemType.GetProperty("text");
+                                        var chunkIndexProp = itemType.GetProperty("chunk_index");
                                         
                                         var documentId = docIdProp?.GetValue(item)?.ToString();
                                         var pageStr = pageProp?.GetValue(item)?.ToString();
                                         var page = pageStr != null && int.TryParse(pageStr, out var pageNum) ? pageNum : (int?)null;
                                         var score = (double?)(scoreProp?.GetValue(item) ?? 0.0) ?? 0.0;
                                         var text = textProp?.GetValue(item)?.ToString();
+                                        var chunkIndex = int.TryParse(chunkIndexProp?.GetValue(item)?.ToString(), out var idx) ? idx : 0;
                                         
                                         if (documentId != null)
                                         {
-                                            citations.Add(new AgentCitation(documentId, page, score, text));
+                                            citations.Add(new AgentCitation(documentId, page, score, text, chunkIndex));
                                         }
                                     }
                                 }
@@ -253,24 +296,39 @@ public class AgentOrchestrator : IAgentOrchestrator
             ReasoningTrace: "Starting agent processing..."
         );
 
-        // For now, process non-streaming and yield results
-        // TODO: Implement true streaming with IChatModel streaming support
-        var response = await ProcessAsync(userMessage, conversationHistory, config, tenantId, cancellationToken);
+        // Tool calls are reported while the loop runs; the answer itself is not streamed
+        // by the chat model yet, so it arrives in one piece at the end
+        var channel = Channel.CreateUnbounded<AgentStreamChunk>(new UnboundedChannelOptions { SingleReader = true });
 
-        // Yield tool calls
-        foreach (var toolCall in response.ToolCallsExecuted)
+        async Task RunAndCompleteAsync()
         {
-            yield return new AgentStreamChunk(
-                AgentStreamChunkType.ToolCallStart,
-                ToolCall: toolCall
-            );
+            try
+            {
+                var response = await RunAsync(
+                    userMessage, conversationHistory, config, tenantId,
+                    chunk => channel.Writer.TryWrite(chunk), cancellationToken);
+
+                channel.Writer.TryWrite(new AgentStreamChunk(
+                    AgentStreamChunkType.ContentComplete,
+                    Content: response.FinalAnswer,
+                    Response: response
+                ));
+                channel.Writer.Complete();
+            }
+            catch (Exception ex)
+            {
+                channel.Writer.Complete(ex);
+            }
         }
 
-        // Yield final answer
-        yield return new AgentStreamChunk(
-            AgentStreamChunkType.ContentComplete,
-            Content: response.FinalAnswer
-        );
+        var run = RunAndCompleteAsync();
+
+        await foreach (var chunk in channel.Reader.ReadAllAsync(cancellationToken))
+        {
+            yield return chunk;
+        }
+
+        await run;
     }
 
     private string BuildSystemPrompt(AgentConfig config, string? tenantId)
@@ -2,6 +2,7 @@ using Rag.Core.Abstractions;
 using Rag.Core.Agent;
 using Rag.Core.Models;
 using Microsoft.Extensions.Logging;
+using System.Text.Json;
 
 namespace Rag.Infrastructure.Agent.Tools;
 
@@ -46,11 +47,18 @@ public class RagSearchTool : ITool
         var query = arguments["query"].ToString()!;
         var topK = arguments.TryGetValue("top_k", out var topKObj) ? Convert.ToInt32(topKObj) : 3;
         var tenantId = arguments.TryGetValue("tenant_id", out var tenantObj) ? tenantObj.ToString() : "default";
+        var documentIds = arguments.TryGetValue("document_ids", out var idsObj) ? ParseDocumentIds(idsObj) : null;
+        var excludedDocumentIds = arguments.TryGetValue("excluded_document_ids", out var excludedObj)
+            ? ParseDocumentIds(excludedObj)
+            : null;
+
+        // Cached results may come from any of the tenant's documents, so filtered searches skip the cache
+        var useCache = _semanticCache != null && documentIds == null && excludedDocumentIds == null;
 
         // Check semantic cache first
-        if (_semanticCache != null)
+        if (useCache)
         {
-            var cachedResult = await _semanticCache.GetSimilarAsync(query, tenantId, cancellationToken);
+            var cachedResult = await _semanticCache!.GetSimilarAsync(query, tenantId, cancellationToken);
             if (cachedResult != null)
             {
                 _logger?.LogInformation("RagSearchTool: Cache HIT for query '{Query}' (similarity: {Similarity:F3})", query, cachedResult.SimilarityScore);
@@ -88,7 +96,8 @@ public class RagSearchTool : ITool
         var embedding = embeddingResult.Embedding; // Keep as float[]
 
         // Search using configured collection
-        var results = await _vectorStore.SearchAsync(_collectionName, embedding, topK, tenantId, cancellationToken);
+        var results = await _vectorStore.SearchAsync(
+            _collectionName, embedding, topK, tenantId, documentIds, excludedDocumentIds, cancellationToken);
 
         if (results.Count == 0)
         {
@@ -108,11 +117,13 @@ public class RagSearchTool : ITool
             r.Payload.TryGetValue("text", out var text);
             r.Payload.TryGetValue("documentId", out var docId);
             r.Payload.TryGetValue("pageNumber", out var page);
+            r.Payload.TryGetValue("chunkIndex", out var chunkIndex);
 
             return new
             {
                 rank = idx + 1,
                 document_id = docId?.ToString() ?? "unknown",
+                chunk_index = int.TryParse(chunkIndex?.ToString(), out var ci) ? ci : 0,
                 page = page?.ToString(),
                 score = r.Score,
                 text = text?.ToString() ?? ""
@@ -128,15 +139,15 @@ public class RagSearchTool : ITool
         }
 
         // Store in semantic cache
-        if (_semanticCache != null)
+        if (useCache)
         {
             var citations = documents.Select(d => new Citation(
                 d.document_id,
-                0, // chunk index not available in current payload
+                d.chunk_index,
                 d.score
             )).ToList();
 
-            await _semanticCache.StoreAsync(
+            await _semanticCache!.StoreAsync(
                 query,
                 content.Trim(),
                 citations,
@@ -157,4 +168,21 @@ public class RagSearchTool : ITool
             }
         );
     }
+
+    /// <summary>
+    /// Reads a document ID list whether it was injected as a list or parsed from the model's JSON.
+    /// </summary>
+    private static List<string>? ParseDocumentIds(object? value)
+    {
+        var ids = value switch
+        {
+            IEnumerable<string> list => list,
+            JsonElement { ValueKind: JsonValueKind.Array } array => array.EnumerateArray().Select(e => e.ToString()),
+            IEnumerable<object> items => items.Select(i => i?.ToString() ?? ""),
+            _ => Enumerable.Empty<string>()
+        };
+
+        var result = ids.Where(id => !string.IsNullOrWhiteSpace(id)).ToList();
+        return result.Count > 0 ? result : null;
+    }
 }
@@ -33,11 +33,21 @@ public sealed class QdrantVectorStore : IVectorStore
         }
     }
 
+    public Task<IReadOnlyList<VectorHit>> SearchAsync(
+        string collection, 
+        float[] queryVector, 
+        int topK, 
+        string? tenantId, 
+        CancellationToken ct)
+        => SearchAsync(collection, queryVector, topK, tenantId, documentIds: null, excludedDocumentIds: null, ct);
+
     public async Task<IReadOnlyList<VectorHit>> SearchAsync(
         string collection, 
         float[] queryVector, 
         int topK, 
         string? tenantId, 
+        IReadOnlyCollection<string>? documentIds, 
+        IReadOnlyCollection<string>? excludedDocumentIds, 
         CancellationToken ct)
     {
         var url = $"{_settings.Url.TrimEnd('/')}/collections/{collection}/points/search";
@@ -50,22 +60,52 @@ public sealed class QdrantVectorStore : IVectorStore
             ["with_payload"] = true
         };
 
+        var must = new List<object>();
+
         // Add tenant filter if multi-tenancy is enabled
         if (!string.IsNullOrWhiteSpace(tenantId))
         {
-            searchRequest["filter"] = new
+            must.Add(new Dictionary<string, object>
+            {
+                ["key"] = "tenantId",
+                ["match"] = new { value = tenantId }
+            });
+        }
+
+        // Restrict to the selected documents
+        if (documentIds is { Count: > 0 })
+        {
+            must.Add(new Dictionary<string, object>
             {
-                must = new[]
+                ["key"] = "documentId",
+                ["match"] = new { any = documentIds }
+            });
+        }
+
+        var filter = new Dictionary<string, object>();
+        if (must.Count > 0)
+        {
+            filter["must"] = must;
+        }
+
+        // Leave out documents the caller must not see
+        if (excludedDocumentIds is { Count: > 0 })
+        {
+            filter["must_not"] = new List<object>
+            {
+                new Dictionary<string, object>
                 {
-                    new
-                    {
-                        key = "tenantId",
-                        match = new { value = tenantId }
-                    }
+                    ["key"] = "documentId",
+                    ["match"] = new { any = excludedDocumentIds }
                 }
             };
         }
 
+        if (filter.Count > 0)
+        {
+            searchRequest["filter"] = filter;
+        }
+
         using var resp = await _http.PostAsJsonAsync(url, searchRequest, ct);
 
         resp.EnsureSuccessStatusCode();
@@ -0,0 +1,50 @@
+using FluentAssertions;
+using Rag.Core.Text;
+using System.Text.Json;
+
+namespace Rag.Tests;
+
+/// <summary>
+/// Checks Chunker against the fixture shared with the TypeScript port in Rag.Web
+/// (src/lib/chunker.ts), so the upload chunk preview matches what the API ingests.
+/// </summary>
+public class ChunkerFixtureTests
+{
+    private sealed record ChunkerCase(
+        string Name,
+        string Text,
+        int? Size,
+        int? Overlap,
+        int? MaxChunks,
+        List<string> Expected);
+
+    private sealed record ChunkerFixture(string Description, List<ChunkerCase> Cases);
+
+    public static IEnumerable<object[]> Cases()
+    {
+        var path = Path.Combine(AppContext.BaseDirectory, "Fixtures", "chunker-cases.json");
+        var fixture = JsonSerializer.Deserialize<ChunkerFixture>(
+            File.ReadAllText(path),
+            new JsonSerializerOptions { PropertyNameCaseInsensitive = true })!;
+
+        return fixture.Cases.Select(c => new object[] { c.Name, c });
+    }
+
+    [Theory]
+    [MemberData(nameof(Cases))]
+    public void Chunk_MatchesSharedFixture(string name, object testCase)
+    {
+        var c = (ChunkerCase)testCase;
+
+        var chunks = Chunker.Chunk(
+            c.Text,
+            c.Size ?? 900,
+            c.Overlap ?? 150,
+            c.MaxChunks ?? 200);
+
+        chunks.Should().BeEquivalentTo(
+            c.Expected,
+            options => options.WithStrictOrdering(),
+            $"case '{name}' is shared with the TypeScript chunker");
+    }
+}
@@ -122,6 +122,62 @@ public class DocumentApiTests : IntegrationTestBase
         result.GetProperty("status").GetString().Should().Be("queued");
     }
     
+    [Fact]
+    public async Task GetUploadLimits_ReturnsValidationSettings()
+    {
+        // Act
+        var response = await Client.GetAsync("/documents/upload-limits");
+        
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        
+        var result = await response.Content.ReadFromJsonAsync<JsonElement>();
+        result.GetProperty("maxFileSize").GetInt64().Should().Be(10485760);
+        result.GetProperty("allowedFileTypes").EnumerateArray()
+            .Select(t => t.GetString())
+            .Should().Contain(new[] { ".pdf", ".txt", ".docx" });
+    }
+    
+    [Fact]
+    public async Task GetJobStatus_ForUpdateJob_ReturnsState()
+    {
+        // Arrange
+        var documentId = GenerateTestDocumentId();
+        var updateResponse = await Client.PutAsJsonAsync($"/documents/{documentId}",
+            new { documentId, text = "Text whose re-ingestion is tracked by job status." });
+        var jobId = (await updateResponse.Content.ReadFromJsonAsync<JsonElement>())
+            .GetProperty("jobId").GetString();
+        
+        // Act
+        var response = await Client.GetAsync($"/documents/jobs/{jobId}");
+        
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        
+        var result = await response.Content.ReadFromJsonAsync<JsonElement>();
+        result.GetProperty("jobId").GetString().Should().Be(jobId);
+        result.GetProperty("documentId").GetString().Should().Be(documentId);
+        result.GetProperty("state").GetString().Should().NotBeNullOrEmpty();
+    }
+    
+    [Fact]
+    public async Task GetJobStatus_FromOtherTenant_ReturnsNotFound()
+    {
+        // Arrange
+        var documentId = GenerateTestDocumentId();
+        var uploadResponse = await Client.PostAsync("/documents/upload-pdf",
+            CreatePdfUploadContent(TestHelpers.CreateTestPdf("Tenant scoped job."), documentId));
+        var jobId = (await uploadResponse.Content.ReadFromJsonAsync<JsonElement>())
+            .GetProperty("jobId").GetString();
+        var otherTenant = CreateClientWithHeaders(TestApiKey, "other-tenant");
+        
+        // Act
+        var response = await otherTenant.GetAsync($"/documents/jobs/{jobId}");
+        
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+    
     [Fact]
     public async Task UploadPdf_WithMultipleFiles_AllReturnDifferentJobIds()
     {
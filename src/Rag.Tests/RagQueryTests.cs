@@ -125,6 +125,111 @@ public class RagQueryTests : IntegrationTestBase
         response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
     }
     
+    [Fact]
+    public async Task Retrieve_WithIngestedData_ReturnsScoredChunks()
+    {
+        // Arrange
+        var documentId = GenerateTestDocumentId();
+        var ingestRequest = new
+        {
+            documentId,
+            text = "Qdrant stores vectors with a payload. Searches can filter on payload fields such as the tenant."
+        };
+        await Client.PostAsJsonAsync("/ingest", ingestRequest);
+        await Task.Delay(2000);
+        
+        // Act
+        var request = new { question = "How does Qdrant filter searches?", topK = 2 };
+        var response = await Client.PostAsJsonAsync("/ask/retrieve", request);
+        
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        
+        var result = await response.Content.ReadFromJsonAsync<JsonElement>();
+        result.GetProperty("topK").GetInt32().Should().Be(2);
+        result.GetProperty("tenantId").GetString().Should().Be(TestTenantId);
+        
+        var hits = result.GetProperty("hits");
+        hits.GetArrayLength().Should().BeInRange(1, 2);
+        hits.EnumerateArray().Should().Contain(h => h.GetProperty("documentId").GetString() == documentId);
+        hits[0].GetProperty("text").GetString().Should().NotBeNullOrEmpty();
+    }
+
+    [Fact]
+    public async Task Retrieve_WithDocumentIds_ReturnsOnlyThoseDocuments()
+    {
+        // Arrange - two documents that both match the question
+        var excludedId = GenerateTestDocumentId();
+        var selectedId = GenerateTestDocumentId();
+        await Client.PostAsJsonAsync("/ingest", new
+        {
+            documentId = excludedId,
+            text = "Qdrant filters searches on payload fields. The tenant field keeps workspaces apart."
+        });
+        await Client.PostAsJsonAsync("/ingest", new
+        {
+            documentId = selectedId,
+            text = "Qdrant can filter a search on the documentId payload field to stay within chosen documents."
+        });
+        await Task.Delay(2000);
+
+        // Act
+        var request = new { question = "How does Qdrant filter searches?", topK = 10, documentIds = new[] { selectedId } };
+        var response = await Client.PostAsJsonAsync("/ask/retrieve", request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var result = await response.Content.ReadFromJsonAsync<JsonElement>();
+        var hits = result.GetProperty("hits");
+        hits.GetArrayLength().Should().BeGreaterThan(0);
+        hits.EnumerateArray().Should().OnlyContain(h => h.GetProperty("documentId").GetString() == selectedId);
+    }
+
+    [Fact]
+    public async Task Retrieve_WithExcludedDocumentIds_LeavesThoseDocumentsOut()
+    {
+        // Arrange - a library document and a file attached to another conversation
+        var libraryId = GenerateTestDocumentId();
+        var attachmentId = $"conv-{Guid.NewGuid():N}--{GenerateTestDocumentId()}";
+        await Client.PostAsJsonAsync("/ingest", new
+        {
+            documentId = libraryId,
+            text = "Qdrant filters searches on payload fields. The tenant field keeps workspaces apart."
+        });
+        await Client.PostAsJsonAsync("/ingest", new
+        {
+            documentId = attachmentId,
+            text = "Qdrant can leave documents out of a search with a must_not filter on the payload."
+        });
+        await Task.Delay(2000);
+
+        // Act
+        var request = new { question = "How does Qdrant filter searches?", topK = 10, excludedDocumentIds = new[] { attachmentId } };
+        var response = await Client.PostAsJsonAsync("/ask/retrieve", request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var result = await response.Content.ReadFromJsonAsync<JsonElement>();
+        var hits = result.GetProperty("hits");
+        hits.EnumerateArray().Should().Contain(h => h.GetProperty("documentId").GetString() == libraryId);
+        hits.EnumerateArray().Should().NotContain(h => h.GetProperty("documentId").GetString() == attachmentId);
+    }
+
+    [Fact]
+    public async Task Retrieve_WithTopKOutOfRange_ReturnsBadRequest()
+    {
+        // Arrange
+        var request = new { question = "What is Qdrant?", topK = 50 };
+        
+        // Act
+        var response = await Client.PostAsJsonAsync("/ask/retrieve", request);
+        
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+    
     [Fact]
     public async Task AskQuestion_DifferentTenants_GetIsolatedResults()
     {
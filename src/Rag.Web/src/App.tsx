@@ -2,13 +2,26 @@ import { useEffect, useState } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatInterface } from './components/ChatInterface';
 import { StreamingChat } from './components/StreamingChat';
+import { DocumentLibrary } from './components/DocumentLibrary';
 import { Login } from './components/Login';
+import { SessionExpiredModal } from './components/SessionExpiredModal';
+import { SessionExpiryBanner } from './components/SessionExpiryBanner';
+import { IngestJobsPanel } from './components/IngestJobsPanel';
+import { useIngestJobPoller } from './hooks/useIngestJobPoller';
 import { useAppStore } from './store/app-store';
 import { apiClient } from './lib/api-client';
 
 function App() {
-  const { isAuthenticated, currentTenant } = useAppStore();
-  const [viewMode, setViewMode] = useState<'chat' | 'streaming'>('chat');
+  const { isAuthenticated, currentTenant, reauthRequired, libraryFocus } = useAppStore();
+  const [viewMode, setViewMode] = useState<'chat' | 'streaming' | 'documents'>('chat');
+
+  // Citations link to their document in the library
+  useEffect(() => {
+    if (libraryFocus) setViewMode('documents');
+  }, [libraryFocus]);
+
+  // Background ingestion jobs keep updating whichever view is open
+  useIngestJobPoller();
 
   useEffect(() => {
     // Set initial tenant in API client
@@ -26,6 +39,8 @@ function App() {
     <div className="flex h-screen bg-gray-50">
       <Sidebar />
       <div className="flex-1 flex flex-col">
+        <SessionExpiryBanner />
+
         {/* View Mode Tabs */}
         <div className="bg-white border-b border-gray-200 px-6 py-3 flex gap-4 flex-shrink-0">
           <button
@@ -48,11 +63,28 @@ function App() {
           >
             ⚡ Streaming Chat (Phase 8)
           </button>
+          <button
+            onClick={() => setViewMode('documents')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              viewMode === 'documents'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            📚 Documents
+          </button>
         </div>
 
         {/* Content Area */}
-        {viewMode === 'chat' ? <ChatInterface /> : <StreamingChat />}
+        {viewMode === 'chat' && <ChatInterface />}
+        {viewMode === 'streaming' && <StreamingChat />}
+        {viewMode === 'documents' && <DocumentLibrary />}
       </div>
+
+      <IngestJobsPanel />
+
+      {/* Re-login keeps the app mounted so conversation and draft survive */}
+      {reauthRequired && <SessionExpiredModal />}
     </div>
   );
 }
@@ -1,11 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, Loader2 } from 'lucide-react';
+import { Send, Paperclip, Square, History } from 'lucide-react';
 import { ChatMessage } from './ChatMessage';
 import { FileUpload } from './FileUpload';
+import { ConversationAttachments } from './ConversationAttachments';
+import { DocumentFilterChips, DocumentFilterPicker } from './DocumentFilter';
+import { RetryNotice } from './RetryNotice';
+import { ChatSettingsBadge } from './ChatSettingsDrawer';
+import { TemplateSuggestions } from './TemplateSuggestions';
 import { useAppStore } from '@/store/app-store';
 import { agentService } from '@/services/agent-service';
 import { generateId } from '@/lib/utils';
-import { ChatMessage as ChatMessageType } from '@/types';
+import { getActivePath, getSiblings } from '@/lib/conversation-tree';
+import { resolveChatSettings, toAgentConfig } from '@/lib/chat-settings';
+import { getRetrievalScope } from '@/lib/conversation-attachments';
+import { planContext, summaryMessage, toAgentHistory } from '@/lib/context-window';
+import { getCurrentSummary, summarizeExcludedTurns } from '@/lib/history-summary';
+import { useChatSettings } from '@/hooks/useChatSettings';
+import { ApiHttpError, isRequestCancelled } from '@/lib/api-client';
+import {
+  AgentStreamSnapshot,
+  applyAgentStreamEvent,
+  cancelRunningToolCalls,
+  emptyAgentStreamSnapshot,
+} from '@/lib/agent-stream';
+import { ChatMessage as ChatMessageType, Conversation } from '@/types';
 
 export const ChatInterface: React.FC = () => {
   const {
@@ -14,11 +32,19 @@ export const ChatInterface: React.FC = () => {
     addMessage,
     updateMessage,
     createConversation,
+    setConversationDocumentFilter,
+    selectBranch,
+    chatSettings,
   } = useAppStore();
+  const { settings: currentSettings } = useChatSettings();
 
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showFileUpload, setShowFileUpload] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [streamSnapshot, setStreamSnapshot] = useState<AgentStreamSnapshot | null>(null);
+  const snapshotRef = useRef<AgentStreamSnapshot>(emptyAgentStreamSnapshot());
+  const inFlightRef = useRef<{ controller: AbortController; conversationId: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -28,12 +54,25 @@ export const ChatInterface: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [currentConversation?.messages]);
+  }, [currentConversation?.messages, streamSnapshot]);
 
   useEffect(() => {
     adjustTextareaHeight();
   }, [input]);
 
+  // Switching conversation cancels the request that belongs to the previous one
+  useEffect(() => {
+    const inFlight = inFlightRef.current;
+    if (inFlight && inFlight.conversationId !== currentConversation?.id) {
+      inFlight.controller.abort();
+    }
+  }, [currentConversation?.id]);
+
+  // Switching tenant or leaving the view cancels whatever is running
+  useEffect(() => {
+    return () => inFlightRef.current?.controller.abort();
+  }, [currentTenant?.id]);
+
   const adjustTextareaHeight = () => {
     const textarea = textareaRef.current;
     if (textarea) {
@@ -42,24 +81,15 @@ export const ChatInterface: React.FC = () => {
     }
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading || !currentTenant) return;
-
-    let conversation = currentConversation;
-    if (!conversation) {
-      conversation = createConversation(currentTenant.id);
-    }
-
-    const userMessage: ChatMessageType = {
-      id: generateId(),
-      role: 'user',
-      content: input.trim(),
-      timestamp: new Date(),
-    };
-
-    addMessage(conversation.id, userMessage);
-    const userInput = input.trim();
-    setInput('');
+  /**
+   * Streams the answer to a question into a new reply under it. `history` is the branch
+   * leading up to the question.
+   */
+  const requestAnswer = async (
+    conversation: Conversation,
+    userMessage: ChatMessageType,
+    history: ChatMessageType[]
+  ) => {
     setIsLoading(true);
 
     // Add loading message
@@ -70,45 +100,159 @@ export const ChatInterface: React.FC = () => {
       content: '',
       timestamp: new Date(),
       isLoading: true,
+      parentId: userMessage.id,
     };
     addMessage(conversation.id, loadingMessage);
 
+    const controller = new AbortController();
+    inFlightRef.current = { controller, conversationId: conversation.id };
+
+    // Stream events into local state; the store is only written once the answer is final
+    snapshotRef.current = emptyAgentStreamSnapshot();
+    setStreamingMessageId(loadingMessageId);
+    setStreamSnapshot(snapshotRef.current);
+
+    const settings = resolveChatSettings(chatSettings[conversation.tenantId], conversation.settings);
+
     try {
+      // Only the part of the branch that fits the context budget is sent
+      const plan = planContext(history, settings);
+      let summary: string | null = null;
+      if (settings.summarizeOlderTurns && plan.excluded.length > 0) {
+        try {
+          summary = await summarizeExcludedTurns(conversation, plan.excluded, controller.signal);
+        } catch (error) {
+          if (isRequestCancelled(error)) throw error;
+          // The question can still be answered without the older turns
+          console.warn('[Context] Could not summarise older turns', error);
+        }
+      }
+      const conversationHistory = [
+        ...(summary ? [summaryMessage(summary)] : []),
+        ...toAgentHistory(plan.included),
+      ];
+
       // Use agent mode (includes RAG via useRagForContext)
-      const conversationHistory = conversation.messages
-        .filter((m) => !m.isLoading)
-        .map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-      const response = await agentService.chat({
-        message: userInput,
-        conversationHistory,
-        config: {
-          maxToolCalls: 5,
-          allowParallelToolCalls: true,
-          useRagForContext: true,
-          enableChainOfThought: true,
+
+      await agentService.chatStream(
+        {
+          message: userMessage.content,
+          conversationHistory,
+          config: toAgentConfig(
+            settings,
+            getRetrievalScope(useAppStore.getState().documents, conversation.tenantId, conversation)
+          ),
         },
-      });
+        (event) => {
+          snapshotRef.current = applyAgentStreamEvent(snapshotRef.current, event);
+          setStreamSnapshot(snapshotRef.current);
+        },
+        controller.signal
+      );
 
       // Update loading message with response
+      const final = snapshotRef.current;
       updateMessage(conversation.id, loadingMessageId, {
-        content: response.answer,
-        toolCalls: response.toolCalls,
-        metrics: response.metrics,
+        content: final.content,
+        toolCalls: final.toolCalls,
+        citations: final.citations,
+        metrics: final.metrics,
         isLoading: false,
       });
     } catch (error) {
+      if (isRequestCancelled(error)) {
+        // Keep whatever arrived before the stop
+        updateMessage(conversation.id, loadingMessageId, {
+          content: snapshotRef.current.content,
+          toolCalls: cancelRunningToolCalls(snapshotRef.current.toolCalls),
+          citations: snapshotRef.current.citations,
+          isLoading: false,
+          cancelled: true,
+        });
+        return;
+      }
+
       console.error('Error sending message:', error);
+      const rateLimited = error instanceof ApiHttpError && error.status === 429;
       updateMessage(conversation.id, loadingMessageId, {
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: rateLimited
+          ? 'Rate limit exceeded for your tier. Please wait a moment and try again.'
+          : 'Sorry, I encountered an error. Please try again.',
+        toolCalls: snapshotRef.current.toolCalls,
         isLoading: false,
       });
     } finally {
+      if (inFlightRef.current?.controller === controller) {
+        inFlightRef.current = null;
+      }
       setIsLoading(false);
+      setStreamingMessageId(null);
+      setStreamSnapshot(null);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading || !currentTenant) return;
+
+    let conversation = currentConversation;
+    if (!conversation) {
+      conversation = createConversation(currentTenant.id);
     }
+
+    const history = getActivePath(conversation);
+    const userMessage: ChatMessageType = {
+      id: generateId(),
+      role: 'user',
+      content: input.trim(),
+      timestamp: new Date(),
+      parentId: history[history.length - 1]?.id ?? null,
+    };
+
+    addMessage(conversation.id, userMessage);
+    setInput('');
+    await requestAnswer(conversation, userMessage, history);
+  };
+
+  // An edited question is a sibling of the original, answered with the same history
+  const handleEdit = (original: ChatMessageType, content: string) => {
+    if (isLoading || !currentConversation) return;
+    const path = getActivePath(currentConversation);
+    const userMessage: ChatMessageType = {
+      id: generateId(),
+      role: 'user',
+      content,
+      timestamp: new Date(),
+      parentId: original.parentId ?? null,
+    };
+    addMessage(currentConversation.id, userMessage);
+    void requestAnswer(currentConversation, userMessage, path.slice(0, path.findIndex((m) => m.id === original.id)));
+  };
+
+  const handleRegenerate = (answer: ChatMessageType) => {
+    if (isLoading || !currentConversation) return;
+    const path = getActivePath(currentConversation);
+    const index = path.findIndex((m) => m.id === answer.id);
+    const userMessage = path[index - 1];
+    if (userMessage?.role !== 'user') return;
+    void requestAnswer(currentConversation, userMessage, path.slice(0, index - 1));
+  };
+
+  // Attachments belong to a conversation, so attaching starts one if needed
+  const handleAttach = () => {
+    if (!currentTenant) return;
+    if (!currentConversation) createConversation(currentTenant.id);
+    setShowFileUpload(true);
+  };
+
+  // The filter is stored on the conversation, so picking documents starts one if needed
+  const handleFilterChange = (documentIds: string[]) => {
+    if (!currentTenant) return;
+    const conversation = currentConversation ?? createConversation(currentTenant.id);
+    setConversationDocumentFilter(conversation.id, documentIds);
+  };
+
+  const handleStop = () => {
+    inFlightRef.current?.controller.abort();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -118,10 +262,55 @@ export const ChatInterface: React.FC = () => {
     }
   };
 
-  const messages = currentConversation?.messages || [];
+  // For display: the selected branch, with the live stream overlaid on the loading message
+  const activePath = currentConversation ? getActivePath(currentConversation) : [];
+  const messages = activePath.map((msg) =>
+    msg.id === streamingMessageId && streamSnapshot
+      ? {
+          ...msg,
+          content: streamSnapshot.content,
+          toolCalls: streamSnapshot.toolCalls,
+          citations: streamSnapshot.citations,
+        }
+      : msg
+  );
+
+  // What the next question would send as history
+  const nextContext = planContext(activePath, currentSettings);
+  const includedIds = new Set(nextContext.included.map((m) => m.id));
+  const excludedIds = new Set(nextContext.excluded.map((m) => m.id));
+  const currentSummary =
+    currentConversation && currentSettings.summarizeOlderTurns
+      ? getCurrentSummary(currentConversation, nextContext.excluded)
+      : null;
+  const contextOf = (message: ChatMessageType) =>
+    includedIds.has(message.id)
+      ? ('included' as const)
+      : excludedIds.has(message.id)
+        ? currentSettings.summarizeOlderTurns
+          ? ('summarized' as const)
+          : ('excluded' as const)
+        : undefined;
 
   return (
     <div className="flex flex-col h-screen">
+      {/* Header */}
+      {currentTenant && (
+        <div className="flex-shrink-0 flex items-center justify-end px-6 py-2 border-b border-gray-200 bg-white">
+          {nextContext.included.length + nextContext.excluded.length > 0 && (
+            <span
+              className="mr-3 inline-flex items-center gap-1 text-xs text-gray-500"
+              title="Messages sent as history with the next question"
+            >
+              <History className="w-3 h-3" />
+              {nextContext.included.length} of {nextContext.included.length + nextContext.excluded.length} messages
+              in context · ~{nextContext.tokens} tokens
+            </span>
+          )}
+          <ChatSettingsBadge mode="agent" disabled={isLoading} />
+        </div>
+      )}
+
       {/* Messages area */}
       <div className="flex-1 overflow-y-auto">
         {messages.length === 0 ? (
@@ -133,39 +322,54 @@ export const ChatInterface: React.FC = () => {
               <p className="text-gray-600">
                 I can search documents, GitHub repositories, remember conversations, and use various tools to help you.
               </p>
-              <div className="flex flex-wrap gap-2 justify-center">
-                <button
-                  onClick={() => setInput('What is Qdrant?')}
-                  className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
-                >
-                  What is Qdrant?
-                </button>
-                <button
-                  onClick={() => setInput('Find popular vector database repos on GitHub')}
-                  className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
-                >
-                  Search GitHub
-                </button>
-                <button
-                  onClick={() => setInput('Research vector databases using docs and GitHub')}
-                  className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
-                >
-                  Multi-step research
-                </button>
-                <button
-                  onClick={() => setInput('Remember that I prefer detailed technical explanations')}
-                  className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
-                >
-                  Store Memory
-                </button>
-              </div>
+              <TemplateSuggestions onSelect={setInput} />
             </div>
           </div>
         ) : (
           <div className="pb-4">
-            {messages.map((message) => (
-              <ChatMessage key={message.id} message={message} />
-            ))}
+            {currentSummary && (
+              <details className="mx-6 mt-4 px-4 py-2 text-sm bg-gray-50 border border-gray-200 rounded-lg">
+                <summary className="cursor-pointer text-gray-600">
+                  Earlier turns are sent as a summary
+                </summary>
+                <p className="mt-2 text-gray-700 whitespace-pre-wrap">{currentSummary.text}</p>
+              </details>
+            )}
+            {messages.map((message, idx) => {
+              const siblings = currentConversation ? getSiblings(currentConversation, message) : [];
+              return (
+                <ChatMessage
+                  key={message.id}
+                  message={message}
+                  question={messages.slice(0, idx).reverse().find((m) => m.role === 'user')?.content}
+                  branch={
+                    siblings.length > 1 && !isLoading
+                      ? {
+                          index: siblings.findIndex((m) => m.id === message.id),
+                          count: siblings.length,
+                          onSelect: (i) => selectBranch(currentConversation!.id, siblings[i].id),
+                        }
+                      : undefined
+                  }
+                  onEdit={
+                    message.role === 'user' && !isLoading
+                      ? (content) => handleEdit(message, content)
+                      : undefined
+                  }
+                  onRegenerate={
+                    message.role === 'assistant' && !isLoading && messages[idx - 1]?.role === 'user'
+                      ? () => handleRegenerate(message)
+                      : undefined
+                  }
+                  context={isLoading ? undefined : contextOf(message)}
+                  onTogglePin={
+                    !message.isLoading && currentConversation
+                      ? () => updateMessage(currentConversation.id, message.id, { pinned: !message.pinned })
+                      : undefined
+                  }
+                />
+              );
+            })}
             <div ref={messagesEndRef} />
           </div>
         )}
@@ -174,14 +378,33 @@ export const ChatInterface: React.FC = () => {
       {/* Input area */}
       <div className="border-t border-gray-200 bg-white px-6 py-4">
         <div className="max-w-4xl mx-auto">
+          <RetryNotice tenantId={currentTenant?.id} />
+          {currentConversation && <ConversationAttachments conversationId={currentConversation.id} />}
+          {currentTenant && (
+            <DocumentFilterChips
+              tenantId={currentTenant.id}
+              selected={currentConversation?.documentFilter ?? []}
+              onChange={handleFilterChange}
+              disabled={isLoading}
+            />
+          )}
           <div className="flex items-end gap-3">
             <button
-              onClick={() => setShowFileUpload(!showFileUpload)}
+              onClick={handleAttach}
               className="flex-shrink-0 p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
-              title="Upload file"
+              title="Attach files to this conversation"
             >
               <Paperclip className="w-5 h-5" />
             </button>
+            {currentTenant && (
+              <DocumentFilterPicker
+                tenantId={currentTenant.id}
+                conversationId={currentConversation?.id}
+                selected={currentConversation?.documentFilter ?? []}
+                onChange={handleFilterChange}
+                disabled={isLoading}
+              />
+            )}
 
             <div className="flex-1 relative">
               <textarea
@@ -196,17 +419,23 @@ export const ChatInterface: React.FC = () => {
               />
             </div>
 
-            <button
-              onClick={handleSend}
-              disabled={!input.trim() || isLoading || !currentTenant}
-              className="flex-shrink-0 p-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {isLoading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="flex-shrink-0 p-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors"
+                title="Stop generating"
+              >
+                <Square className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim() || !currentTenant}
+                className="flex-shrink-0 p-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
                 <Send className="w-5 h-5" />
-              )}
-            </button>
+              </button>
+            )}
           </div>
 
           {!currentTenant && (
@@ -218,8 +447,11 @@ export const ChatInterface: React.FC = () => {
       </div>
 
       {/* File upload modal */}
-      {showFileUpload && (
-        <FileUpload onClose={() => setShowFileUpload(false)} />
+      {showFileUpload && currentConversation && (
+        <FileUpload
+          conversationId={currentConversation.id}
+          onClose={() => setShowFileUpload(false)}
+        />
       )}
     </div>
   );
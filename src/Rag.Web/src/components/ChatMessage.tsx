@@ -1,18 +1,151 @@
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import { User, Bot, FileText, Wrench, Clock, DollarSign } from 'lucide-react';
-import { ChatMessage as ChatMessageType } from '@/types';
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import {
+  User,
+  Bot,
+  FileText,
+  Wrench,
+  Clock,
+  DollarSign,
+  Square,
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  RotateCcw,
+  Pin,
+  PinOff,
+} from 'lucide-react';
+import { Citation, ChatMessage as ChatMessageType } from '@/types';
 import { cn, formatCost, formatDuration } from '@/lib/utils';
+import { CITATION_HREF_PREFIX, InlineSource, parseCitationMarkers } from '@/lib/citation-markers';
+import { ToolCallTimeline } from './ToolCallTimeline';
+import { CitationViewer } from './CitationViewer';
+import { PdfViewer } from './PdfViewer';
+import { RetrievalInspector } from './RetrievalInspector';
+import { useAppStore } from '@/store/app-store';
 
 interface Props {
   message: ChatMessageType;
+  /** The user message this one answers, used to highlight terms in cited passages */
+  question?: string;
+  /** Position among edits or regenerations of this message, when there are several */
+  branch?: { index: number; count: number; onSelect: (index: number) => void };
+  /** Sends an edited copy of this question as a new branch */
+  onEdit?: (content: string) => void;
+  /** Asks for another answer as a new branch */
+  onRegenerate?: () => void;
+  /** Whether the message is sent as agent history with the next question */
+  context?: 'included' | 'excluded' | 'summarized';
+  /** Keeps the message in the agent's context whatever the budget */
+  onTogglePin?: () => void;
 }
 
-export const ChatMessage: React.FC<Props> = ({ message }) => {
+const CONTEXT_LABELS = {
+  included: 'In context',
+  excluded: 'Not in context',
+  summarized: 'Summarised',
+};
+
+export const ChatMessage: React.FC<Props> = ({
+  message,
+  question,
+  branch,
+  onEdit,
+  onRegenerate,
+  context,
+  onTogglePin,
+}) => {
   const isUser = message.role === 'user';
+  const { documents, currentTenant } = useAppStore();
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleSaveEdit = () => {
+    const content = draft?.trim();
+    if (!content || !onEdit) return;
+    setDraft(null);
+    if (content !== message.content) onEdit(content);
+  };
+
+  // Agent answers carry the retrieved sources as citations, which only arrive after the
+  // text; ask stream answers receive them up front as retrievedSources
+  const parsed = useMemo(() => {
+    if (isUser) return null;
+    const retrieved = message.retrievedSources ?? (message.isLoading ? undefined : message.citations);
+    return parseCitationMarkers(message.content, retrieved, message.isLoading);
+  }, [isUser, message.content, message.retrievedSources, message.citations, message.isLoading]);
+  const citedSources = parsed?.sources ?? [];
+  const citedKeys = new Set(citedSources.map((s) => `${s.documentId}:${s.chunkIndex}`));
+  const otherCitations = (message.citations ?? []).filter(
+    (c) => !citedKeys.has(`${c.documentId}:${c.chunkIndex}`)
+  );
+  const sourceAnchor = (number: number) => `${message.id}-source-${number}`;
+
+  useEffect(() => {
+    if (highlightedSource === null) return;
+    const timer = setTimeout(() => setHighlightedSource(null), 1500);
+    return () => clearTimeout(timer);
+  }, [highlightedSource]);
+
+  // Chips link to their entry in the source list below the answer
+  const markdownComponents: Components = {
+    a: ({ href, title, children }) => {
+      if (!href?.startsWith(CITATION_HREF_PREFIX)) {
+        return (
+          <a href={href} title={title}>
+            {children}
+          </a>
+        );
+      }
+      const number = Number(href.slice(CITATION_HREF_PREFIX.length));
+      const source = citedSources[number - 1];
+      const flagged = source?.wasRetrieved === false;
+      return (
+        <sup>
+          <a
+            href={`#${sourceAnchor(number)}`}
+            onClick={(e) => {
+              e.preventDefault();
+              document.getElementById(sourceAnchor(number))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+              setHighlightedSource(number);
+            }}
+            className={cn(
+              'inline-flex items-center justify-center min-w-[1.1rem] h-4 px-1 mx-0.5 rounded-full text-[10px] font-medium no-underline',
+              flagged ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+            )}
+            title={
+              source
+                ? `${source.documentId}:${source.chunkIndex}${flagged ? ' (not among the retrieved sources)' : ''}`
+                : undefined
+            }
+          >
+            {number}
+          </a>
+        </sup>
+      );
+    },
+  };
+
+  const citationOf = (source: InlineSource): Citation =>
+    source.retrieved ?? { documentId: source.documentId, chunkIndex: source.chunkIndex, score: 0 };
+
+  // PDFs kept in this browser open on the cited page; everything else shows the chunk text
+  const openCitationPdf =
+    openCitation &&
+    documents.some(
+      (d) => d.id === openCitation.documentId && d.tenantId === currentTenant?.id && d.hasLocalPdf
+    );
 
   return (
-    <div className={cn('flex gap-4 px-6 py-4', isUser ? 'bg-gray-50' : 'bg-white')}>
+    <div
+      className={cn(
+        'flex gap-4 px-6 py-4',
+        isUser ? 'bg-gray-50' : 'bg-white',
+        context && context !== 'included' && 'opacity-60'
+      )}
+    >
       <div className="flex-shrink-0">
         {isUser ? (
           <div className="w-8 h-8 rounded-full bg-primary-600 flex items-center justify-center">
@@ -26,10 +159,48 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
       </div>
 
       <div className="flex-1 space-y-3">
+        {/* Tool calls - shown while streaming so running tools are visible above the answer */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <ToolCallTimeline toolCalls={message.toolCalls} />
+        )}
+
         {/* Message content */}
-        {message.content ? (
+        {draft !== null ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSaveEdit();
+                } else if (e.key === 'Escape') {
+                  setDraft(null);
+                }
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none"
+              rows={Math.min(8, draft.split('\n').length + 1)}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={!draft.trim()}
+                className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : message.content ? (
           <div className="prose prose-sm max-w-none">
-            <ReactMarkdown>{message.content}</ReactMarkdown>
+            <ReactMarkdown components={markdownComponents}>{parsed?.markdown ?? message.content}</ReactMarkdown>
             {/* Show cursor when streaming */}
             {message.isLoading && (
               <span className="inline-block w-0.5 h-4 ml-1 bg-blue-600 animate-pulse"></span>
@@ -49,57 +220,76 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
         {/* Other message parts - only show when not loading or when content exists */}
         {!message.isLoading && (
           <>
-
-            {/* Tool calls */}
-            {message.toolCalls && message.toolCalls.length > 0 && (
-              <div className="mt-4 space-y-2">
-                <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                  <Wrench className="w-4 h-4" />
-                  <span>Tools Used ({message.toolCalls.length})</span>
-                </div>
-                <div className="space-y-2">
-                  {message.toolCalls.map((toolCall, idx) => (
-                    <div
-                      key={idx}
-                      className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm"
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="font-medium text-primary-700">
-                          {toolCall.toolName}
-                        </span>
-                        {toolCall.error && (
-                          <span className="text-xs text-red-600">Error</span>
-                        )}
-                      </div>
-                      {toolCall.reasoningTrace && (
-                        <p className="text-gray-600 mb-2">{toolCall.reasoningTrace}</p>
-                      )}
-                      <details className="text-xs text-gray-500">
-                        <summary className="cursor-pointer hover:text-gray-700">
-                          View arguments
-                        </summary>
-                        <pre className="mt-2 p-2 bg-gray-100 rounded overflow-x-auto">
-                          {JSON.stringify(toolCall.arguments, null, 2)}
-                        </pre>
-                      </details>
-                    </div>
-                  ))}
-                </div>
+            {message.cancelled && (
+              <div className="inline-flex items-center gap-1 px-2 py-0.5 text-xs text-gray-600 bg-gray-100 border border-gray-200 rounded-full">
+                <Square className="w-3 h-3" />
+                <span>Stopped</span>
               </div>
             )}
 
-            {/* Citations */}
-            {message.citations && message.citations.length > 0 && (
+            {/* Citations: numbered sources cited inline first, then the rest of what was retrieved */}
+            {(citedSources.length > 0 || otherCitations.length > 0) && (
               <div className="mt-4 space-y-2">
                 <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
                   <FileText className="w-4 h-4" />
-                  <span>Sources ({message.citations.length})</span>
+                  <span>Sources ({citedSources.length + otherCitations.length})</span>
                 </div>
                 <div className="space-y-2">
-                  {message.citations.map((citation, idx) => (
-                    <div
+                  {citedSources.map((source) => {
+                    const flagged = source.wasRetrieved === false;
+                    return (
+                      <button
+                        key={`cited-${source.number}`}
+                        id={sourceAnchor(source.number)}
+                        onClick={() => setOpenCitation(citationOf(source))}
+                        className={cn(
+                          'w-full flex items-center justify-between gap-3 border rounded-lg p-3 text-sm text-left transition-colors',
+                          flagged
+                            ? 'bg-amber-50 border-amber-200 hover:bg-amber-100'
+                            : 'bg-blue-50 border-blue-200 hover:bg-blue-100 hover:border-blue-300',
+                          highlightedSource === source.number && 'ring-2 ring-primary-400'
+                        )}
+                        title={
+                          flagged
+                            ? 'The answer cites a passage that was not among the retrieved sources'
+                            : 'Show the cited passage'
+                        }
+                      >
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span
+                            className={cn(
+                              'flex-shrink-0 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded-full text-xs font-medium',
+                              flagged ? 'bg-amber-100 text-amber-800' : 'bg-blue-100 text-blue-800'
+                            )}
+                          >
+                            {source.number}
+                          </span>
+                          <span className={cn('font-medium truncate', flagged ? 'text-amber-900' : 'text-blue-900')}>
+                            {source.documentId}
+                          </span>
+                          {source.retrieved?.pageNumber && (
+                            <span className="text-blue-700">Page {source.retrieved.pageNumber}</span>
+                          )}
+                        </div>
+                        {flagged ? (
+                          <span className="flex-shrink-0 inline-flex items-center gap-1 text-amber-700 font-medium">
+                            <AlertTriangle className="w-4 h-4" />
+                            Not retrieved
+                          </span>
+                        ) : source.retrieved ? (
+                          <span className="flex-shrink-0 text-blue-600 font-medium">
+                            {((source.retrieved.score || source.retrieved.relevanceScore || 0) * 100).toFixed(0)}% relevant
+                          </span>
+                        ) : null}
+                      </button>
+                    );
+                  })}
+                  {otherCitations.map((citation, idx) => (
+                    <button
                       key={idx}
-                      className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm"
+                      onClick={() => setOpenCitation(citation)}
+                      className="w-full flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-left hover:bg-blue-100 hover:border-blue-300 transition-colors"
+                      title="Show the cited passage"
                     >
                       <div>
                         <span className="font-medium text-blue-900">
@@ -114,12 +304,99 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
                       <span className="text-blue-600 font-medium">
                         {((citation.score || citation.relevanceScore || 0) * 100).toFixed(0)}% relevant
                       </span>
-                    </div>
+                    </button>
                   ))}
                 </div>
               </div>
             )}
 
+            {!isUser && (message.retrievedSources || message.citations) && (
+              <RetrievalInspector
+                sources={message.retrievedSources ?? message.citations ?? []}
+                question={question}
+              />
+            )}
+
+            {/* Branch navigation and actions */}
+            {draft === null && (branch || onEdit || onRegenerate || context || onTogglePin) && (
+              <div className="flex items-center gap-3 text-xs text-gray-500">
+                {branch && branch.count > 1 && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => branch.onSelect(branch.index - 1)}
+                      disabled={branch.index === 0}
+                      className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Previous version"
+                    >
+                      <ChevronLeft className="w-3 h-3" />
+                    </button>
+                    <span>
+                      {branch.index + 1} / {branch.count}
+                    </span>
+                    <button
+                      onClick={() => branch.onSelect(branch.index + 1)}
+                      disabled={branch.index === branch.count - 1}
+                      className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Next version"
+                    >
+                      <ChevronRight className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+                {onEdit && (
+                  <button
+                    onClick={() => setDraft(message.content)}
+                    className="inline-flex items-center gap-1 hover:text-primary-700"
+                    title="Edit the question and answer it again as a new branch"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    Edit
+                  </button>
+                )}
+                {onRegenerate && (
+                  <button
+                    onClick={onRegenerate}
+                    className="inline-flex items-center gap-1 hover:text-primary-700"
+                    title="Generate another answer as a new branch"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Regenerate
+                  </button>
+                )}
+                {onTogglePin && (
+                  <button
+                    onClick={onTogglePin}
+                    className={cn(
+                      'inline-flex items-center gap-1 hover:text-primary-700',
+                      message.pinned && 'text-primary-700'
+                    )}
+                    title={
+                      message.pinned
+                        ? 'Stop always sending this message to the agent'
+                        : 'Always send this message to the agent, whatever the context budget'
+                    }
+                  >
+                    {message.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                    {message.pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                )}
+                {context && (
+                  <span
+                    className={cn(
+                      'ml-auto inline-flex items-center gap-1',
+                      context === 'included' ? 'text-green-700' : 'text-gray-400'
+                    )}
+                    title="Whether this message is sent as history with the next question"
+                  >
+                    <span
+                      className={cn('w-1.5 h-1.5 rounded-full', context === 'included' ? 'bg-green-500' : 'bg-gray-300')}
+                    />
+                    {CONTEXT_LABELS[context]}
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Metrics */}
             {message.metrics && (
               <div className="flex items-center gap-4 mt-3 text-xs text-gray-500">
@@ -146,6 +423,17 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
           </>
         )}
       </div>
+
+      {openCitation && openCitationPdf && (
+        <PdfViewer citation={openCitation} onClose={() => setOpenCitation(null)} />
+      )}
+      {openCitation && !openCitationPdf && (
+        <CitationViewer
+          citation={openCitation}
+          question={question}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import { useChatSettings } from '@/hooks/useChatSettings';
+import {
+  CHAT_SETTING_RANGES,
+  MAX_SYSTEM_PROMPT_LENGTH,
+  summarizeChatSettings,
+  validateChatSettings,
+} from '@/lib/chat-settings';
+import { getPromptLibrary } from '@/lib/prompt-templates';
+import { MAX_HISTORY_MESSAGES } from '@/lib/context-window';
+import { cn } from '@/lib/utils';
+import { ChatSettings, HistoryStrategy } from '@/types';
+
+interface BadgeProps {
+  mode: 'agent' | 'streaming';
+  disabled?: boolean;
+}
+
+/**
+ * Summary of the conversation's settings for the chat header; opens the drawer.
+ */
+export const ChatSettingsBadge: React.FC<BadgeProps> = ({ mode, disabled }) => {
+  const { settings, customized } = useChatSettings();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className={cn(
+          'inline-flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+          customized
+            ? 'bg-primary-50 border-primary-200 text-primary-800 hover:bg-primary-100'
+            : 'bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100'
+        )}
+        title={customized ? 'This conversation has its own settings' : 'Using the workspace defaults'}
+      >
+        <SlidersHorizontal className="w-3 h-3" />
+        {summarizeChatSettings(settings, mode)}
+      </button>
+      {open && <ChatSettingsDrawer onClose={() => setOpen(false)} />}
+    </>
+  );
+};
+
+interface DrawerProps {
+  onClose: () => void;
+}
+
+/**
+ * Every agent option and the streaming top K for the current conversation. Only values
+ * that differ from the workspace defaults are stored on the conversation.
+ */
+export const ChatSettingsDrawer: React.FC<DrawerProps> = ({ onClose }) => {
+  const {
+    currentConversation,
+    currentTenant,
+    createConversation,
+    setConversationSettings,
+    setChatSettings,
+    promptLibraries,
+  } = useAppStore();
+  const { workspace, settings } = useChatSettings();
+  const [draft, setDraft] = useState<ChatSettings>(settings);
+  const systemPrompts = getPromptLibrary(promptLibraries, currentTenant?.id).filter((t) => t.kind === 'system');
+
+  const error = validateChatSettings(draft);
+  const update = (updates: Partial<ChatSettings>) => setDraft((prev) => ({ ...prev, ...updates }));
+
+  const handleSave = () => {
+    if (!currentTenant || error) return;
+    const conversation = currentConversation ?? createConversation(currentTenant.id);
+    const overrides = Object.fromEntries(
+      Object.entries(draft).filter(([key, value]) => workspace[key as keyof ChatSettings] !== value)
+    ) as Partial<ChatSettings>;
+    setConversationSettings(conversation.id, Object.keys(overrides).length > 0 ? overrides : undefined);
+    onClose();
+  };
+
+  // The conversation then follows the new defaults like every other one
+  const handleSaveAsDefault = () => {
+    if (!currentTenant || error) return;
+    setChatSettings(currentTenant.id, draft);
+    if (currentConversation) setConversationSettings(currentConversation.id, undefined);
+    onClose();
+  };
+
+  const numberField = (key: keyof typeof CHAT_SETTING_RANGES, step = 1) => {
+    const { label, min, max } = CHAT_SETTING_RANGES[key];
+    return (
+      <label className="flex items-center justify-between gap-3 text-sm">
+        <span className="text-gray-700">{label}</span>
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={Number.isNaN(draft[key]) ? '' : draft[key]}
+          onChange={(e) => update({ [key]: e.target.valueAsNumber })}
+          className={cn(
+            'w-20 px-2 py-1 border rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-primary-500',
+            draft[key] !== workspace[key] ? 'border-primary-400' : 'border-gray-300'
+          )}
+        />
+      </label>
+    );
+  };
+
+  const toggleField = (
+    key: 'allowParallelToolCalls' | 'useRagForContext' | 'enableChainOfThought' | 'summarizeOlderTurns',
+    label: string
+  ) => (
+    <label className="flex items-center justify-between gap-3 text-sm">
+      <span className={cn('text-gray-700', draft[key] !== workspace[key] && 'font-medium text-primary-800')}>
+        {label}
+      </span>
+      <input type="checkbox" checked={draft[key]} onChange={(e) => update({ [key]: e.target.checked })} />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-20" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 px-5 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="font-semibold text-gray-900">Conversation settings</h2>
+            <p className="mt-1 text-xs text-gray-500">
+              Changed values apply to this conversation; the rest follow the{' '}
+              {currentTenant?.name ?? 'workspace'} defaults.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-900">Agent</h3>
+            {numberField('maxToolCalls')}
+            {toggleField('allowParallelToolCalls', 'Run tools in parallel')}
+            {toggleField('enableChainOfThought', 'Chain of thought')}
+            <label className="block text-sm">
+              <span className="flex items-center justify-between text-gray-700">
+                System prompt
+                <span className="text-xs text-gray-400">
+                  {draft.systemPrompt.length}/{MAX_SYSTEM_PROMPT_LENGTH}
+                </span>
+              </span>
+              {systemPrompts.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const prompt = systemPrompts.find((t) => t.id === e.target.value);
+                    if (prompt) update({ systemPrompt: prompt.text });
+                  }}
+                  aria-label="Use a saved system prompt"
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-600"
+                >
+                  <option value="">Use a saved prompt...</option>
+                  {systemPrompts.map((prompt) => (
+                    <option key={prompt.id} value={prompt.id}>
+                      {prompt.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <textarea
+                value={draft.systemPrompt}
+                onChange={(e) => update({ systemPrompt: e.target.value })}
+                placeholder="Leave empty to use the server's prompt"
+                rows={5}
+                className={cn(
+                  'mt-1 w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500',
+                  draft.systemPrompt !== workspace.systemPrompt ? 'border-primary-400' : 'border-gray-300'
+                )}
+              />
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-900">Retrieval</h3>
+            {toggleField('useRagForContext', 'Search documents for context')}
+            {numberField('topKDocuments')}
+            {numberField('minRelevanceScore', 0.05)}
+            {numberField('streamingTopK')}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-900">Conversation history</h3>
+            <label className="flex items-center justify-between gap-3 text-sm">
+              <span className={cn('text-gray-700', draft.historyStrategy !== workspace.historyStrategy && 'font-medium text-primary-800')}>
+                Send to the agent
+              </span>
+              <select
+                value={draft.historyStrategy}
+                onChange={(e) => update({ historyStrategy: e.target.value as HistoryStrategy })}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="tokenBudget">Recent messages within a token budget</option>
+                <option value="lastN">The last N messages</option>
+                <option value="all">Every message (up to {MAX_HISTORY_MESSAGES})</option>
+              </select>
+            </label>
+            {draft.historyStrategy === 'tokenBudget' && numberField('historyTokenBudget', 100)}
+            {draft.historyStrategy === 'lastN' && numberField('historyLastN')}
+            {toggleField('summarizeOlderTurns', 'Summarise messages that do not fit')}
+            <p className="text-xs text-gray-500">
+              Pinned messages are always sent. Summaries are generated with an extra request when
+              older messages drop out of the context.
+            </p>
+          </section>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center gap-2 px-5 py-4 border-t border-gray-200">
+          <button
+            onClick={() => setDraft(workspace)}
+            className="mr-auto text-sm text-gray-500 hover:text-gray-700"
+          >
+            Use workspace defaults
+          </button>
+          <button
+            onClick={handleSaveAsDefault}
+            disabled={!currentTenant || !!error}
+            className="px-3 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-50"
+          >
+            Save as default
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!currentTenant || !!error}
+            className="px-3 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 font-medium disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
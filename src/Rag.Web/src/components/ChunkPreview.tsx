@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { chunkText, getChunkWarnings } from '@/lib/chunker';
+import { cn } from '@/lib/utils';
+
+interface Props {
+  text: string;
+}
+
+const INITIAL_VISIBLE = 20;
+
+/**
+ * How the API's chunker will split the text: boundaries, sizes and the overlap carried
+ * over from the previous chunk (highlighted).
+ */
+export const ChunkPreview: React.FC<Props> = ({ text }) => {
+  const [showAll, setShowAll] = useState(false);
+  const result = useMemo(() => chunkText(text), [text]);
+  const warnings = useMemo(() => getChunkWarnings(result), [result]);
+  const flagged = new Set(warnings.map((w) => w.chunkIndex));
+
+  const totalTokens = result.chunks.reduce((sum, chunk) => sum + chunk.estimatedTokens, 0);
+  const visible = showAll ? result.chunks : result.chunks.slice(0, INITIAL_VISIBLE);
+
+  if (result.chunks.length === 0) {
+    return <p className="text-xs text-gray-500">No text to chunk.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-600">
+        {result.chunks.length} chunk{result.chunks.length === 1 ? '' : 's'} ·{' '}
+        {result.normalizedText.length.toLocaleString()} chars · ~{totalTokens.toLocaleString()}{' '}
+        tokens. Line breaks are replaced by spaces before chunking.
+      </p>
+
+      {warnings.length > 0 && (
+        <ul className="p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-0.5">
+          {warnings.map((warning, idx) => (
+            <li key={idx} className="flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ol className="space-y-2 max-h-72 overflow-y-auto">
+        {visible.map((chunk) => (
+          <li
+            key={chunk.index}
+            className={cn(
+              'border rounded-lg p-2 text-xs',
+              flagged.has(chunk.index) ? 'border-amber-300' : 'border-gray-200'
+            )}
+          >
+            <div className="flex flex-wrap gap-x-3 text-gray-500 mb-1">
+              <span className="font-medium text-gray-700">Chunk {chunk.index + 1}</span>
+              <span>
+                chars {chunk.start.toLocaleString()}–{chunk.end.toLocaleString()}
+              </span>
+              <span>{chunk.text.length} chars</span>
+              <span>~{chunk.estimatedTokens} tokens</span>
+              {chunk.overlapChars > 0 && <span>{chunk.overlapChars} overlap</span>}
+            </div>
+            <p className="font-mono text-gray-800 whitespace-pre-wrap break-words">
+              {chunk.overlapChars > 0 && (
+                <span className="bg-amber-100" title="Repeated from the previous chunk">
+                  {chunk.text.slice(0, chunk.overlapChars)}
+                </span>
+              )}
+              {chunk.text.slice(chunk.overlapChars)}
+            </p>
+          </li>
+        ))}
+      </ol>
+
+      {!showAll && result.chunks.length > INITIAL_VISIBLE && (
+        <button
+          onClick={() => setShowAll(true)}
+          className="text-xs font-medium text-primary-600 hover:text-primary-700"
+        >
+          Show all {result.chunks.length} chunks
+        </button>
+      )}
+    </div>
+  );
+};
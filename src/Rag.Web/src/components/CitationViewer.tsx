@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, FileText, Library, Loader2, AlertCircle } from 'lucide-react';
+import { ragService } from '@/services/rag-service';
+import { useAppStore } from '@/store/app-store';
+import { isNotFound, isRequestCancelled } from '@/lib/api-client';
+import { extractQueryTerms, highlightTerms } from '@/lib/highlight';
+import { cn } from '@/lib/utils';
+import { Citation, DocumentChunksResponse } from '@/types';
+
+// Chunks shown on each side of the cited one
+const NEIGHBOURS = 1;
+
+interface Props {
+  citation: Citation;
+  /** The question the answer was for; its words are highlighted */
+  question?: string;
+  onClose: () => void;
+}
+
+/**
+ * Side panel with the cited chunk and the chunks just before and after it.
+ */
+export const CitationViewer: React.FC<Props> = ({ citation, question, onClose }) => {
+  const { documents, currentTenant, showInLibrary } = useAppStore();
+  const [result, setResult] = useState<DocumentChunksResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const doc = documents.find((d) => d.id === citation.documentId && d.tenantId === currentTenant?.id);
+  const terms = useMemo(() => extractQueryTerms(question ?? ''), [question]);
+  const score = citation.score || citation.relevanceScore || 0;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setResult(null);
+    setError(null);
+
+    ragService
+      .getDocumentChunks(
+        citation.documentId,
+        Math.max(0, citation.chunkIndex - NEIGHBOURS),
+        citation.chunkIndex + NEIGHBOURS,
+        controller.signal
+      )
+      .then(setResult)
+      .catch((err) => {
+        if (isRequestCancelled(err)) return;
+        console.error('[Citations] Could not load chunks:', citation.documentId, err);
+        setError(
+          isNotFound(err)
+            ? 'This passage is no longer in the index. The document may have been deleted or re-ingested.'
+            : 'Could not load the passage. Please try again.'
+        );
+      });
+
+    return () => controller.abort();
+  }, [citation.documentId, citation.chunkIndex]);
+
+  const handleOpenInLibrary = () => {
+    showInLibrary(citation.documentId);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-20" onClick={onClose}>
+      <aside
+        className="w-full max-w-lg h-full bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 px-5 py-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 font-semibold text-gray-900">
+              <FileText className="w-4 h-4 flex-shrink-0 text-primary-600" />
+              <span className="truncate">{doc?.name ?? citation.documentId}</span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Chunk {citation.chunkIndex + 1}
+              {result && ` of ${result.totalChunks}`}
+              {citation.pageNumber && ` · Page ${citation.pageNumber}`}
+              {` · ${(score * 100).toFixed(0)}% relevant`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Passages */}
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-3">
+          {error ? (
+            <div className="flex items-start gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          ) : !result ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Loading passage...</span>
+            </div>
+          ) : (
+            <>
+              {result.chunks.length > 0 && result.chunks[0].chunkIndex > 0 && (
+                <p className="text-xs text-gray-400 text-center">...</p>
+              )}
+              {result.chunks.map((chunk) => {
+                const cited = chunk.chunkIndex === citation.chunkIndex;
+                return (
+                  <div
+                    key={chunk.chunkIndex}
+                    className={cn(
+                      'rounded-lg p-3 text-sm leading-relaxed whitespace-pre-wrap',
+                      cited
+                        ? 'bg-blue-50 border border-blue-200 text-gray-900'
+                        : 'border border-dashed border-gray-200 text-gray-500'
+                    )}
+                  >
+                    <div className="mb-1 text-xs font-medium text-gray-400">
+                      {cited ? 'Cited passage' : chunk.chunkIndex < citation.chunkIndex ? 'Before' : 'After'}
+                      {chunk.pageNumber !== undefined && ` · Page ${chunk.pageNumber}`}
+                    </div>
+                    {highlightTerms(chunk.text, terms).map((segment, idx) =>
+                      segment.match ? (
+                        <mark key={idx} className="bg-yellow-200 text-inherit rounded-sm">
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        <React.Fragment key={idx}>{segment.text}</React.Fragment>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+              {!result.chunks.some((chunk) => chunk.chunkIndex === citation.chunkIndex) && (
+                <p className="text-sm text-amber-700">
+                  The cited chunk was not found; the document may have been re-ingested since this answer.
+                </p>
+              )}
+              {result.chunks.length > 0 &&
+                result.chunks[result.chunks.length - 1].chunkIndex < result.totalChunks - 1 && (
+                  <p className="text-xs text-gray-400 text-center">...</p>
+                )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-gray-200 bg-gray-50">
+          <p className="text-xs text-gray-500 truncate">
+            {terms.length > 0 ? `Highlighting: ${terms.join(', ')}` : citation.documentId}
+          </p>
+          <button
+            onClick={handleOpenInLibrary}
+            className="flex-shrink-0 inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-primary-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <Library className="w-4 h-4" />
+            Open in library
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
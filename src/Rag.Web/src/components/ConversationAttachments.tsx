@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { FileText, Loader2, X, Library, AlertCircle } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import {
+  attachmentIdPrefix,
+  deleteAttachment,
+  getConversationAttachments,
+  promoteAttachment,
+} from '@/lib/conversation-attachments';
+import { cn } from '@/lib/utils';
+import { DocumentInfo } from '@/types';
+
+interface Props {
+  conversationId: string;
+}
+
+/**
+ * Chips for the files attached to a conversation, with remove and promote-to-library actions.
+ */
+export const ConversationAttachments: React.FC<Props> = ({ conversationId }) => {
+  const { documents } = useAppStore();
+  const [removing, setRemoving] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const attachments = getConversationAttachments(documents, conversationId);
+
+  if (attachments.length === 0) return null;
+
+  const handleRemove = async (doc: DocumentInfo) => {
+    setRemoving((prev) => new Set(prev).add(doc.id));
+    setError(null);
+    try {
+      await deleteAttachment(doc);
+    } catch (err) {
+      console.error('[Attachments] Remove failed:', doc.id, err);
+      setError(`Could not remove ${doc.name}. Please try again.`);
+    } finally {
+      setRemoving((prev) => {
+        const next = new Set(prev);
+        next.delete(doc.id);
+        return next;
+      });
+    }
+  };
+
+  const prefix = attachmentIdPrefix(conversationId);
+
+  return (
+    <div className="mb-2 space-y-1">
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((doc) => {
+          const pending = doc.status === 'uploading' || doc.status === 'processing';
+          const isRemoving = removing.has(doc.id);
+          return (
+            <span
+              key={doc.id}
+              className={cn(
+                'inline-flex items-center gap-1.5 pl-2 pr-1 py-1 rounded-full text-xs border',
+                doc.status === 'error'
+                  ? 'bg-red-50 border-red-200 text-red-700'
+                  : 'bg-gray-50 border-gray-200 text-gray-700'
+              )}
+              title={`${doc.id.startsWith(prefix) ? doc.id.slice(prefix.length) : doc.id}${
+                doc.error ? `: ${doc.error}` : ''
+              }`}
+            >
+              {pending || isRemoving ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : doc.status === 'error' ? (
+                <AlertCircle className="w-3 h-3" />
+              ) : (
+                <FileText className="w-3 h-3" />
+              )}
+              <span className="max-w-[12rem] truncate">{doc.name}</span>
+              <button
+                onClick={() => promoteAttachment(doc)}
+                disabled={isRemoving || doc.status === 'error'}
+                className="p-0.5 rounded-full text-gray-400 hover:text-primary-600 hover:bg-gray-200 disabled:opacity-50"
+                title="Keep in the shared document library"
+              >
+                <Library className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => void handleRemove(doc)}
+                disabled={isRemoving}
+                className="p-0.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-gray-200 disabled:opacity-50"
+                title="Remove and delete attachment"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          );
+        })}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { diffLines, diffStats, DiffLine, toSideBySide } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+interface Props {
+  oldText: string;
+  newText: string;
+  mode: 'split' | 'inline';
+  oldLabel?: string;
+  newLabel?: string;
+}
+
+const lineClass = (line?: DiffLine) =>
+  cn(
+    'px-2 whitespace-pre-wrap break-words',
+    line?.type === 'delete' && 'bg-red-50 text-red-800',
+    line?.type === 'insert' && 'bg-green-50 text-green-800',
+    !line && 'bg-gray-50'
+  );
+
+const Gutter: React.FC<{ value?: number }> = ({ value }) => (
+  <td className="w-10 px-1 text-right text-gray-400 select-none align-top">{value ?? ''}</td>
+);
+
+/**
+ * Line diff between two texts, side by side or inline.
+ */
+export const DiffView: React.FC<Props> = ({
+  oldText,
+  newText,
+  mode,
+  oldLabel = 'Previous',
+  newLabel = 'Current',
+}) => {
+  const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const rows = useMemo(() => (mode === 'split' ? toSideBySide(lines) : []), [lines, mode]);
+  const stats = diffStats(lines);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-600">
+        <span className="text-green-700">+{stats.added}</span>{' '}
+        <span className="text-red-700">−{stats.removed}</span> lines
+        {stats.added + stats.removed === 0 && ' · no changes'}
+      </p>
+      <div className="border border-gray-200 rounded-lg overflow-auto">
+        <table className="w-full text-xs font-mono border-collapse">
+          {mode === 'split' ? (
+            <>
+              <thead className="bg-gray-50 text-gray-600 font-sans">
+                <tr>
+                  <th colSpan={2} className="px-2 py-1 text-left font-medium w-1/2">
+                    {oldLabel}
+                  </th>
+                  <th colSpan={2} className="px-2 py-1 text-left font-medium w-1/2 border-l border-gray-200">
+                    {newLabel}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => (
+                  <tr key={idx}>
+                    <Gutter value={row.left?.oldLine} />
+                    <td className={lineClass(row.left)}>{row.left?.text}</td>
+                    <Gutter value={row.right?.newLine} />
+                    <td className={cn(lineClass(row.right), 'border-l border-gray-200')}>
+                      {row.right?.text}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </>
+          ) : (
+            <tbody>
+              {lines.map((line, idx) => (
+                <tr key={idx}>
+                  <Gutter value={line.oldLine} />
+                  <Gutter value={line.newLine} />
+                  <td className={lineClass(line)}>
+                    <span className="select-none text-gray-400 mr-2">
+                      {line.type === 'insert' ? '+' : line.type === 'delete' ? '−' : ' '}
+                    </span>
+                    {line.text}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,379 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, RotateCcw, Save, Loader2, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { getDocumentVersions } from '@/lib/document-versions';
+import { submitDocumentText } from '@/lib/document-sync';
+import {
+  acknowledgeFindings,
+  isBlockingFinding,
+  scanForInjection,
+  stripFindings,
+} from '@/lib/prompt-guards';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  RedactionDecision,
+  applyRedactions,
+  defaultDecisions,
+  detectSensitiveData,
+  summarizeRedactions,
+} from '@/lib/redaction';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/store/app-store';
+import { DocumentInfo, DocumentVersion } from '@/types';
+import { DiffView } from './DiffView';
+import { InjectionReview } from './InjectionReview';
+import { RedactionReview } from './RedactionReview';
+
+interface Props {
+  document: DocumentInfo;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<DocumentVersion['source'], string> = {
+  upload: 'Uploaded',
+  edit: 'Edited',
+  rollback: 'Rolled back',
+};
+
+/**
+ * Edits a document's text and re-submits it with PUT /documents/{id}. The text comes from
+ * the local version history captured at ingest time, since the API cannot return it.
+ */
+export const DocumentEditor: React.FC<Props> = ({ document: doc, onClose }) => {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [restoredFrom, setRestoredFrom] = useState<number | null>(null);
+  const [view, setView] = useState<'edit' | 'diff'>('edit');
+  const [diffMode, setDiffMode] = useState<'split' | 'inline'>('split');
+  const [submitting, setSubmitting] = useState(false);
+  const [notice, setNotice] = useState<{ kind: 'info' | 'error'; text: string } | null>(null);
+  /** Draft the user chose to ingest despite flagged content; any edit asks again */
+  const [acknowledgedDraft, setAcknowledgedDraft] = useState<string | null>(null);
+  /** Redaction choices the user changed; everything else follows the workspace defaults */
+  const [redactionChoices, setRedactionChoices] = useState<Record<string, RedactionDecision>>({});
+  const updateDocument = useAppStore((state) => state.updateDocument);
+  const redactionSettings =
+    useAppStore((state) => state.redactionSettings[doc.tenantId]) ?? DEFAULT_REDACTION_SETTINGS;
+
+  useEffect(() => {
+    let cancelled = false;
+    void getDocumentVersions(doc.tenantId, doc.id).then((loaded) => {
+      if (cancelled) return;
+      const latest = loaded[loaded.length - 1];
+      setVersions(loaded);
+      setDraft(latest?.text ?? '');
+      setCompareTo(latest?.version ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [doc.tenantId, doc.id]);
+
+  const latest = versions?.[versions.length - 1];
+  const base = versions?.find((v) => v.version === compareTo) ?? latest;
+  const dirty = draft !== (latest?.text ?? '');
+  // Screened like uploads, so an edit cannot slip flagged instructions in
+  const findings = useMemo(() => scanForInjection(draft), [draft]);
+  const acknowledged = acknowledgedDraft === draft;
+  const blocked = !acknowledged && findings.some(isBlockingFinding);
+  // Personal data and credentials are masked before the edit is ingested, as on upload
+  const sensitive = useMemo(
+    () => detectSensitiveData(draft, redactionSettings),
+    [draft, redactionSettings]
+  );
+  const redactions = useMemo(
+    () => ({ ...defaultDecisions(sensitive, redactionSettings), ...redactionChoices }),
+    [sensitive, redactionSettings, redactionChoices]
+  );
+
+  const handleRestore = (version: DocumentVersion) => {
+    setDraft(version.text);
+    setRestoredFrom(version.version);
+    setCompareTo(latest?.version ?? null);
+    setView('diff');
+    setNotice({
+      kind: 'info',
+      text: `Loaded version ${version.version}. Review the diff, then submit to roll back.`,
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!draft.trim() || blocked) return;
+    setSubmitting(true);
+    setNotice(null);
+
+    const restored = versions?.find((v) => v.version === restoredFrom);
+    const isRollback = !!restored && restored.text === draft;
+
+    const summary = summarizeRedactions(sensitive, redactions);
+    const redacted = summary?.redacted.reduce((sum, r) => sum + r.count, 0) ?? 0;
+
+    try {
+      const entry = await submitDocumentText(
+        doc,
+        applyRedactions(draft, sensitive, redactions),
+        isRollback ? { source: 'rollback', restoredFrom: restored.version } : { source: 'edit' }
+      );
+      updateDocument(
+        doc.id,
+        {
+          injectionAcknowledgement: acknowledged ? acknowledgeFindings(findings) : undefined,
+          redaction: summary ?? undefined,
+        },
+        doc.tenantId
+      );
+      setVersions((prev) => [...(prev ?? []), entry]);
+      setDraft(entry.text);
+      setRedactionChoices({});
+      setCompareTo(entry.version);
+      setRestoredFrom(null);
+      setView('edit');
+      setNotice({
+        kind: 'info',
+        text:
+          `Submitted as version ${entry.version}. Re-ingesting...` +
+          (redacted > 0 ? ` ${redacted} sensitive value${redacted === 1 ? ' was' : 's were'} redacted.` : ''),
+      });
+    } catch (error) {
+      console.error('[Editor] Update failed:', doc.id, error);
+      setNotice({ kind: 'error', text: 'Update failed. Your edits are kept; please try again.' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (dirty && !confirm('Discard unsubmitted changes?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-6xl w-full h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center gap-3 px-6 py-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h2 className="text-xl font-semibold text-gray-900 truncate">Edit {doc.id}</h2>
+            <p className="text-xs text-gray-500 truncate">{doc.name}</p>
+          </div>
+          <div className="ml-auto flex items-center gap-1 text-sm">
+            {(['edit', 'diff'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setView(tab)}
+                disabled={!latest && tab === 'diff'}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg font-medium disabled:opacity-50',
+                  view === tab ? 'bg-primary-100 text-primary-700' : 'text-gray-600 hover:bg-gray-100'
+                )}
+              >
+                {tab === 'edit' ? 'Edit' : 'Diff'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Editor / diff */}
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-3">
+            {versions === null ? (
+              <div className="flex-1 flex items-center justify-center text-gray-500">
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                Loading document text...
+              </div>
+            ) : (
+              <>
+                {versions.length === 0 && (
+                  <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      No text was saved for this document in this browser. PDFs are extracted on
+                      the server, and documents ingested elsewhere have no local copy. Paste the
+                      full text below to replace the document.
+                    </span>
+                  </div>
+                )}
+
+                {view === 'edit' ? (
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    disabled={submitting}
+                    aria-label={`Text of ${doc.id}`}
+                    className="flex-1 w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none disabled:bg-gray-100"
+                  />
+                ) : (
+                  <div className="flex-1 overflow-y-auto space-y-2">
+                    <div className="flex items-center gap-3 text-sm">
+                      <label className="flex items-center gap-2 text-gray-600">
+                        Compare with
+                        <select
+                          value={compareTo ?? ''}
+                          onChange={(e) => setCompareTo(Number(e.target.value))}
+                          className="px-2 py-1 border border-gray-300 rounded-lg"
+                        >
+                          {[...versions].reverse().map((v) => (
+                            <option key={v.version} value={v.version}>
+                              Version {v.version}
+                              {v.version === latest?.version ? ' (latest)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <div className="ml-auto flex gap-1">
+                        {(['split', 'inline'] as const).map((mode) => (
+                          <button
+                            key={mode}
+                            onClick={() => setDiffMode(mode)}
+                            className={cn(
+                              'px-2 py-1 rounded text-xs font-medium',
+                              diffMode === mode
+                                ? 'bg-gray-200 text-gray-900'
+                                : 'text-gray-500 hover:bg-gray-100'
+                            )}
+                          >
+                            {mode === 'split' ? 'Side by side' : 'Inline'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <DiffView
+                      oldText={base?.text ?? ''}
+                      newText={draft}
+                      mode={diffMode}
+                      oldLabel={base ? `Version ${base.version}` : 'Empty'}
+                      newLabel="Draft"
+                    />
+                  </div>
+                )}
+
+                {dirty && (
+                  <InjectionReview
+                    text={draft}
+                    findings={findings}
+                    acknowledged={acknowledged}
+                    disabled={submitting}
+                    onStrip={() => setDraft(stripFindings(draft, findings.filter(isBlockingFinding)))}
+                    onAcknowledge={(ack) => setAcknowledgedDraft(ack ? draft : null)}
+                  />
+                )}
+
+                {dirty && (
+                  <RedactionReview
+                    findings={sensitive}
+                    decisions={redactions}
+                    onChange={setRedactionChoices}
+                    disabled={submitting}
+                  />
+                )}
+
+                {notice && (
+                  <div
+                    className={cn(
+                      'px-3 py-2 rounded-lg text-sm border',
+                      notice.kind === 'error'
+                        ? 'bg-red-50 border-red-200 text-red-700'
+                        : 'bg-gray-50 border-gray-200 text-gray-700'
+                    )}
+                  >
+                    {notice.text}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-500 mr-auto">
+                    {draft.length.toLocaleString()} chars
+                    {dirty ? ' · unsubmitted changes' : ''}
+                  </span>
+                  {dirty && latest && (
+                    <button
+                      onClick={() => {
+                        setDraft(latest.text);
+                        setRestoredFrom(null);
+                      }}
+                      disabled={submitting}
+                      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                    >
+                      Discard
+                    </button>
+                  )}
+                  <button
+                    onClick={() => void handleSubmit()}
+                    disabled={!dirty || !draft.trim() || blocked || submitting}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                  >
+                    {submitting ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4" />
+                    )}
+                    Submit Update
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Version history */}
+          <aside className="w-64 border-l border-gray-200 flex flex-col min-h-0">
+            <div className="flex items-center gap-2 px-4 py-3 text-sm font-medium text-gray-700 border-b border-gray-100">
+              <History className="w-4 h-4" />
+              History ({versions?.length ?? 0})
+            </div>
+            <ol className="flex-1 overflow-y-auto divide-y divide-gray-100">
+              {[...(versions ?? [])].reverse().map((v) => (
+                <li key={v.version} className="px-4 py-3 text-xs space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">Version {v.version}</span>
+                    {v.version === latest?.version && (
+                      <span className="px-1.5 py-0.5 bg-green-100 text-green-700 rounded">
+                        current
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-gray-500">
+                    {SOURCE_LABELS[v.source]}
+                    {v.restoredFrom !== undefined && ` from v${v.restoredFrom}`} ·{' '}
+                    {format(v.createdAt, 'MMM d, HH:mm')}
+                  </div>
+                  <div className="text-gray-400">
+                    {v.text.length.toLocaleString()} chars
+                    {v.fileName ? ` · ${v.fileName}` : ''}
+                  </div>
+                  {v.version !== latest?.version && (
+                    <div className="flex gap-3 pt-1">
+                      <button
+                        onClick={() => {
+                          setCompareTo(v.version);
+                          setView('diff');
+                        }}
+                        className="text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        Compare
+                      </button>
+                      <button
+                        onClick={() => handleRestore(v)}
+                        disabled={submitting}
+                        className="flex items-center gap-1 text-gray-600 hover:text-gray-900 font-medium"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Restore
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
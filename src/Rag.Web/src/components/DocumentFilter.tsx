@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Filter, Search, X, Check } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import { cn } from '@/lib/utils';
+import { DocumentInfo } from '@/types';
+
+/**
+ * Ready documents a conversation can search: the tenant's library plus the conversation's
+ * own attachments.
+ */
+const filterableDocuments = (documents: DocumentInfo[], tenantId: string, conversationId?: string) =>
+  documents.filter(
+    (doc) =>
+      doc.tenantId === tenantId &&
+      doc.status === 'ready' &&
+      (!doc.conversationId || doc.conversationId === conversationId)
+  );
+
+interface PickerProps {
+  tenantId: string;
+  conversationId?: string;
+  selected: string[];
+  onChange: (documentIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Composer button that opens a searchable checklist of documents to restrict retrieval to.
+ */
+export const DocumentFilterPicker: React.FC<PickerProps> = ({
+  tenantId,
+  conversationId,
+  selected,
+  onChange,
+  disabled,
+}) => {
+  const { documents } = useAppStore();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const candidates = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return filterableDocuments(documents, tenantId, conversationId)
+      .filter((doc) => !needle || doc.name.toLowerCase().includes(needle) || doc.id.toLowerCase().includes(needle))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [documents, tenantId, conversationId, query]);
+
+  // Close when clicking anywhere outside the popover
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex-shrink-0">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        disabled={disabled}
+        className={cn(
+          'relative p-2 rounded-lg transition-colors disabled:opacity-50',
+          selected.length > 0
+            ? 'text-primary-600 bg-primary-50 hover:bg-primary-100'
+            : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+        )}
+        title="Answer only from selected documents"
+      >
+        <Filter className="w-5 h-5" />
+        {selected.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-primary-600 text-white text-[10px] leading-4 text-center">
+            {selected.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg z-20">
+          <div className="p-2 border-b border-gray-100">
+            <div className="relative">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search documents..."
+                className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto py-1">
+            {candidates.length === 0 ? (
+              <p className="px-3 py-4 text-sm text-gray-500 text-center">
+                {query ? 'No matching documents' : 'No ready documents in this workspace'}
+              </p>
+            ) : (
+              candidates.map((doc) => {
+                const checked = selected.includes(doc.id);
+                return (
+                  <button
+                    key={doc.id}
+                    type="button"
+                    onClick={() => toggle(doc.id)}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-50"
+                  >
+                    <span
+                      className={cn(
+                        'flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center',
+                        checked ? 'bg-primary-600 border-primary-600 text-white' : 'border-gray-300'
+                      )}
+                    >
+                      {checked && <Check className="w-3 h-3" />}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate text-gray-900">{doc.name}</span>
+                      {doc.conversationId && <span className="block text-xs text-gray-500">Attachment</span>}
+                    </span>
+                  </button>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex items-center justify-between px-3 py-2 border-t border-gray-100 text-xs text-gray-600">
+            <span>{selected.length === 0 ? 'Searching all documents' : `${selected.length} selected`}</span>
+            {selected.length > 0 && (
+              <button type="button" onClick={() => onChange([])} className="text-primary-600 hover:underline">
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ChipsProps {
+  tenantId: string;
+  selected: string[];
+  onChange: (documentIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Removable chips for the documents retrieval is restricted to.
+ */
+export const DocumentFilterChips: React.FC<ChipsProps> = ({ tenantId, selected, onChange, disabled }) => {
+  const { documents } = useAppStore();
+
+  if (selected.length === 0) return null;
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-500">Answering only from:</span>
+      {selected.map((id) => {
+        // A deleted document stays selected until removed, so fall back to its ID
+        const doc = documents.find((d) => d.id === id && d.tenantId === tenantId);
+        return (
+          <span
+            key={id}
+            className={cn(
+              'inline-flex items-center gap-1 pl-2 pr-1 py-1 rounded-full text-xs border',
+              doc ? 'bg-primary-50 border-primary-200 text-primary-700' : 'bg-gray-50 border-gray-200 text-gray-500 line-through'
+            )}
+            title={doc ? id : `${id} no longer exists`}
+          >
+            <span className="max-w-[12rem] truncate">{doc?.name ?? id}</span>
+            <button
+              type="button"
+              onClick={() => onChange(selected.filter((s) => s !== id))}
+              disabled={disabled}
+              className="p-0.5 rounded-full text-gray-400 hover:text-gray-700 hover:bg-primary-100 disabled:opacity-50"
+              title="Remove from filter"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
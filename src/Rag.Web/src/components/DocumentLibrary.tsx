@@ -0,0 +1,560 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Search,
+  Trash2,
+  RefreshCw,
+  Upload,
+  FileText,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+  Pencil,
+  EyeOff,
+  SlidersHorizontal,
+  ShieldAlert,
+  X,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { ragService } from '@/services/rag-service';
+import { useAppStore } from '@/store/app-store';
+import { requestNotificationPermission } from '@/lib/notifications';
+import { createIngestJob } from '@/hooks/useIngestJobPoller';
+import { submitDocumentText } from '@/lib/document-sync';
+import { deleteDocumentVersions } from '@/lib/document-versions';
+import { deletePdfFile, savePdfFile } from '@/lib/pdf-files';
+import { extractPdfText } from '@/lib/pdf';
+import {
+  acknowledgeFindings,
+  isBlockingFinding,
+  scanForInjection,
+  summarizeFindings,
+} from '@/lib/prompt-guards';
+import { DEFAULT_REDACTION_SETTINGS, redactWithDefaults } from '@/lib/redaction';
+import { checkUploadLimits, sha256Hex } from '@/lib/upload-validation';
+import { useUploadLimits } from '@/hooks/useUploadLimits';
+import {
+  ExtractionError,
+  extractText,
+  getExtractorExtensions,
+  UnsupportedFileTypeError,
+} from '@/lib/extractors';
+import { cn } from '@/lib/utils';
+import { DocumentInfo } from '@/types';
+import { FileUpload } from './FileUpload';
+import { DocumentEditor } from './DocumentEditor';
+import { RedactionSettingsPanel } from './RedactionSettingsPanel';
+
+type SortKey = 'name' | 'uploadedAt' | 'status';
+
+const STATUS_STYLES: Record<DocumentInfo['status'], string> = {
+  uploading: 'bg-blue-100 text-blue-700',
+  processing: 'bg-amber-100 text-amber-700',
+  ready: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const STATUS_ORDER: DocumentInfo['status'][] = ['uploading', 'processing', 'ready', 'error'];
+
+/**
+ * Documents ingested into the current tenant. The list is kept locally, since the API has
+ * no list endpoint.
+ */
+export const DocumentLibrary: React.FC = () => {
+  const {
+    currentTenant,
+    documents,
+    updateDocument,
+    removeDocuments,
+    trackIngestJob,
+    redactionSettings,
+    libraryFocus,
+    showInLibrary,
+  } = useAppStore();
+  const uploadLimits = useUploadLimits();
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('uploadedAt');
+  const [sortAsc, setSortAsc] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+  const [notice, setNotice] = useState<{ kind: 'info' | 'error'; text: string } | null>(null);
+  const [showFileUpload, setShowFileUpload] = useState(false);
+  const [editing, setEditing] = useState<DocumentInfo | null>(null);
+  const [showRedactionSettings, setShowRedactionSettings] = useState(false);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const focusedRowRef = useRef<HTMLTableRowElement>(null);
+  const reingestTarget = useRef<DocumentInfo | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tenantId = currentTenant?.id;
+
+  // Selection belongs to the workspace it was made in
+  useEffect(() => {
+    setSelected(new Set());
+    setNotice(null);
+    setFocusedId(null);
+  }, [tenantId]);
+
+  // Conversation attachments are listed with their conversation until promoted
+  const tenantDocuments = useMemo(
+    () => documents.filter((doc) => doc.tenantId === tenantId && !doc.conversationId),
+    [documents, tenantId]
+  );
+
+  // Opened from a citation: clear the search so the document is visible and mark its row
+  useEffect(() => {
+    if (!libraryFocus) return;
+    if (tenantDocuments.some((doc) => doc.id === libraryFocus)) {
+      setQuery('');
+      setFocusedId(libraryFocus);
+    } else {
+      setNotice({
+        kind: 'info',
+        text: `"${libraryFocus}" is not in this workspace's library. It may be a conversation attachment or was uploaded from another browser.`,
+      });
+    }
+    showInLibrary(null);
+  }, [libraryFocus, tenantDocuments, showInLibrary]);
+
+  useEffect(() => {
+    focusedRowRef.current?.scrollIntoView({ block: 'center' });
+  }, [focusedId]);
+
+  const visibleDocuments = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = needle
+      ? tenantDocuments.filter(
+          (doc) =>
+            doc.id.toLowerCase().includes(needle) || doc.name.toLowerCase().includes(needle)
+        )
+      : tenantDocuments;
+
+    const compare = (a: DocumentInfo, b: DocumentInfo) => {
+      switch (sortKey) {
+        case 'name':
+          return a.name.localeCompare(b.name);
+        case 'status':
+          return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+        case 'uploadedAt':
+          return new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime();
+      }
+    };
+
+    return [...filtered].sort((a, b) => (sortAsc ? compare(a, b) : compare(b, a)));
+  }, [tenantDocuments, query, sortKey, sortAsc]);
+
+  const setBusyFor = (ids: string[], isBusy: boolean) => {
+    setBusy((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (isBusy ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'name');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allVisibleSelected =
+    visibleDocuments.length > 0 && visibleDocuments.every((doc) => selected.has(doc.id));
+
+  const toggleSelectAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visibleDocuments.map((doc) => doc.id)));
+  };
+
+  const deleteDocuments = async (ids: string[]) => {
+    if (!tenantId || ids.length === 0) return;
+    const label = ids.length === 1 ? `"${ids[0]}"` : `${ids.length} documents`;
+    if (!confirm(`Delete ${label}? This removes all of its chunks from the index.`)) return;
+
+    setBusyFor(ids, true);
+    const removed: string[] = [];
+    const failed: string[] = [];
+
+    for (const id of ids) {
+      try {
+        await ragService.deleteDocument(id);
+        removed.push(id);
+      } catch (error) {
+        console.error('[Documents] Delete failed:', id, error);
+        failed.push(id);
+      }
+    }
+
+    removeDocuments(removed, tenantId);
+    removed.forEach((id) => {
+      void deleteDocumentVersions(tenantId, id);
+      void deletePdfFile(tenantId, id);
+    });
+    setBusyFor(ids, false);
+    setSelected((prev) => new Set([...prev].filter((id) => !removed.includes(id))));
+
+    if (failed.length > 0) {
+      setNotice({ kind: 'error', text: `Could not delete: ${failed.join(', ')}` });
+    } else {
+      setNotice({
+        kind: 'info',
+        text: `Deleted ${removed.length} document${removed.length === 1 ? '' : 's'}.`,
+      });
+    }
+  };
+
+  // The upload dialog's injection gate; with no review step here, flagged text needs a confirmation
+  const screenForInjection = (fileName: string, text: string) => {
+    const findings = scanForInjection(text);
+    const blocking = findings.filter(isBlockingFinding);
+    if (blocking.length === 0) return { allowed: true, acknowledgement: undefined };
+    const labels = summarizeFindings(blocking).map((f) => `- ${f.label} (${f.count})`);
+    const allowed = confirm(
+      `${fileName} contains possible prompt injection:\n${labels.join('\n')}\n\nIngest it unchanged?`
+    );
+    return { allowed, acknowledgement: allowed ? acknowledgeFindings(findings) : undefined };
+  };
+
+  const startReingest = (doc: DocumentInfo) => {
+    reingestTarget.current = doc;
+    fileInputRef.current?.click();
+  };
+
+  const handleReingestFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const doc = reingestTarget.current;
+    e.target.value = '';
+    reingestTarget.current = null;
+    if (!file || !doc) return;
+
+    const limitProblem = checkUploadLimits(file, uploadLimits);
+    if (limitProblem) {
+      setNotice({ kind: 'error', text: `${file.name} cannot be uploaded: ${limitProblem}.` });
+      return;
+    }
+
+    setBusyFor([doc.id], true);
+    updateDocument(doc.id, { status: 'uploading', error: undefined }, doc.tenantId);
+    let redacted = 0;
+    const declined = () => {
+      updateDocument(doc.id, { status: doc.status, error: doc.error }, doc.tenantId);
+      setNotice({ kind: 'info', text: `Re-ingest of "${doc.id}" cancelled; the document is unchanged.` });
+    };
+
+    try {
+      if (file.name.toLowerCase().endsWith('.pdf')) {
+        // Unreadable PDFs are still sent, as in the upload dialog; the API may OCR them
+        const pdfText = await extractPdfText(file).catch((error) => {
+          console.warn('[Documents] Could not read PDF text for screening:', file.name, error);
+          return '';
+        });
+        const screening = screenForInjection(file.name, pdfText);
+        if (!screening.allowed) {
+          declined();
+          return;
+        }
+        updateDocument(doc.id, { injectionAcknowledgement: screening.acknowledgement }, doc.tenantId);
+
+        // The PDF endpoint only adds chunks, so clear the old version first
+        await ragService.deleteDocument(doc.id);
+        requestNotificationPermission();
+        const response = await ragService.uploadPdf(file, doc.id);
+        // The PDF's text is extracted on the server, so older local text no longer applies
+        void deleteDocumentVersions(doc.tenantId, doc.id);
+        updateDocument(
+          doc.id,
+          { name: file.name, status: 'processing', updatedAt: new Date(), jobId: response.jobId },
+          doc.tenantId
+        );
+        trackIngestJob(createIngestJob(response.jobId, doc.id, doc.tenantId, file.name));
+        const stored = await savePdfFile(doc.tenantId, doc.id, file);
+        updateDocument(doc.id, { hasLocalPdf: stored }, doc.tenantId);
+        if (!stored) void deletePdfFile(doc.tenantId, doc.id);
+      } else {
+        // No review step here, so the workspace's default redactions are applied as-is
+        const extracted = await extractText(file);
+        const { text, summary } = redactWithDefaults(
+          extracted.text,
+          redactionSettings[doc.tenantId] ?? DEFAULT_REDACTION_SETTINGS
+        );
+        const screening = screenForInjection(file.name, text);
+        if (!screening.allowed) {
+          declined();
+          return;
+        }
+        updateDocument(doc.id, { injectionAcknowledgement: screening.acknowledgement }, doc.tenantId);
+        await submitDocumentText(doc, text, { source: 'upload', fileName: file.name });
+        updateDocument(doc.id, { redaction: summary ?? undefined, hasLocalPdf: undefined }, doc.tenantId);
+        void deletePdfFile(doc.tenantId, doc.id);
+        redacted = summary?.redacted.reduce((sum, r) => sum + r.count, 0) ?? 0;
+      }
+      const contentHash = await sha256Hex(file).catch(() => undefined);
+      updateDocument(doc.id, { contentHash }, doc.tenantId);
+      setNotice({
+        kind: 'info',
+        text:
+          `Re-ingesting "${doc.id}" from ${file.name}.` +
+          (redacted > 0 ? ` ${redacted} sensitive value${redacted === 1 ? ' was' : 's were'} redacted.` : ''),
+      });
+    } catch (error) {
+      if (error instanceof UnsupportedFileTypeError || error instanceof ExtractionError) {
+        // Nothing was sent, so the document keeps its previous state
+        updateDocument(doc.id, { status: doc.status, error: doc.error }, doc.tenantId);
+        setNotice({ kind: 'error', text: error.message });
+        return;
+      }
+      console.error('[Documents] Re-ingest failed:', doc.id, error);
+      updateDocument(doc.id, { status: 'error', error: 'Re-ingest failed' }, doc.tenantId);
+      setNotice({ kind: 'error', text: `Re-ingest of "${doc.id}" failed. Please try again.` });
+    } finally {
+      setBusyFor([doc.id], false);
+    }
+  };
+
+  const sortHeader = (label: string, column: SortKey) => (
+    <button
+      onClick={() => toggleSort(column)}
+      className="inline-flex items-center gap-1 font-medium text-gray-600 hover:text-gray-900"
+    >
+      {label}
+      {sortKey === column &&
+        (sortAsc ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col h-screen">
+      {/* Toolbar */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-semibold text-gray-900">Documents</h2>
+          <span className="text-sm text-gray-500">
+            {tenantDocuments.length} in {currentTenant?.name ?? 'no workspace'}
+          </span>
+          <button
+            onClick={() => setShowRedactionSettings(true)}
+            disabled={!currentTenant}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            Redaction Rules
+          </button>
+          <button
+            onClick={() => setShowFileUpload(true)}
+            disabled={!currentTenant}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            <Upload className="w-4 h-4" />
+            Upload
+          </button>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by document ID or file name"
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <button
+            onClick={() => void deleteDocuments([...selected])}
+            disabled={selected.size === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete selected ({selected.size})
+          </button>
+        </div>
+        {notice && (
+          <div
+            className={cn(
+              'flex items-center gap-2 px-3 py-2 rounded-lg text-sm border',
+              notice.kind === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-gray-50 border-gray-200 text-gray-700'
+            )}
+          >
+            <span className="flex-1">{notice.text}</span>
+            <button onClick={() => setNotice(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Document table */}
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {tenantDocuments.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center text-gray-500 gap-2">
+            <FileText className="w-12 h-12 text-gray-300" />
+            <p>No documents uploaded to this workspace yet.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-4 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={toggleSelectAll}
+                    aria-label="Select all"
+                  />
+                </th>
+                <th className="px-4 py-2">
+                  {sortHeader('Document', 'name')}
+                </th>
+                <th className="px-4 py-2">
+                  {sortHeader('Status', 'status')}
+                </th>
+                <th className="px-4 py-2">
+                  {sortHeader('Uploaded', 'uploadedAt')}
+                </th>
+                <th className="px-4 py-2 w-24" />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleDocuments.map((doc) => {
+                const isBusy = busy.has(doc.id);
+                return (
+                  <tr
+                    key={doc.id}
+                    ref={doc.id === focusedId ? focusedRowRef : undefined}
+                    className={cn(
+                      'border-t border-gray-100',
+                      doc.id === focusedId ? 'bg-primary-50' : 'hover:bg-gray-50'
+                    )}
+                  >
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(doc.id)}
+                        onChange={() => toggleSelected(doc.id)}
+                        aria-label={`Select ${doc.id}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3 min-w-0">
+                      <div className="flex items-center gap-1 font-medium text-gray-900">
+                        <span className="truncate">{doc.id}</span>
+                        {doc.injectionAcknowledgement && (
+                          <span
+                            className="flex-shrink-0"
+                            title={`Ingested with flagged content (acknowledged ${format(
+                              new Date(doc.injectionAcknowledgement.acknowledgedAt),
+                              'MMM d, yyyy HH:mm'
+                            )}): ${doc.injectionAcknowledgement.findings
+                              .map((f) => `${f.label} ×${f.count}`)
+                              .join(', ')}`}
+                          >
+                            <ShieldAlert className="w-4 h-4 text-amber-500" />
+                          </span>
+                        )}
+                        {doc.redaction && doc.redaction.redacted.length > 0 && (
+                          <span
+                            className="flex-shrink-0"
+                            title={`Redacted before ingest: ${doc.redaction.redacted
+                              .map((r) => `${r.label} ×${r.count}`)
+                              .join(', ')}${doc.redaction.kept > 0 ? ` (${doc.redaction.kept} kept)` : ''}`}
+                          >
+                            <EyeOff className="w-4 h-4 text-blue-500" />
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{doc.name}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={cn(
+                          'inline-block px-2 py-0.5 rounded-full text-xs font-medium',
+                          STATUS_STYLES[doc.status]
+                        )}
+                        title={doc.error}
+                      >
+                        {doc.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {format(new Date(doc.uploadedAt), 'MMM d, yyyy HH:mm')}
+                      {doc.updatedAt && (
+                        <div className="text-xs text-gray-400">
+                          Re-ingested {format(new Date(doc.updatedAt), 'MMM d, HH:mm')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        {isBusy ? (
+                          <Loader2 className="w-4 h-4 text-primary-600 animate-spin" />
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => setEditing(doc)}
+                              className="p-1.5 text-gray-400 hover:text-primary-600 rounded hover:bg-gray-100"
+                              title="Edit text"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => startReingest(doc)}
+                              className="p-1.5 text-gray-400 hover:text-primary-600 rounded hover:bg-gray-100"
+                              title="Re-ingest from file"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => void deleteDocuments([doc.id])}
+                              className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-gray-100"
+                              title="Delete document"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {visibleDocuments.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    No documents match "{query}".
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={['.pdf', ...getExtractorExtensions()].join(',')}
+        className="hidden"
+        onChange={(e) => void handleReingestFile(e)}
+      />
+
+      {showFileUpload && <FileUpload onClose={() => setShowFileUpload(false)} />}
+      {editing && <DocumentEditor document={editing} onClose={() => setEditing(null)} />}
+      {showRedactionSettings && (
+        <RedactionSettingsPanel onClose={() => setShowRedactionSettings(false)} />
+      )}
+    </div>
+  );
+};
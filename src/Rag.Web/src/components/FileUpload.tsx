@@ -1,98 +1,453 @@
-import React, { useState, useCallback } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { X, Upload, File, Check, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  X,
+  Upload,
+  File,
+  Check,
+  AlertCircle,
+  FolderOpen,
+  Pause,
+  Play,
+  RotateCcw,
+  Loader2,
+  Eye,
+  EyeOff,
+} from 'lucide-react';
 import { ragService } from '@/services/rag-service';
 import { useAppStore } from '@/store/app-store';
-import { formatFileSize } from '@/lib/utils';
+import { cn, formatFileSize } from '@/lib/utils';
+import { isRequestCancelled } from '@/lib/api-client';
+import { requestNotificationPermission } from '@/lib/notifications';
+import { createIngestJob } from '@/hooks/useIngestJobPoller';
+import { UploadItem, UploadTask, useUploadQueue } from '@/hooks/useUploadQueue';
+import { addDocumentVersion } from '@/lib/document-versions';
+import { savePdfFile } from '@/lib/pdf-files';
+import { extractPdfText } from '@/lib/pdf';
+import {
+  InjectionFinding,
+  acknowledgeFindings,
+  isBlockingFinding,
+  scanForInjection,
+  stripFindings,
+} from '@/lib/prompt-guards';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  RedactionDecision,
+  SensitiveFinding,
+  applyRedactions,
+  defaultDecisions,
+  detectSensitiveData,
+  summarizeRedactions,
+} from '@/lib/redaction';
+import { attachmentIdPrefix } from '@/lib/conversation-attachments';
+import { checkUploadLimits, sha256Hex, uniqueDocumentId } from '@/lib/upload-validation';
+import { useUploadLimits } from '@/hooks/useUploadLimits';
+import { ChunkPreview } from './ChunkPreview';
+import { InjectionReview } from './InjectionReview';
+import { RedactionReview } from './RedactionReview';
+import {
+  ExtractionResult,
+  extractText,
+  getExtractor,
+  getExtractorAccept,
+  getExtractorExtensions,
+} from '@/lib/extractors';
 
 interface Props {
   onClose: () => void;
+  /** Attach the files to this conversation instead of adding them to the library */
+  conversationId?: string;
 }
 
-export const FileUpload: React.FC<Props> = ({ onClose }) => {
-  const { currentTenant, addDocument, updateDocument } = useAppStore();
-  const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [documentId, setDocumentId] = useState('');
-  const [status, setStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
-  const [errorMessage, setErrorMessage] = useState('');
-
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      setUploadedFile(file);
-      // Generate document ID from filename
-      const id = file.name.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9-_]/g, '-');
-      setDocumentId(id);
-      setStatus('idle');
-      setErrorMessage('');
-    }
-  }, []);
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 6;
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-      'text/plain': ['.txt'],
-    },
-    multiple: false,
-  });
+/**
+ * Document ID derived from the file name: extension dropped, unsafe characters replaced.
+ */
+const deriveDocumentId = (file: File) =>
+  file.name.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9-_]/g, '-');
+
+const isPdf = (file: File) => file.name.toLowerCase().endsWith('.pdf');
 
-  const handleUpload = async () => {
-    if (!uploadedFile || !documentId || !currentTenant) return;
+// PDFs are extracted by the API; everything else is turned into text in the browser
+const ACCEPT: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  ...getExtractorAccept(),
+};
+
+const SUPPORTED_LABEL = 'PDF, TXT, Markdown, HTML, CSV, TSV, JSON and DOCX';
+const CLIENT_EXTENSIONS = ['.pdf', ...getExtractorExtensions()];
+
+interface Extraction {
+  status: 'extracting' | 'ready' | 'error';
+  /**
+   * Extracted text, possibly edited by the user in the preview. For PDFs it is only
+   * screened; the API extracts the text it ingests from the file itself.
+   */
+  text: string;
+  result?: ExtractionResult;
+  error?: string;
+  edited?: boolean;
+  /** Prompt-injection screening of the current text */
+  findings?: InjectionFinding[];
+  /** User chose to ingest the flagged text unchanged */
+  acknowledged?: boolean;
+  /** Personal data and credentials in the current text, with the reviewer's choices */
+  sensitive?: SensitiveFinding[];
+  redactions?: Record<string, RedactionDecision>;
+}
 
-    setUploading(true);
-    setStatus('uploading');
-    setProgress(0);
+/**
+ * The text that is actually sent: extracted (or edited) text with accepted redactions applied.
+ */
+const outgoingText = (extraction: Extraction) =>
+  applyRedactions(extraction.text, extraction.sensitive ?? [], extraction.redactions ?? {});
 
-    // Add document to store
-    const docInfo = {
+interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+/** How the user chose to handle a clash with a document already in the workspace */
+interface Resolution {
+  /** Replace the existing document with this ID */
+  overwriteId?: string;
+  /** Upload even though this exact file is already ingested */
+  allowDuplicate?: boolean;
+}
+
+export const FileUpload: React.FC<Props> = ({ onClose, conversationId }) => {
+  const {
+    currentTenant,
+    addDocument,
+    updateDocument,
+    removeDocument,
+    trackIngestJob,
+    redactionSettings,
+    documents,
+    findDocumentByHash,
+  } = useAppStore();
+  const limits = useUploadLimits();
+  const idPrefix = conversationId ? attachmentIdPrefix(conversationId) : '';
+  const settings =
+    (currentTenant && redactionSettings[currentTenant.id]) || DEFAULT_REDACTION_SETTINGS;
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const [extractions, setExtractions] = useState<Record<string, Extraction>>({});
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [previewTab, setPreviewTab] = useState<'text' | 'chunks'>('text');
+  /** Content hash per queue item; empty when hashing is unavailable */
+  const [hashes, setHashes] = useState<Record<string, string>>({});
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const extractionsRef = useRef(extractions);
+  extractionsRef.current = extractions;
+  const hashesRef = useRef(hashes);
+  hashesRef.current = hashes;
+  // Records this dialog created are not collisions when an item is retried
+  const createdIds = useRef(new Set<string>());
+
+  const setExtraction = (key: string, update: Partial<Extraction>) =>
+    setExtractions((prev) => ({ ...prev, [key]: { ...prev[key], ...update } }));
+
+  // Any change to the text is screened again, which resets the acknowledgement and the
+  // redaction choices
+  const setExtractedText = (key: string, text: string, update: Partial<Extraction> = {}) => {
+    const sensitive = detectSensitiveData(text, settings);
+    setExtraction(key, {
+      ...update,
+      text,
+      findings: scanForInjection(text),
+      acknowledged: false,
+      sensitive,
+      redactions: defaultDecisions(sensitive, settings),
+    });
+  };
+
+  const uploadItem: UploadTask = async (item, signal, onProgress) => {
+    if (!currentTenant) throw new Error('No workspace selected');
+    const { file, documentId } = item;
+    const tenantId = currentTenant.id;
+    const extraction = extractionsRef.current[item.key];
+
+    createdIds.current.add(documentId);
+    addDocument({
       id: documentId,
-      name: uploadedFile.name,
+      name: file.name,
+      contentHash: hashesRef.current[item.key] || undefined,
+      conversationId,
       uploadedAt: new Date(),
-      status: 'uploading' as const,
-      tenantId: currentTenant.id,
-    };
-    addDocument(docInfo);
+      status: 'uploading',
+      tenantId,
+      injectionAcknowledgement: extraction?.acknowledged
+        ? acknowledgeFindings(extraction.findings ?? [])
+        : undefined,
+      redaction: extraction && !isPdf(file)
+        ? summarizeRedactions(extraction.sensitive ?? [], extraction.redactions ?? {}) ?? undefined
+        : undefined,
+    });
 
     try {
-      if (uploadedFile.name.endsWith('.pdf')) {
-        // Upload PDF
-        await ragService.uploadPdf(uploadedFile, documentId, (prog) => {
-          setProgress(prog);
-        });
-        updateDocument(documentId, { status: 'processing' });
+      if (isPdf(file)) {
+        // Ingestion continues as a background job on the server
+        const response = await ragService.uploadPdf(file, documentId, onProgress, signal);
+        updateDocument(documentId, { status: 'processing', jobId: response.jobId }, tenantId);
+        trackIngestJob(createIngestJob(response.jobId, documentId, tenantId, file.name));
+        // Keep the file so citations can open it on the cited page
+        if (await savePdfFile(tenantId, documentId, file)) {
+          updateDocument(documentId, { hasLocalPdf: true }, tenantId);
+        }
       } else {
-        // Upload text file
-        const text = await uploadedFile.text();
-        await ragService.ingestText({ documentId, text });
-        updateDocument(documentId, { status: 'ready' });
+        const text = extraction ? outgoingText(extraction) : '';
+        const response = await ragService.ingestText({ documentId, text }, signal);
+        updateDocument(
+          documentId,
+          { status: 'ready', chunksCreated: response.chunksCreated },
+          tenantId
+        );
+        // Keep the ingested text so the document can be edited later
+        await addDocumentVersion(tenantId, documentId, {
+          text,
+          source: 'upload',
+          fileName: file.name,
+        });
       }
-
-      setStatus('success');
-      setProgress(100);
-      setTimeout(() => {
-        onClose();
-      }, 2000);
     } catch (error) {
-      console.error('Upload error:', error);
-      setStatus('error');
-      setErrorMessage('Upload failed. Please try again.');
-      updateDocument(documentId, { status: 'error' });
-    } finally {
-      setUploading(false);
+      if (isRequestCancelled(error)) {
+        // Nothing was ingested, so the placeholder record goes away
+        removeDocument(documentId, tenantId);
+        throw error;
+      }
+      updateDocument(documentId, { status: 'error', error: 'Upload failed' }, tenantId);
+      throw new Error('Upload failed');
+    }
+  };
+
+  const queue = useUploadQueue(uploadItem, concurrency);
+  const { items, phase, summary, busy } = queue;
+  // The batch cannot be changed once uploading has started, including while it is paused
+  const locked = busy || phase !== 'idle';
+
+  // Browsers only expose folder picking through this non-standard attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // A single file closes the dialog on success, as before; batches stay open for the summary
+  const finished = phase === 'idle' && summary.total > 0 && summary.pending === 0 && !busy;
+  const singleSuccess = finished && summary.total === 1 && summary.succeeded === 1;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  useEffect(() => {
+    if (!singleSuccess) return;
+    const timer = setTimeout(() => onCloseRef.current(), 2000);
+    return () => clearTimeout(timer);
+  }, [singleSuccess]);
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      const reasons = new Map<File, string>();
+      for (const file of files) {
+        const reason =
+          isPdf(file) || getExtractor(file)
+            ? checkUploadLimits(file, limits)
+            : 'unsupported file type';
+        if (reason) reasons.set(file, reason);
+      }
+      if (reasons.size > 0) {
+        setRejected((prev) => [
+          ...prev,
+          ...[...reasons].map(([file, reason]) => ({ name: file.name, reason })),
+        ]);
+      }
+
+      const added = queue.addFiles(
+        files.filter((file) => !reasons.has(file)),
+        (file) => idPrefix + deriveDocumentId(file)
+      );
+      for (const item of added) {
+        sha256Hex(item.file)
+          .then((hash) => setHashes((prev) => ({ ...prev, [item.key]: hash })))
+          .catch((err) => {
+            // crypto.subtle only exists in secure contexts; skip duplicate detection there
+            console.warn('[Upload] Could not hash file:', item.file.name, err);
+            setHashes((prev) => ({ ...prev, [item.key]: '' }));
+          });
+      }
+      for (const item of added.filter((item) => isPdf(item.file))) {
+        setExtraction(item.key, { status: 'extracting', text: '' });
+        extractPdfText(item.file)
+          .then((text) =>
+            setExtraction(item.key, {
+              status: 'ready',
+              text,
+              findings: scanForInjection(text),
+              acknowledged: false,
+            })
+          )
+          .catch((err) => {
+            console.warn('[Upload] Could not read PDF text for screening:', item.file.name, err);
+            setExtraction(item.key, {
+              status: 'error',
+              error: err instanceof Error ? err.message : 'Could not read PDF',
+            });
+          });
+      }
+      for (const item of added.filter((item) => !isPdf(item.file))) {
+        setExtraction(item.key, { status: 'extracting', text: '' });
+        extractText(item.file)
+          .then((result) => setExtractedText(item.key, result.text, { status: 'ready', result }))
+          .catch((err) => {
+            console.error('[Upload] Extraction failed:', item.file.name, err);
+            setExtraction(item.key, {
+              status: 'error',
+              error: err instanceof Error ? err.message : 'Could not read file',
+            });
+          });
+      }
+    },
+    [queue.addFiles, limits, idPrefix]
+  );
+
+  // Dropped folders are expanded into their files by react-dropzone
+  const onDrop = useCallback((acceptedFiles: File[]) => addFiles(acceptedFiles), [addFiles]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    onDropRejected: (rejections) =>
+      setRejected((prev) => [
+        ...prev,
+        ...rejections.map(({ file, errors }) => ({
+          name: file.name,
+          reason:
+            errors[0]?.code === 'file-invalid-type'
+              ? 'unsupported file type'
+              : errors[0]?.message ?? 'rejected',
+        })),
+      ]),
+    accept: ACCEPT,
+    multiple: true,
+    disabled: locked,
+  });
+
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  // Document IDs must be set and unique within the batch
+  const idCounts = new Map<string, number>();
+  items.forEach((item) => idCounts.set(item.documentId, (idCounts.get(item.documentId) ?? 0) + 1));
+  const idProblem = (item: UploadItem) => {
+    if (!item.documentId.trim()) return 'Document ID is required';
+    if (idPrefix && (!item.documentId.startsWith(idPrefix) || item.documentId === idPrefix)) {
+      return `Attachment IDs must start with ${idPrefix}`;
+    }
+    if ((idCounts.get(item.documentId) ?? 0) > 1) return 'Duplicate document ID in this batch';
+    return null;
+  };
+
+  const tenantDocuments = documents.filter((doc) => doc.tenantId === currentTenant?.id);
+  const takenIds = new Set([
+    ...tenantDocuments.map((doc) => doc.id),
+    ...items.map((item) => item.documentId),
+  ]);
+  // An existing document with the same ID would be silently replaced
+  const collisionWith = (item: UploadItem) => {
+    if (createdIds.current.has(item.documentId)) return undefined;
+    if (resolutions[item.key]?.overwriteId === item.documentId) return undefined;
+    return tenantDocuments.find((doc) => doc.id === item.documentId);
+  };
+  // The same bytes already ingested in this workspace, or queued earlier in this batch
+  const duplicateOf = (item: UploadItem): string | undefined => {
+    const hash = hashes[item.key];
+    if (!hash || resolutions[item.key]?.allowDuplicate) return undefined;
+    const existing = findDocumentByHash(hash, currentTenant?.id);
+    if (existing && !createdIds.current.has(existing.id)) return `"${existing.id}" in this workspace`;
+    const earlier = items.slice(0, items.indexOf(item)).find((other) => hashes[other.key] === hash);
+    return earlier ? `${earlier.file.name} in this batch` : undefined;
+  };
+  const resolve = (key: string, update: Resolution) =>
+    setResolutions((prev) => ({ ...prev, [key]: { ...prev[key], ...update } }));
+  const renameItem = (item: UploadItem) => {
+    takenIds.delete(item.documentId);
+    queue.updateItem(item.key, {
+      documentId: uniqueDocumentId(item.documentId, new Set([...takenIds, item.documentId])),
+    });
+  };
+  const conflictProblem = (item: UploadItem) => {
+    if (hashes[item.key] === undefined) return 'Checking for duplicates...';
+    if (collisionWith(item) || duplicateOf(item)) return 'Resolve the conflict first';
+    return null;
+  };
+  // Files can only be uploaded once their text has been extracted and screened
+  const extractionProblem = (item: UploadItem) => {
+    const extraction = extractions[item.key];
+    if (isPdf(item.file)) {
+      if (!extraction || extraction.status === 'extracting') return 'Screening PDF text...';
+      // The API reads PDFs on its own (with OCR), so one pdf.js cannot read is still uploaded
+      if (extraction.status === 'error') return null;
+    } else {
+      if (!extraction || extraction.status === 'extracting') return 'Extracting text...';
+      if (extraction.status === 'error') return extraction.error ?? 'Could not read file';
+      if (!extraction.text.trim()) return 'No text to upload';
+    }
+    if (!extraction.acknowledged && extraction.findings?.some(isBlockingFinding)) {
+      return 'Strip or acknowledge the flagged content first';
     }
+    return null;
+  };
+  const itemProblem = (item: UploadItem) =>
+    idProblem(item) || extractionProblem(item) || conflictProblem(item);
+  const hasInvalidPending = items.some((item) => item.status === 'pending' && itemProblem(item));
+  // Retried items go back to pending, so they have to pass the same checks
+  const hasInvalidRetry = items.some(
+    (item) => (item.status === 'error' || item.status === 'cancelled') && itemProblem(item)
+  );
+
+  const handleStart = () => {
+    if (hasInvalidPending) return;
+    if (items.some((item) => item.file.name.toLowerCase().endsWith('.pdf'))) {
+      requestNotificationPermission();
+    }
+    queue.start();
+  };
+
+  const handleResume = () => {
+    if (hasInvalidPending) return;
+    queue.resume();
+  };
+
+  const handleRetryFailed = () => {
+    if (hasInvalidPending || hasInvalidRetry) return;
+    queue.retryFailed();
+  };
+
+  const handleClose = () => {
+    if (busy && !confirm('Uploads are still running. Cancel them and close?')) return;
+    onClose();
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-2xl shadow-xl max-w-xl w-full">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Upload Document</h2>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {conversationId ? 'Attach to Conversation' : 'Upload Documents'}
+            </h2>
+            {conversationId && (
+              <p className="text-xs text-gray-500">
+                Attachments are deleted with the conversation unless you keep them in the library
+              </p>
+            )}
+          </div>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
           >
             <X className="w-5 h-5" />
@@ -100,111 +455,405 @@ export const FileUpload: React.FC<Props> = ({ onClose }) => {
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 overflow-y-auto">
           {/* Dropzone */}
-          {!uploadedFile ? (
+          {!locked && (
             <div
               {...getRootProps()}
-              className={`
-                border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-colors
-                ${isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-gray-400'}
-              `}
+              className={cn(
+                'border-2 border-dashed rounded-xl text-center cursor-pointer transition-colors',
+                items.length > 0 ? 'p-4' : 'p-8',
+                isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-gray-400'
+              )}
             >
               <input {...getInputProps()} />
-              <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              {items.length === 0 && <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />}
               {isDragActive ? (
-                <p className="text-primary-600 font-medium">Drop the file here...</p>
+                <p className="text-primary-600 font-medium">Drop the files here...</p>
               ) : (
                 <>
                   <p className="text-gray-700 font-medium mb-2">
-                    Drag & drop a file here, or click to select
+                    {items.length > 0
+                      ? 'Drop more files or folders here'
+                      : 'Drag & drop files or folders here, or click to select'}
                   </p>
                   <p className="text-sm text-gray-500">
-                    Supports PDF and TXT files (max 10MB)
+                    Supports{' '}
+                    {CLIENT_EXTENSIONS.every((ext) => limits.allowedExtensions.includes(ext))
+                      ? SUPPORTED_LABEL
+                      : CLIENT_EXTENSIONS.filter((ext) => limits.allowedExtensions.includes(ext)).join(', ')}{' '}
+                    files (max {formatFileSize(limits.maxFileBytes)})
                   </p>
                 </>
               )}
             </div>
-          ) : (
-            <>
-              {/* Selected file */}
-              <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
-                <File className="w-8 h-8 text-primary-600" />
-                <div className="flex-1 min-w-0">
-                  <p className="font-medium text-gray-900 truncate">{uploadedFile.name}</p>
-                  <p className="text-sm text-gray-500">{formatFileSize(uploadedFile.size)}</p>
-                </div>
-                {!uploading && status !== 'success' && (
-                  <button
-                    onClick={() => {
-                      setUploadedFile(null);
-                      setDocumentId('');
-                      setStatus('idle');
-                    }}
-                    className="p-1 text-gray-400 hover:text-gray-600"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
-                )}
-              </div>
-
-              {/* Document ID */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Document ID
-                </label>
-                <input
-                  type="text"
-                  value={documentId}
-                  onChange={(e) => setDocumentId(e.target.value)}
-                  placeholder="my-document-001"
-                  disabled={uploading || status === 'success'}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
-                />
-              </div>
-
-              {/* Progress bar */}
-              {uploading && (
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm text-gray-600">
-                    <span>Uploading...</span>
-                    <span>{progress}%</span>
-                  </div>
-                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
-                    <div
-                      className="h-full bg-primary-600 transition-all duration-300"
-                      style={{ width: `${progress}%` }}
-                    />
-                  </div>
-                </div>
-              )}
+          )}
 
-              {/* Status messages */}
-              {status === 'success' && (
-                <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-green-800">
-                  <Check className="w-5 h-5" />
-                  <span className="text-sm font-medium">Upload successful!</span>
-                </div>
+          {!locked && (
+            <div className="flex items-center justify-between text-sm">
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                className="flex items-center gap-2 text-primary-600 hover:text-primary-700 font-medium"
+              >
+                <FolderOpen className="w-4 h-4" />
+                Select a folder
+              </button>
+              {rejected.length > 0 && (
+                <button
+                  onClick={() => setRejected([])}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  Clear rejected
+                </button>
               )}
+            </div>
+          )}
 
-              {status === 'error' && (
-                <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-800">
-                  <AlertCircle className="w-5 h-5" />
-                  <span className="text-sm font-medium">{errorMessage}</span>
-                </div>
+          {rejected.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <p className="font-medium mb-1">
+                {rejected.length} file{rejected.length === 1 ? ' was' : 's were'} not added.
+              </p>
+              <ul className="text-xs space-y-0.5 max-h-24 overflow-y-auto">
+                {rejected.map((file, idx) => (
+                  <li key={idx}>
+                    {file.name}: {file.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFolderSelect}
+          />
+
+          {/* Queue */}
+          {items.length > 0 && (
+            <ul className="space-y-2">
+              {items.map((item) => {
+                // Failed and cancelled items are checked too, since Retry Failed queues them again
+                const queued =
+                  item.status === 'pending' || item.status === 'error' || item.status === 'cancelled';
+                const problem = queued ? idProblem(item) : null;
+                const collision = queued && !problem ? collisionWith(item) : undefined;
+                const duplicate = queued ? duplicateOf(item) : undefined;
+                const extraction = extractions[item.key];
+                const editable = !locked && queued;
+                const pdf = isPdf(item.file);
+                const previewing = !pdf && previewKey === item.key && extraction?.status === 'ready';
+                return (
+                  <li key={item.key} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <File className="w-6 h-6 text-primary-600 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {item.file.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {extraction?.result ? `${extraction.result.format} · ` : ''}
+                          {formatFileSize(item.file.size)}
+                          {!pdf && extraction?.status === 'ready' &&
+                            ` → ${extraction.text.length.toLocaleString()} chars`}
+                          {extraction?.edited && ' (edited)'}
+                        </p>
+                      </div>
+                      {extraction?.status === 'extracting' && (
+                        <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+                      )}
+                      {!pdf && extraction?.status === 'ready' && (
+                        <button
+                          onClick={() => setPreviewKey(previewing ? null : item.key)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title={previewing ? 'Hide extracted text' : 'Preview and edit extracted text'}
+                        >
+                          {previewing ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </button>
+                      )}
+                      <input
+                        type="text"
+                        value={item.documentId}
+                        onChange={(e) => queue.updateItem(item.key, { documentId: e.target.value })}
+                        placeholder="my-document-001"
+                        disabled={!editable}
+                        aria-label={`Document ID for ${item.file.name}`}
+                        className={cn(
+                          'w-48 px-3 py-1.5 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100',
+                          problem ? 'border-red-400' : 'border-gray-300'
+                        )}
+                      />
+                      <div className="w-6 flex justify-center">
+                        {item.status === 'uploading' && (
+                          <Loader2 className="w-4 h-4 text-primary-600 animate-spin" />
+                        )}
+                        {item.status === 'success' && <Check className="w-4 h-4 text-green-600" />}
+                        {item.status === 'error' && (
+                          <AlertCircle className="w-4 h-4 text-red-600" />
+                        )}
+                        {(item.status === 'pending' || item.status === 'cancelled') && !locked && (
+                          <button
+                            onClick={() => queue.removeItem(item.key)}
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                            title="Remove from batch"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {item.status === 'uploading' && (
+                      <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary-600 transition-all duration-300"
+                          style={{ width: `${item.progress}%` }}
+                        />
+                      </div>
+                    )}
+                    {previewing && extraction && (
+                      <div className="mt-2 space-y-1">
+                        {extraction.result?.warnings.map((warning) => (
+                          <p key={warning} className="text-xs text-amber-700">
+                            {warning}
+                          </p>
+                        ))}
+                        <div className="flex gap-1 text-xs">
+                          {(['text', 'chunks'] as const).map((tab) => (
+                            <button
+                              key={tab}
+                              onClick={() => setPreviewTab(tab)}
+                              className={cn(
+                                'px-2 py-1 rounded font-medium',
+                                previewTab === tab
+                                  ? 'bg-primary-100 text-primary-700'
+                                  : 'text-gray-500 hover:bg-gray-100'
+                              )}
+                            >
+                              {tab === 'text' ? 'Text' : 'Chunks'}
+                            </button>
+                          ))}
+                        </div>
+                        {previewTab === 'text' ? (
+                          <textarea
+                            value={extraction.text}
+                            onChange={(e) =>
+                              setExtractedText(item.key, e.target.value, { edited: true })
+                            }
+                            disabled={!editable}
+                            rows={10}
+                            aria-label={`Extracted text for ${item.file.name}`}
+                            className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+                          />
+                        ) : (
+                          <ChunkPreview text={outgoingText(extraction)} />
+                        )}
+                      </div>
+                    )}
+                    {extraction?.status === 'ready' && item.status !== 'success' && (
+                      <InjectionReview
+                        text={extraction.text}
+                        findings={extraction.findings ?? []}
+                        acknowledged={!!extraction.acknowledged}
+                        disabled={!editable}
+                        onStrip={
+                          pdf
+                            ? undefined
+                            : () =>
+                                setExtractedText(
+                                  item.key,
+                                  stripFindings(
+                                    extraction.text,
+                                    (extraction.findings ?? []).filter(isBlockingFinding)
+                                  ),
+                                  { edited: true }
+                                )
+                        }
+                        onAcknowledge={(acknowledged) =>
+                          setExtraction(item.key, { acknowledged })
+                        }
+                        onRemove={() => queue.removeItem(item.key)}
+                      />
+                    )}
+                    {!pdf && extraction?.status === 'ready' && item.status !== 'success' && (
+                      <RedactionReview
+                        findings={extraction.sensitive ?? []}
+                        decisions={extraction.redactions ?? {}}
+                        onChange={(redactions) => setExtraction(item.key, { redactions })}
+                        disabled={!editable}
+                      />
+                    )}
+                    {pdf && item.status === 'pending' && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {extraction?.status === 'error'
+                          ? 'The PDF text could not be read here, so it was not screened for prompt injection.'
+                          : 'PDF text is extracted by the server: flagged content cannot be stripped, and sensitive data is not redacted.'}
+                      </p>
+                    )}
+                    {problem && <p className="mt-1 text-xs text-red-600">{problem}</p>}
+                    {collision && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                        <span className="flex-1">
+                          "{collision.id}" already exists ({collision.name}, uploaded{' '}
+                          {format(new Date(collision.uploadedAt), 'MMM d, yyyy')}).
+                        </span>
+                        <button
+                          onClick={() => resolve(item.key, { overwriteId: item.documentId })}
+                          disabled={locked}
+                          className="font-medium underline"
+                        >
+                          Overwrite
+                        </button>
+                        <button
+                          onClick={() => renameItem(item)}
+                          disabled={locked}
+                          className="font-medium underline"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={() => queue.removeItem(item.key)}
+                          disabled={locked}
+                          className="font-medium underline"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                    {duplicate && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                        <span className="flex-1">Identical to {duplicate}.</span>
+                        <button
+                          onClick={() => resolve(item.key, { allowDuplicate: true })}
+                          disabled={locked}
+                          className="font-medium underline"
+                        >
+                          Upload anyway
+                        </button>
+                        <button
+                          onClick={() => queue.removeItem(item.key)}
+                          disabled={locked}
+                          className="font-medium underline"
+                        >
+                          Skip
+                        </button>
+                      </div>
+                    )}
+                    {item.status === 'pending' && extraction?.status === 'error' && (
+                      <p className="mt-1 text-xs text-red-600">{extraction.error}</p>
+                    )}
+                    {!previewing && extraction?.result?.warnings.length ? (
+                      <p className="mt-1 text-xs text-amber-700">
+                        {extraction.result.warnings.join('. ')}
+                      </p>
+                    ) : null}
+                    {item.status === 'error' && (
+                      <p className="mt-1 text-xs text-red-600">{item.error}</p>
+                    )}
+                    {item.status === 'cancelled' && (
+                      <p className="mt-1 text-xs text-gray-500">Cancelled</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Summary */}
+          {finished && (
+            <div
+              className={cn(
+                'flex items-center gap-2 p-3 border rounded-lg text-sm font-medium',
+                summary.failed > 0
+                  ? 'bg-red-50 border-red-200 text-red-800'
+                  : 'bg-green-50 border-green-200 text-green-800'
               )}
+            >
+              {summary.failed > 0 ? <AlertCircle className="w-5 h-5" /> : <Check className="w-5 h-5" />}
+              <span>
+                {summary.succeeded} of {summary.total} uploaded
+                {summary.failed > 0 && `, ${summary.failed} failed`}
+                {summary.cancelled > 0 && `, ${summary.cancelled} cancelled`}
+                {summary.succeeded > 0 && '. PDFs keep processing in the background.'}
+              </span>
+            </div>
+          )}
 
-              {/* Upload button */}
-              {status !== 'success' && (
+          {/* Controls */}
+          {items.length > 0 && (
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-sm text-gray-600 mr-auto">
+                Parallel uploads
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                >
+                  {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {phase === 'running' && (
+                <button
+                  onClick={queue.pause}
+                  className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                >
+                  <Pause className="w-4 h-4" />
+                  Pause
+                </button>
+              )}
+              {phase === 'paused' && (
+                <button
+                  onClick={handleResume}
+                  disabled={hasInvalidPending}
+                  className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  <Play className="w-4 h-4" />
+                  Resume
+                </button>
+              )}
+              {(busy || phase === 'paused') && (
                 <button
-                  onClick={handleUpload}
-                  disabled={!documentId || uploading || !currentTenant}
-                  className="w-full px-4 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+                  onClick={queue.cancelAll}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
                 >
-                  {uploading ? 'Uploading...' : 'Upload Document'}
+                  Cancel All
                 </button>
               )}
-            </>
+              {!busy && phase === 'idle' && summary.failed + summary.cancelled > 0 && (
+                <button
+                  onClick={handleRetryFailed}
+                  disabled={hasInvalidPending || hasInvalidRetry || !currentTenant}
+                  className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Retry Failed
+                </button>
+              )}
+              {!busy && phase === 'idle' && summary.pending > 0 && (
+                <button
+                  onClick={handleStart}
+                  disabled={hasInvalidPending || !currentTenant}
+                  className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  Upload {summary.pending} Document{summary.pending === 1 ? '' : 's'}
+                </button>
+              )}
+              {finished && summary.pending === 0 && (
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 font-medium"
+                >
+                  Close
+                </button>
+              )}
+            </div>
           )}
 
           {!currentTenant && (
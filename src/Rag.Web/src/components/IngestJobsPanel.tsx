@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, Check, AlertCircle, X, Layers } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import { isJobActive } from '@/hooks/useIngestJobPoller';
+import { cn, formatDuration } from '@/lib/utils';
+
+/**
+ * Floating panel with the ingestion jobs of the current tenant. Stays visible across
+ * views so uploads can be followed after the upload dialog closes.
+ */
+export const IngestJobsPanel: React.FC = () => {
+  const { currentTenant, ingestJobs, dismissIngestJob, clearFinishedIngestJobs } = useAppStore();
+  const [collapsed, setCollapsed] = useState(false);
+
+  const jobs = ingestJobs.filter((job) => job.tenantId === currentTenant?.id);
+  if (!currentTenant || jobs.length === 0) return null;
+
+  const active = jobs.filter(isJobActive).length;
+  const failed = jobs.filter((job) => job.state === 'failed').length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 bg-white border border-gray-200 rounded-xl shadow-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+        <Layers className="w-4 h-4 text-primary-600" />
+        <span className="text-sm font-medium text-gray-900">Ingestion jobs</span>
+        <span className="text-xs text-gray-500">
+          {active > 0 ? `${active} running` : 'all finished'}
+          {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+        </span>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="ml-auto p-1 text-gray-400 hover:text-gray-600"
+          title={collapsed ? 'Expand' : 'Collapse'}
+        >
+          {collapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <>
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+            {jobs.map((job) => (
+              <li key={job.jobId} className="px-4 py-3 text-sm">
+                <div className="flex items-center gap-2">
+                  {isJobActive(job) && (
+                    <Loader2 className="w-4 h-4 text-primary-600 animate-spin flex-shrink-0" />
+                  )}
+                  {job.state === 'succeeded' && (
+                    <Check className="w-4 h-4 text-green-600 flex-shrink-0" />
+                  )}
+                  {job.state === 'failed' && (
+                    <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  )}
+                  {job.state === 'unavailable' && (
+                    <AlertCircle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                  )}
+                  <span className="font-medium text-gray-900 truncate" title={job.fileName}>
+                    {job.documentId}
+                  </span>
+                  {job.usedOcr && (
+                    <span className="px-1.5 py-0.5 text-xs bg-purple-100 text-purple-700 rounded">
+                      OCR
+                    </span>
+                  )}
+                  {!isJobActive(job) && (
+                    <button
+                      onClick={() => dismissIngestJob(job.jobId)}
+                      className="ml-auto p-0.5 text-gray-400 hover:text-gray-600"
+                      title="Dismiss"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+
+                {isJobActive(job) && (
+                  <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary-600 transition-all duration-300"
+                      style={{ width: `${job.progress}%` }}
+                    />
+                  </div>
+                )}
+
+                <div
+                  className={cn(
+                    'mt-1 text-xs',
+                    job.state === 'failed' ? 'text-red-600' : 'text-gray-500'
+                  )}
+                >
+                  {job.state === 'queued' && 'Queued'}
+                  {job.state === 'processing' &&
+                    (job.totalPages
+                      ? `Page ${job.pagesProcessed ?? 0} of ${job.totalPages}`
+                      : `${job.progress}%`)}
+                  {job.state === 'succeeded' &&
+                    `${job.chunksCreated ?? 0} chunks` +
+                      (job.completedAt
+                        ? ` in ${formatDuration(job.completedAt - job.startedAt)}`
+                        : '')}
+                  {job.state === 'failed' && (job.error ?? 'Ingestion failed')}
+                  {job.state === 'unavailable' &&
+                    'Status lost (the API may have restarted); re-ingest it from the library'}
+                  {job.state === 'processing' && job.chunksCreated !== undefined && (
+                    <span> · {job.chunksCreated} chunks</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {active < jobs.length && (
+            <div className="px-4 py-2 border-t border-gray-100 text-right">
+              <button
+                onClick={() => clearFinishedIngestJobs(currentTenant.id)}
+                className="text-xs font-medium text-gray-500 hover:text-gray-700"
+              >
+                Clear finished
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { InjectionFinding, highestSeverity, isBlockingFinding } from '@/lib/prompt-guards';
+import { cn } from '@/lib/utils';
+import { InjectionSeverity } from '@/types';
+
+interface Props {
+  text: string;
+  findings: InjectionFinding[];
+  acknowledged: boolean;
+  disabled?: boolean;
+  /** Omitted when the text cannot be changed before ingest, e.g. for PDFs */
+  onStrip?: () => void;
+  onAcknowledge: (acknowledged: boolean) => void;
+  /** Omitted when there is no file to drop, e.g. in the document editor */
+  onRemove?: () => void;
+}
+
+const CONTEXT_CHARS = 60;
+const INITIAL_VISIBLE = 10;
+
+const SEVERITY_STYLES: Record<InjectionSeverity, { panel: string; badge: string; mark: string }> = {
+  high: {
+    panel: 'bg-red-50 border-red-200 text-red-800',
+    badge: 'bg-red-100 text-red-700',
+    mark: 'bg-red-200',
+  },
+  medium: {
+    panel: 'bg-amber-50 border-amber-200 text-amber-800',
+    badge: 'bg-amber-100 text-amber-700',
+    mark: 'bg-amber-200',
+  },
+  low: {
+    panel: 'bg-gray-50 border-gray-200 text-gray-700',
+    badge: 'bg-gray-200 text-gray-700',
+    mark: 'bg-yellow-100',
+  },
+};
+
+/**
+ * Suspicious spans found in a file's text, each shown in context, with the choice to
+ * strip them (when the text can be changed) or ingest the text unchanged.
+ */
+export const InjectionReview: React.FC<Props> = ({
+  text,
+  findings,
+  acknowledged,
+  disabled,
+  onStrip,
+  onAcknowledge,
+  onRemove,
+}) => {
+  const [showAll, setShowAll] = useState(false);
+  const severity = highestSeverity(findings);
+  if (!severity) return null;
+
+  const blocking = findings.filter(isBlockingFinding);
+  const counts = (['high', 'medium', 'low'] as const)
+    .map((level) => ({ level, count: findings.filter((f) => f.severity === level).length }))
+    .filter(({ count }) => count > 0);
+  const visible = showAll ? findings : findings.slice(0, INITIAL_VISIBLE);
+  const styles = SEVERITY_STYLES[severity];
+
+  return (
+    <div className={cn('mt-2 p-3 border rounded-lg text-xs space-y-2', styles.panel)}>
+      <div className="flex items-center gap-2 font-medium">
+        {acknowledged ? (
+          <ShieldCheck className="w-4 h-4 flex-shrink-0" />
+        ) : (
+          <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+        )}
+        <span>
+          {blocking.length > 0 ? 'Possible prompt injection' : 'Unusual content'}:{' '}
+          {counts.map(({ level, count }) => `${count} ${level}`).join(', ')}
+        </span>
+      </div>
+      {blocking.some((f) => f.strippedByServer) && (
+        <p>Flagged instructions are replaced with "[removed]" when this document is used in answers.</p>
+      )}
+
+      <ol className="space-y-1 max-h-48 overflow-y-auto">
+        {visible.map((finding, idx) => (
+          <li key={idx} className="bg-white bg-opacity-60 rounded p-1.5">
+            <span
+              className={cn(
+                'inline-block px-1.5 rounded mr-2 font-medium',
+                SEVERITY_STYLES[finding.severity].badge
+              )}
+            >
+              {finding.severity}
+            </span>
+            <span className="font-medium">{finding.label}</span>
+            <p className="mt-1 font-mono text-gray-700 whitespace-pre-wrap break-words">
+              {finding.start > CONTEXT_CHARS && '…'}
+              {text.slice(Math.max(0, finding.start - CONTEXT_CHARS), finding.start)}
+              <mark className={SEVERITY_STYLES[finding.severity].mark}>{finding.text}</mark>
+              {text.slice(finding.end, finding.end + CONTEXT_CHARS)}
+              {finding.end + CONTEXT_CHARS < text.length && '…'}
+            </p>
+          </li>
+        ))}
+      </ol>
+      {!showAll && findings.length > INITIAL_VISIBLE && (
+        <button onClick={() => setShowAll(true)} className="font-medium underline">
+          Show all {findings.length} findings
+        </button>
+      )}
+
+      {blocking.length > 0 &&
+        (acknowledged ? (
+          <div className="flex items-center gap-3">
+            <span>Acknowledged: the text will be ingested unchanged.</span>
+            {!disabled && (
+              <button onClick={() => onAcknowledge(false)} className="font-medium underline">
+                Undo
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {onStrip && (
+              <button
+                onClick={onStrip}
+                disabled={disabled}
+                className="px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-50"
+              >
+                Strip {blocking.length} flagged span{blocking.length === 1 ? '' : 's'}
+              </button>
+            )}
+            <button
+              onClick={() => onAcknowledge(true)}
+              disabled={disabled}
+              className="px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-50"
+            >
+              Ingest as-is
+            </button>
+            {onRemove && (
+              <button
+                onClick={onRemove}
+                disabled={disabled}
+                className="px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-50"
+              >
+                Remove file
+              </button>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  X,
+  FileText,
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Loader2,
+  AlertCircle,
+  Quote,
+} from 'lucide-react';
+import type { PDFDocumentProxy, RenderTask, TextLayer } from 'pdfjs-dist';
+import { useAppStore } from '@/store/app-store';
+import { ragService } from '@/services/rag-service';
+import { getPdfFile } from '@/lib/pdf-files';
+import { getPageTextItems, loadPdfjs, openPdf } from '@/lib/pdf';
+import { matchChunkInItems } from '@/lib/pdf-match';
+import { getActivePath } from '@/lib/conversation-tree';
+import { cn, truncateText } from '@/lib/utils';
+import { Citation } from '@/types';
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DEFAULT_ZOOM_STEP = 3;
+
+// Citations without a page number are located by scanning at most this many pages
+const MAX_PAGES_TO_SCAN = 300;
+
+interface Props {
+  citation: Citation;
+  onClose: () => void;
+}
+
+interface CitedPlace {
+  key: string;
+  citation: Citation;
+  question?: string;
+}
+
+/**
+ * Renders a locally stored PDF on the cited page with the chunk highlighted, and lists
+ * every citation of the document in the current conversation.
+ */
+export const PdfViewer: React.FC<Props> = ({ citation, onClose }) => {
+  const { documents, currentTenant, currentConversation, updateDocument } = useAppStore();
+  const documentId = citation.documentId;
+  const tenantId = currentTenant?.id;
+  const doc = documents.find((d) => d.id === documentId && d.tenantId === tenantId);
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [active, setActive] = useState<Citation>(citation);
+  const [page, setPage] = useState(citation.pageNumber ?? 1);
+  const [pageInput, setPageInput] = useState(String(citation.pageNumber ?? 1));
+  const [zoomStep, setZoomStep] = useState(DEFAULT_ZOOM_STEP);
+  const [chunkText, setChunkText] = useState<string | null>(null);
+  const [matched, setMatched] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  const scale = ZOOM_STEPS[zoomStep];
+
+  // Every citation of this document in the shown branch, with the question it answered
+  const places = useMemo(() => {
+    const list: CitedPlace[] = [];
+    let question: string | undefined;
+    for (const message of currentConversation ? getActivePath(currentConversation) : []) {
+      if (message.role === 'user') question = message.content;
+      message.citations?.forEach((c, idx) => {
+        if (c.documentId === documentId) list.push({ key: `${message.id}:${idx}`, citation: c, question });
+      });
+    }
+    return list;
+  }, [currentConversation, documentId]);
+
+  // Load the stored file
+  useEffect(() => {
+    if (!tenantId) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    (async () => {
+      const file = await getPdfFile(tenantId, documentId);
+      if (!file) {
+        if (!cancelled) {
+          setError('This PDF is no longer stored in this browser. Re-upload it to view it here.');
+          updateDocument(documentId, { hasLocalPdf: undefined }, tenantId);
+        }
+        return;
+      }
+      loaded = await openPdf(file);
+      if (cancelled) {
+        void loaded.destroy();
+        return;
+      }
+      setPdf(loaded);
+    })().catch((err) => {
+      console.error('[PDF] Could not open', documentId, err);
+      if (!cancelled) setError('Could not open this PDF.');
+    });
+
+    return () => {
+      cancelled = true;
+      void loaded?.destroy();
+    };
+  }, [tenantId, documentId, updateDocument]);
+
+  // Fetch the cited chunk's text so it can be highlighted
+  useEffect(() => {
+    const controller = new AbortController();
+    setChunkText(null);
+    setMatched(null);
+    ragService
+      .getDocumentChunks(documentId, active.chunkIndex, active.chunkIndex, controller.signal)
+      .then((result) => {
+        const chunk = result.chunks.find((c) => c.chunkIndex === active.chunkIndex);
+        setChunkText(chunk?.text ?? null);
+        if (!chunk) setMatched(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.warn('[PDF] Could not load cited chunk', documentId, active.chunkIndex, err);
+        setMatched(false);
+      });
+    return () => controller.abort();
+  }, [documentId, active.chunkIndex]);
+
+  // Without a page number, go to the page that matches the chunk best
+  useEffect(() => {
+    if (!pdf || !chunkText || active.pageNumber) return;
+    let cancelled = false;
+
+    (async () => {
+      let bestPage = 1;
+      let bestScore = 0;
+      const pages = Math.min(pdf.numPages, MAX_PAGES_TO_SCAN);
+      for (let n = 1; n <= pages && !cancelled; n++) {
+        const match = matchChunkInItems(await getPageTextItems(pdf, n), chunkText);
+        if (match && match.score > bestScore) {
+          bestScore = match.score;
+          bestPage = n;
+        }
+      }
+      if (!cancelled) goToPage(bestPage);
+    })().catch((err) => console.warn('[PDF] Could not locate chunk', documentId, err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, chunkText, active.pageNumber, documentId]);
+
+  // Draw the page and its text layer, then highlight the chunk
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    (async () => {
+      const pdfjs = await loadPdfjs();
+      const pdfPage = await pdf.getPage(Math.min(Math.max(1, page), pdf.numPages));
+      const canvas = canvasRef.current;
+      const layer = textLayerRef.current;
+      if (cancelled || !canvas || !layer) return;
+
+      const viewport = pdfPage.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+      renderTask = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+
+      layer.replaceChildren();
+      layer.style.setProperty('--scale-factor', String(scale));
+      textLayer = new pdfjs.TextLayer({
+        textContentSource: pdfPage.streamTextContent(),
+        container: layer,
+        viewport,
+      });
+
+      await Promise.all([renderTask.promise, textLayer.render()]);
+      if (cancelled || !chunkText) return;
+
+      const match = matchChunkInItems(textLayer.textContentItemsStr, chunkText);
+      const divs = textLayer.textDivs;
+      match?.itemIndices.forEach((idx) => divs[idx]?.classList.add('pdf-match'));
+      if (match) divs[match.itemIndices[0]]?.scrollIntoView({ block: 'center' });
+      setMatched(!!match);
+    })().catch((err) => {
+      if (cancelled || err?.name === 'RenderingCancelledException') return;
+      console.error('[PDF] Could not render page', page, err);
+      setError('Could not render this page.');
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, page, scale, chunkText]);
+
+  const numPages = pdf?.numPages ?? 0;
+
+  function goToPage(n: number) {
+    const next = numPages ? Math.min(Math.max(1, n), numPages) : Math.max(1, n);
+    setPage(next);
+    setPageInput(String(next));
+  }
+
+  const selectPlace = (place: CitedPlace) => {
+    setActive(place.citation);
+    if (place.citation.pageNumber) goToPage(place.citation.pageNumber);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex bg-black bg-opacity-50 p-4">
+      <div className="flex w-full h-full bg-white rounded-2xl shadow-xl overflow-hidden">
+        {/* Citations in this conversation */}
+        <aside className="w-64 flex-shrink-0 border-r border-gray-200 flex flex-col bg-gray-50">
+          <div className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-700">
+            Cited in this conversation ({places.length})
+          </div>
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {places.map((place) => {
+              const isActive =
+                place.citation.chunkIndex === active.chunkIndex &&
+                place.citation.pageNumber === active.pageNumber;
+              return (
+                <button
+                  key={place.key}
+                  onClick={() => selectPlace(place)}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-lg text-xs border transition-colors',
+                    isActive
+                      ? 'bg-primary-50 border-primary-200 text-primary-800'
+                      : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-100'
+                  )}
+                >
+                  <div className="font-medium">
+                    {place.citation.pageNumber ? `Page ${place.citation.pageNumber}` : 'Page unknown'}
+                    {` · Chunk ${place.citation.chunkIndex + 1}`}
+                  </div>
+                  {place.question && (
+                    <div className="mt-0.5 flex items-start gap-1 text-gray-500">
+                      <Quote className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>{truncateText(place.question, 80)}</span>
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </aside>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          {/* Toolbar */}
+          <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-200">
+            <div className="flex items-center gap-2 min-w-0 font-semibold text-gray-900">
+              <FileText className="w-5 h-5 flex-shrink-0 text-primary-600" />
+              <span className="truncate">{doc?.name ?? documentId}</span>
+            </div>
+
+            <div className="flex items-center gap-1 text-sm">
+              <button
+                onClick={() => goToPage(page - 1)}
+                disabled={!pdf || page <= 1}
+                className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const n = parseInt(pageInput, 10);
+                  if (Number.isFinite(n)) goToPage(n);
+                  else setPageInput(String(page));
+                }}
+                className="flex items-center gap-1 text-gray-600"
+              >
+                <input
+                  value={pageInput}
+                  onChange={(e) => setPageInput(e.target.value)}
+                  onBlur={() => setPageInput(String(page))}
+                  disabled={!pdf}
+                  className="w-12 px-2 py-1 text-center border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  aria-label="Page number"
+                />
+                <span>/ {numPages || '…'}</span>
+              </form>
+              <button
+                onClick={() => goToPage(page + 1)}
+                disabled={!pdf || page >= numPages}
+                className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+
+              <span className="mx-2 h-5 w-px bg-gray-200" />
+
+              <button
+                onClick={() => setZoomStep((z) => Math.max(0, z - 1))}
+                disabled={zoomStep === 0}
+                className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                title="Zoom out"
+              >
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <span className="w-12 text-center text-gray-600">{Math.round(scale * 100)}%</span>
+              <button
+                onClick={() => setZoomStep((z) => Math.min(ZOOM_STEPS.length - 1, z + 1))}
+                disabled={zoomStep === ZOOM_STEPS.length - 1}
+                className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                title="Zoom in"
+              >
+                <ZoomIn className="w-4 h-4" />
+              </button>
+            </div>
+
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Page */}
+          <div className="flex-1 overflow-auto bg-gray-100 p-6">
+            {error ? (
+              <div className="max-w-md mx-auto flex items-start gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            ) : (
+              <>
+                {!pdf && (
+                  <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Opening PDF...</span>
+                  </div>
+                )}
+                <div className={cn('relative mx-auto w-fit shadow-md bg-white', !pdf && 'hidden')}>
+                  <canvas ref={canvasRef} className="block" />
+                  <div ref={textLayerRef} className="textLayer" />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+            {matched === null
+              ? 'Locating the cited passage...'
+              : matched
+                ? `Highlighted chunk ${active.chunkIndex + 1}${active.pageNumber ? ` on page ${active.pageNumber}` : ''}.`
+                : 'The cited passage could not be located on this page.'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Pencil, Trash2, Upload, Download } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import { MAX_SYSTEM_PROMPT_LENGTH } from '@/lib/chat-settings';
+import {
+  exportPromptLibrary,
+  extractTemplateVariables,
+  getPromptLibrary,
+  mergePromptLibraries,
+  parsePromptLibrary,
+} from '@/lib/prompt-templates';
+import { generateId } from '@/lib/utils';
+import { PromptTemplate } from '@/types';
+
+interface Props {
+  onClose: () => void;
+}
+
+type Draft = Pick<PromptTemplate, 'kind' | 'name' | 'text'> & { id?: string };
+
+const SECTIONS: { kind: PromptTemplate['kind']; title: string; empty: string }[] = [
+  { kind: 'question', title: 'Question templates', empty: 'No question templates yet.' },
+  { kind: 'system', title: 'System prompts', empty: 'No system prompts yet.' },
+];
+
+/**
+ * The workspace's saved system prompts and question templates, with JSON import and export.
+ */
+export const PromptLibraryPanel: React.FC<Props> = ({ onClose }) => {
+  const { currentTenant, promptLibraries, setPromptLibrary } = useAppStore();
+  const templates = getPromptLibrary(promptLibraries, currentTenant?.id);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [notice, setNotice] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const save = (next: PromptTemplate[]) => {
+    if (currentTenant) setPromptLibrary(currentTenant.id, next);
+  };
+
+  // Same limit the conversation settings enforce, so a saved system prompt is always usable
+  const draftTooLong = draft?.kind === 'system' && draft.text.length > MAX_SYSTEM_PROMPT_LENGTH;
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.text.trim() || draftTooLong) return;
+    const entry: PromptTemplate = {
+      id: draft.id ?? generateId(),
+      kind: draft.kind,
+      name: draft.name.trim(),
+      text: draft.text,
+      updatedAt: new Date(),
+    };
+    save(draft.id ? templates.map((t) => (t.id === draft.id ? entry : t)) : [...templates, entry]);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptLibrary(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `prompt-library-${currentTenant?.id ?? 'workspace'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePromptLibrary(await file.text());
+      save(mergePromptLibraries(templates, imported));
+      setNotice({ error: false, text: `Imported ${imported.length} templates from ${file.name}` });
+    } catch (error: any) {
+      console.warn('[Prompts] Import failed:', file.name, error);
+      setNotice({ error: true, text: error.message || 'Could not import the file' });
+    }
+  };
+
+  const variables = draft ? extractTemplateVariables(draft.text) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Prompt Library</h2>
+            <p className="text-xs text-gray-500">
+              System prompts and question templates for {currentTenant?.name ?? 'this workspace'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setDraft({ kind: 'question', name: '', text: '' })}
+              disabled={!currentTenant}
+              className="flex items-center gap-1 px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm font-medium disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              New Template
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!currentTenant}
+              className="ml-auto flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          </div>
+
+          {notice && (
+            <p className={notice.error ? 'text-sm text-red-600' : 'text-sm text-green-700'}>{notice.text}</p>
+          )}
+
+          {/* Editor */}
+          {draft && (
+            <div className="p-3 bg-gray-50 rounded-lg space-y-2 text-sm">
+              <div className="flex gap-2">
+                <select
+                  value={draft.kind}
+                  onChange={(e) => setDraft({ ...draft, kind: e.target.value as PromptTemplate['kind'] })}
+                  aria-label="Kind"
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg"
+                >
+                  <option value="question">Question template</option>
+                  <option value="system">System prompt</option>
+                </select>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Name"
+                  aria-label="Name"
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  autoFocus
+                />
+              </div>
+              <textarea
+                value={draft.text}
+                onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                placeholder={
+                  draft.kind === 'question'
+                    ? 'Summarise {document} for {audience}'
+                    : 'You are a support assistant for...'
+                }
+                aria-label="Text"
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">
+                  {draft.kind === 'system'
+                    ? `Used as the agent's system prompt from the conversation settings. ${draft.text.length}/${MAX_SYSTEM_PROMPT_LENGTH}`
+                    : variables.length > 0
+                      ? `Asks for: ${variables.join(', ')}`
+                      : 'Write {name} where a value should be filled in before sending.'}
+                </span>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="ml-auto px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveDraft}
+                  disabled={!draft.name.trim() || !draft.text.trim() || draftTooLong}
+                  className="px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 font-medium disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          {SECTIONS.map(({ kind, title, empty }) => {
+            const entries = templates.filter((t) => t.kind === kind);
+            return (
+              <section key={kind} className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+                {entries.length === 0 ? (
+                  <p className="text-xs text-gray-500">{empty}</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {entries.map((entry) => (
+                      <li key={entry.id} className="flex items-start gap-3 px-3 py-2 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-gray-900">{entry.name}</div>
+                          <p className="text-xs text-gray-500 truncate">{entry.text}</p>
+                        </div>
+                        <button
+                          onClick={() => setDraft(entry)}
+                          disabled={!currentTenant}
+                          className="p-1.5 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => save(templates.filter((t) => t.id !== entry.id))}
+                          disabled={!currentTenant}
+                          className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-gray-100"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => void handleImport(e)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { EyeOff, ChevronDown, ChevronRight } from 'lucide-react';
+import { RedactionDecision, SensitiveFinding, maskValue } from '@/lib/redaction';
+import { cn } from '@/lib/utils';
+import { RedactionMask } from '@/types';
+
+interface Props {
+  findings: SensitiveFinding[];
+  decisions: Record<string, RedactionDecision>;
+  onChange: (decisions: Record<string, RedactionDecision>) => void;
+  disabled?: boolean;
+}
+
+export const MASK_LABELS: Record<RedactionMask, string> = {
+  placeholder: 'Placeholder',
+  partial: 'Partial',
+  remove: 'Remove',
+};
+
+const MAX_VALUE_CHARS = 48;
+
+const truncate = (value: string) =>
+  value.length > MAX_VALUE_CHARS ? `${value.slice(0, MAX_VALUE_CHARS)}…` : value;
+
+/**
+ * Personal data and credentials found in a file, each with a choice to redact it (and
+ * how) or keep it. Only redacted values are masked in the text that gets ingested.
+ */
+export const RedactionReview: React.FC<Props> = ({ findings, decisions, onChange, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (findings.length === 0) return null;
+
+  const redactCount = findings.filter((f) => decisions[f.id]?.redact).length;
+  const secrets = findings.filter((f) => f.category === 'secret').length;
+
+  const setDecision = (id: string, update: Partial<RedactionDecision>) =>
+    onChange({ ...decisions, [id]: { ...decisions[id], ...update } });
+
+  const setAll = (redact: boolean) =>
+    onChange(
+      Object.fromEntries(findings.map((f) => [f.id, { ...decisions[f.id], redact }]))
+    );
+
+  return (
+    <div className="mt-2 p-3 border border-blue-200 bg-blue-50 rounded-lg text-xs text-blue-900 space-y-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 font-medium w-full text-left"
+      >
+        <EyeOff className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          {findings.length} sensitive value{findings.length === 1 ? '' : 's'} found
+          {secrets > 0 && ` (${secrets} credential${secrets === 1 ? '' : 's'})`} · {redactCount}{' '}
+          will be redacted
+        </span>
+        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <>
+          {!disabled && (
+            <div className="flex gap-3">
+              <button onClick={() => setAll(true)} className="font-medium underline">
+                Redact all
+              </button>
+              <button onClick={() => setAll(false)} className="font-medium underline">
+                Keep all
+              </button>
+            </div>
+          )}
+          <ul className="space-y-1 max-h-56 overflow-y-auto">
+            {findings.map((finding) => {
+              const decision = decisions[finding.id];
+              return (
+                <li
+                  key={finding.id}
+                  className="flex items-center gap-2 bg-white bg-opacity-70 rounded p-1.5"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!decision?.redact}
+                    onChange={(e) => setDecision(finding.id, { redact: e.target.checked })}
+                    disabled={disabled}
+                    aria-label={`Redact ${finding.label}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{finding.label}</span>
+                      <span
+                        className={cn(
+                          'px-1.5 rounded',
+                          finding.category === 'secret'
+                            ? 'bg-red-100 text-red-700'
+                            : 'bg-gray-200 text-gray-700'
+                        )}
+                      >
+                        {finding.category === 'secret' ? 'credential' : 'personal data'}
+                      </span>
+                    </div>
+                    <p className="font-mono text-gray-700 truncate">
+                      <span className={cn(decision?.redact && 'line-through text-gray-400')}>
+                        {truncate(finding.text)}
+                      </span>
+                      {decision?.redact && (
+                        <span className="ml-2">
+                          → {maskValue(finding, decision.mask) || <em>(removed)</em>}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <select
+                    value={decision?.mask ?? 'placeholder'}
+                    onChange={(e) => setDecision(finding.id, { mask: e.target.value as RedactionMask })}
+                    disabled={disabled || !decision?.redact}
+                    aria-label={`Mask for ${finding.label}`}
+                    className="px-1 py-0.5 border border-gray-300 rounded bg-white disabled:opacity-50"
+                  >
+                    {Object.entries(MASK_LABELS).map(([mask, label]) => (
+                      <option key={mask} value={mask}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
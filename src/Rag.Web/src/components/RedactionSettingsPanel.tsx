@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import {
+  BUILT_IN_RULES,
+  DEFAULT_REDACTION_SETTINGS,
+  compileCustomRule,
+  getRuleConfig,
+} from '@/lib/redaction';
+import { CustomRedactionRule, RedactionCategory, RedactionMask, RedactionSettings } from '@/types';
+import { MASK_LABELS } from './RedactionReview';
+
+interface Props {
+  onClose: () => void;
+}
+
+const maskSelect = (
+  value: RedactionMask,
+  onChange: (mask: RedactionMask) => void,
+  label: string
+) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as RedactionMask)}
+    aria-label={`Mask for ${label}`}
+    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+  >
+    {Object.entries(MASK_LABELS).map(([mask, maskLabel]) => (
+      <option key={mask} value={mask}>
+        {maskLabel}
+      </option>
+    ))}
+  </select>
+);
+
+/**
+ * Which PII and credential rules run on uploads to the current workspace, their default
+ * masks, and workspace-specific patterns.
+ */
+export const RedactionSettingsPanel: React.FC<Props> = ({ onClose }) => {
+  const { currentTenant, redactionSettings, setRedactionSettings } = useAppStore();
+  const [draft, setDraft] = useState<RedactionSettings>(
+    (currentTenant && redactionSettings[currentTenant.id]) || DEFAULT_REDACTION_SETTINGS
+  );
+  const [newRule, setNewRule] = useState({
+    label: '',
+    pattern: '',
+    category: 'pii' as RedactionCategory,
+    caseInsensitive: false,
+  });
+
+  const newRuleInvalid =
+    newRule.pattern !== '' &&
+    !compileCustomRule({ ...newRule, id: 'new', enabled: true, mask: 'placeholder' });
+
+  const updateCustomRule = (id: string, updates: Partial<CustomRedactionRule>) =>
+    setDraft((prev) => ({
+      ...prev,
+      customRules: prev.customRules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)),
+    }));
+
+  const addCustomRule = () => {
+    setDraft((prev) => ({
+      ...prev,
+      customRules: [
+        ...prev.customRules,
+        {
+          ...newRule,
+          id: `custom-${Date.now()}`,
+          label: newRule.label.trim(),
+          enabled: true,
+          mask: 'placeholder',
+        },
+      ],
+    }));
+    setNewRule({ label: '', pattern: '', category: 'pii', caseInsensitive: false });
+  };
+
+  const handleSave = () => {
+    if (!currentTenant) return;
+    setRedactionSettings(currentTenant.id, draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Redaction Rules</h2>
+            <p className="text-xs text-gray-500">
+              Applied to text files uploaded to {currentTenant?.name ?? 'this workspace'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Built-in rules</h3>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {BUILT_IN_RULES.map((rule) => {
+                const config = getRuleConfig(rule, draft);
+                const setConfig = (updates: Partial<typeof config>) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    rules: { ...prev.rules, [rule.id]: { ...config, ...updates } },
+                  }));
+                return (
+                  <li key={rule.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={config.enabled}
+                      onChange={(e) => setConfig({ enabled: e.target.checked })}
+                      aria-label={`Detect ${rule.label}`}
+                    />
+                    <span className="flex-1 text-gray-900">{rule.label}</span>
+                    <span className="text-xs text-gray-500">
+                      {rule.category === 'secret' ? 'credential' : 'personal data'}
+                    </span>
+                    {maskSelect(config.mask, (mask) => setConfig({ mask }), rule.label)}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Workspace rules</h3>
+            {draft.customRules.length > 0 && (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {draft.customRules.map((rule) => (
+                  <li key={rule.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateCustomRule(rule.id, { enabled: e.target.checked })}
+                      aria-label={`Detect ${rule.label}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-gray-900">{rule.label}</div>
+                      <code className="text-xs text-gray-500 break-all">
+                        /{rule.pattern}/{rule.caseInsensitive ? 'i' : ''}
+                      </code>
+                    </div>
+                    {maskSelect(rule.mask, (mask) => updateCustomRule(rule.id, { mask }), rule.label)}
+                    <button
+                      onClick={() =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          customRules: prev.customRules.filter((r) => r.id !== rule.id),
+                        }))
+                      }
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-gray-100"
+                      title="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="p-3 bg-gray-50 rounded-lg space-y-2 text-sm">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newRule.label}
+                  onChange={(e) => setNewRule({ ...newRule, label: e.target.value })}
+                  placeholder="Employee ID"
+                  aria-label="Rule name"
+                  className="w-40 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  type="text"
+                  value={newRule.pattern}
+                  onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                  placeholder="EMP-\d{6}"
+                  aria-label="Regular expression"
+                  className="flex-1 px-3 py-1.5 font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={newRule.category}
+                  onChange={(e) =>
+                    setNewRule({ ...newRule, category: e.target.value as RedactionCategory })
+                  }
+                  aria-label="Category"
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                >
+                  <option value="pii">Personal data</option>
+                  <option value="secret">Credential</option>
+                </select>
+                <label className="flex items-center gap-1 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={newRule.caseInsensitive}
+                    onChange={(e) => setNewRule({ ...newRule, caseInsensitive: e.target.checked })}
+                  />
+                  Ignore case
+                </label>
+                {newRuleInvalid && (
+                  <span className="text-xs text-red-600">Not a valid pattern</span>
+                )}
+                <button
+                  onClick={addCustomRule}
+                  disabled={!newRule.label.trim() || !newRule.pattern || newRuleInvalid}
+                  className="ml-auto flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Rule
+                </button>
+              </div>
+            </div>
+          </section>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(DEFAULT_REDACTION_SETTINGS)}
+              className="mr-auto text-sm text-gray-500 hover:text-gray-700"
+            >
+              Reset to defaults
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!currentTenant}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 font-medium"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
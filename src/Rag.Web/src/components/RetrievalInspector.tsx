@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { ScanSearch, RotateCw, Loader2, AlertCircle, ArrowUp, ArrowDown, X } from 'lucide-react';
+import { ragService } from '@/services/rag-service';
+import { useAppStore } from '@/store/app-store';
+import { isRequestCancelled } from '@/lib/api-client';
+import { getRetrievalScope } from '@/lib/conversation-attachments';
+import { diffRetrieval, hitKey } from '@/lib/retrieval-diff';
+import { cn } from '@/lib/utils';
+import { Citation } from '@/types';
+
+const MIN_TOP_K = 1;
+const MAX_TOP_K = 20;
+const DEFAULT_TOP_K = 5;
+const PREVIEW_CHARS = 240;
+
+interface Hit {
+  documentId: string;
+  chunkIndex: number;
+  score: number;
+  text?: string;
+}
+
+interface Run {
+  question: string;
+  topK: number;
+  hits: Hit[];
+}
+
+interface Props {
+  /** What the retriever returned when the answer was generated */
+  sources: Citation[];
+  /** The question the answer was for */
+  question?: string;
+}
+
+const toHit = (citation: Citation): Hit => ({
+  documentId: citation.documentId,
+  chunkIndex: citation.chunkIndex,
+  score: citation.score || citation.relevanceScore || 0,
+});
+
+/**
+ * Lists the chunks retrieved for an answer and re-runs retrieval alone, with another
+ * topK or a rephrased question, to see which hits enter or leave the set.
+ */
+export const RetrievalInspector: React.FC<Props> = ({ sources, question }) => {
+  const { documents, currentTenant, currentConversation } = useAppStore();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState(question ?? '');
+  const [topK, setTopK] = useState(sources.length || DEFAULT_TOP_K);
+  const [runs, setRuns] = useState<Run[]>(() => [
+    { question: question ?? '', topK: sources.length, hits: sources.map(toHit) },
+  ]);
+  const [controller, setController] = useState<AbortController | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const latest = runs[runs.length - 1];
+  const previous = runs.length > 1 ? runs[runs.length - 2] : null;
+  const diff = useMemo(
+    () => (previous ? diffRetrieval(previous.hits, latest.hits) : null),
+    [previous, latest]
+  );
+
+  const nameOf = (documentId: string) =>
+    documents.find((d) => d.id === documentId && d.tenantId === currentTenant?.id)?.name ?? documentId;
+
+  const topKValid = Number.isInteger(topK) && topK >= MIN_TOP_K && topK <= MAX_TOP_K;
+  const canRun = query.trim().length > 0 && topKValid && !controller;
+
+  const handleRun = async () => {
+    if (!canRun) return;
+    const abort = new AbortController();
+    setController(abort);
+    setError(null);
+    try {
+      const scope = getRetrievalScope(
+        documents,
+        currentTenant?.id ?? 'default',
+        currentConversation ?? undefined
+      );
+      const result = await ragService.retrieve({ question: query.trim(), topK, ...scope }, abort.signal);
+      setRuns((prev) => [...prev, { question: result.question, topK: result.topK, hits: result.hits }]);
+    } catch (err) {
+      if (isRequestCancelled(err)) return;
+      console.error('[Retrieval] Re-run failed:', err);
+      setError('Could not run retrieval. Please try again.');
+    } finally {
+      setController(null);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-primary-700"
+        title="Inspect the chunks retrieved for this answer"
+      >
+        <ScanSearch className="w-3 h-3" />
+        Inspect retrieval
+      </button>
+    );
+  }
+
+  const rows = diff?.current ?? latest.hits.map((hit, i) => ({ kind: 'original' as const, hit, rank: i + 1 }));
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-gray-50 text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <div className="flex items-center gap-2 font-medium text-gray-700">
+          <ScanSearch className="w-4 h-4" />
+          <span>Retrieval</span>
+          <span className="text-xs font-normal text-gray-500">
+            {runs.length === 1 ? 'as answered' : `re-run ${runs.length - 1}`} · {latest.hits.length} hits
+          </span>
+        </div>
+        <button
+          onClick={() => {
+            controller?.abort();
+            setOpen(false);
+          }}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Re-run controls */}
+      <div className="flex flex-wrap items-end gap-2 px-3 py-2 border-b border-gray-200">
+        <label className="flex-1 min-w-[12rem]">
+          <span className="block text-xs text-gray-500 mb-1">Query</span>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </label>
+        <label>
+          <span className="block text-xs text-gray-500 mb-1">Top K</span>
+          <input
+            type="number"
+            min={MIN_TOP_K}
+            max={MAX_TOP_K}
+            value={Number.isNaN(topK) ? '' : topK}
+            onChange={(e) => setTopK(e.target.valueAsNumber)}
+            className={cn(
+              'w-16 px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-primary-500',
+              topKValid ? 'border-gray-300' : 'border-red-400'
+            )}
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!canRun}
+          className="inline-flex items-center gap-1 px-3 py-1.5 bg-primary-600 text-white rounded hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {controller ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
+          Re-run retrieval
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-3 py-2 text-red-700 bg-red-50 border-b border-red-200">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Hits of the latest run, compared with the run before it */}
+      <ol className="divide-y divide-gray-200">
+        {rows.length === 0 && <li className="px-3 py-2 text-gray-500">No chunks were retrieved.</li>}
+        {rows.map((row) => (
+          <li key={hitKey(row.hit)} className="px-3 py-2">
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs text-gray-400">{row.rank}</span>
+              <span className="font-medium text-gray-900 truncate">{nameOf(row.hit.documentId)}</span>
+              <span className="text-xs text-gray-500">chunk {row.hit.chunkIndex}</span>
+              {row.kind === 'entered' && (
+                <span className="px-1.5 py-0.5 text-[10px] font-medium text-green-800 bg-green-100 rounded-full">new</span>
+              )}
+              {row.kind === 'kept' && row.previousRank !== row.rank && (
+                <span
+                  className="inline-flex items-center text-[10px] text-gray-500"
+                  title={`Was #${row.previousRank}`}
+                >
+                  {row.previousRank > row.rank ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                  {Math.abs(row.previousRank - row.rank)}
+                </span>
+              )}
+              <span className="ml-auto font-mono text-xs text-primary-700">{row.hit.score.toFixed(3)}</span>
+            </div>
+            {row.hit.text && (
+              <p className="mt-1 ml-7 text-xs text-gray-600 whitespace-pre-wrap">
+                {row.hit.text.length > PREVIEW_CHARS ? `${row.hit.text.slice(0, PREVIEW_CHARS)}…` : row.hit.text}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {diff && diff.left.length > 0 && (
+        <div className="px-3 py-2 border-t border-gray-200">
+          <p className="text-xs font-medium text-gray-500 mb-1">Left the set</p>
+          <ul className="space-y-1">
+            {diff.left.map(({ hit, previousRank }) => (
+              <li key={hitKey(hit)} className="flex items-center gap-2 text-xs text-gray-500 line-through">
+                <span>#{previousRank}</span>
+                <span className="truncate">{nameOf(hit.documentId)}</span>
+                <span>chunk {hit.chunkIndex}</span>
+                <span className="ml-auto font-mono">{hit.score.toFixed(3)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Clock, RefreshCw } from 'lucide-react';
+import { useRetryStatus } from '@/hooks/useRetryStatus';
+
+interface Props {
+  tenantId: string | null | undefined;
+}
+
+/**
+ * Composer banner with a countdown while requests are throttled or being retried.
+ */
+export const RetryNotice: React.FC<Props> = ({ tenantId }) => {
+  const status = useRetryStatus(tenantId);
+  if (!status) return null;
+
+  return (
+    <div className="mb-2 flex items-center gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+      {status.rateLimited ? (
+        <Clock className="w-4 h-4 flex-shrink-0" />
+      ) : (
+        <RefreshCw className="w-4 h-4 flex-shrink-0 animate-spin" />
+      )}
+      <span>
+        {status.rateLimited
+          ? `Rate limited, retrying in ${status.secondsLeft}s`
+          : `Connection problem, retrying in ${status.secondsLeft}s`}
+        {status.attempt !== undefined && status.attempt > 1 && ` (attempt ${status.attempt})`}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+
+/**
+ * Warning strip shown in the last minutes before the JWT expires.
+ */
+export const SessionExpiryBanner: React.FC = () => {
+  const { sessionStatus, tokenExpiresAt, requestReauth } = useAppStore();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (sessionStatus !== 'expiring') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [sessionStatus]);
+
+  if (sessionStatus !== 'expiring' || !tokenExpiresAt) return null;
+
+  const minutesLeft = Math.max(1, Math.ceil((tokenExpiresAt - now) / 60000));
+
+  return (
+    <div className="flex items-center gap-2 px-6 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800 flex-shrink-0">
+      <Clock className="w-4 h-4" />
+      <span>
+        Your session expires in {minutesLeft} minute{minutesLeft === 1 ? '' : 's'}.
+      </span>
+      <button
+        onClick={() => void requestReauth()}
+        className="ml-auto font-medium text-amber-900 hover:underline"
+      >
+        Sign in again
+      </button>
+    </div>
+  );
+};
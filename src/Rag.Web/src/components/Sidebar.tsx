@@ -13,6 +13,7 @@ import { useAppStore } from '@/store/app-store';
 import { TenantSwitcher } from './TenantSwitcher';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { deleteConversationWithAttachments } from '@/lib/conversation-attachments';
 
 export const Sidebar: React.FC = () => {
   const {
@@ -22,7 +23,6 @@ export const Sidebar: React.FC = () => {
     currentTenant,
     setCurrentConversation,
     createConversation,
-    deleteConversation,
     sidebarOpen,
     toggleSidebar,
     logout,
@@ -150,7 +150,7 @@ export const Sidebar: React.FC = () => {
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              deleteConversation(conv.id);
+                              deleteConversationWithAttachments(conv);
                             }}
                             className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-700 rounded transition-opacity"
                           >
@@ -1,11 +1,22 @@
 import { useState, useCallback, FormEvent, useRef, useEffect } from 'react';
 import { Paperclip } from 'lucide-react';
 import { useSSE } from '../hooks/useSSE';
+import { SSEConnectionState, SSEOpenInfo } from '@/lib/sse';
 import { FileUpload } from './FileUpload';
+import { ConversationAttachments } from './ConversationAttachments';
+import { DocumentFilterChips, DocumentFilterPicker } from './DocumentFilter';
 import { ChatMessage } from './ChatMessage';
+import { RetryNotice } from './RetryNotice';
+import { ChatSettingsBadge } from './ChatSettingsDrawer';
+import { TemplateSuggestions } from './TemplateSuggestions';
 import { useAppStore } from '@/store/app-store';
-import { generateId } from '@/lib/utils';
-import { ChatMessage as ChatMessageType } from '@/types';
+import { ragService } from '@/services/rag-service';
+import { cn, generateId } from '@/lib/utils';
+import { citationsFromMarkers } from '@/lib/citation-markers';
+import { getActivePath, getSiblings } from '@/lib/conversation-tree';
+import { resolveChatSettings } from '@/lib/chat-settings';
+import { getRetrievalScope } from '@/lib/conversation-attachments';
+import { Citation, ChatMessage as ChatMessageType, Conversation } from '@/types';
 
 /**
  * Streaming RAG Chat Component (Phase 8).
@@ -18,6 +29,9 @@ export function StreamingChat() {
     addMessage,
     updateMessage,
     createConversation,
+    setConversationDocumentFilter,
+    selectBranch,
+    chatSettings,
   } = useAppStore();
   
   const [question, setQuestion] = useState('');
@@ -26,9 +40,11 @@ export function StreamingChat() {
   const [showFileUpload, setShowFileUpload] = useState(false);
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [streamingContent, setStreamingContent] = useState('');
+  const [streamingSources, setStreamingSources] = useState<Citation[] | undefined>(undefined);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const conversationIdRef = useRef<string | null>(null);
   const streamingContentRef = useRef('');
+  const streamingSourcesRef = useRef<Citation[] | undefined>(undefined);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -38,8 +54,29 @@ export function StreamingChat() {
     scrollToBottom();
   }, [currentConversation?.messages, streamingContent]);
 
+  // Streamed answers only carry [docId:chunkIndex] markers, so their citations are built from those
+  const answerWithCitations = () => {
+    const content = streamingContentRef.current;
+    const retrievedSources = streamingSourcesRef.current;
+    return { content, retrievedSources, citations: citationsFromMarkers(content, retrievedSources) };
+  };
+
+  const resetStream = () => {
+    setStreamingContent('');
+    streamingContentRef.current = '';
+    setStreamingSources(undefined);
+    streamingSourcesRef.current = undefined;
+  };
+
   // SSE hook with callbacks
   const handleMessage = useCallback((data: any) => {
+    // The retrieved sources arrive before the first token; a second set means the server started over
+    if (Array.isArray(data.sources)) {
+      setStreamingContent('');
+      streamingContentRef.current = '';
+      streamingSourcesRef.current = data.sources;
+      setStreamingSources(data.sources);
+    }
     if (data.token) {
       // Update local state immediately for real-time display
       setStreamingContent(prev => {
@@ -55,15 +92,14 @@ export function StreamingChat() {
     if (streamingMessageId && conversationIdRef.current) {
       // Save final content to store using ref (not stale closure)
       updateMessage(conversationIdRef.current, streamingMessageId, {
-        content: streamingContentRef.current,
+        ...answerWithCitations(),
         isLoading: false,
       });
     }
     setIsStreaming(false);
     setSseUrl(null);
     setStreamingMessageId(null);
-    setStreamingContent('');
-    streamingContentRef.current = '';
+    resetStream();
     conversationIdRef.current = null;
   }, [streamingMessageId, updateMessage]);
 
@@ -72,6 +108,7 @@ export function StreamingChat() {
     if (streamingMessageId && conversationIdRef.current) {
       const errorContent = streamingContentRef.current || `Error: ${error.message}`;
       updateMessage(conversationIdRef.current, streamingMessageId, {
+        ...answerWithCitations(),
         content: errorContent,
         isLoading: false,
       });
@@ -79,33 +116,62 @@ export function StreamingChat() {
     setIsStreaming(false);
     setSseUrl(null);
     setStreamingMessageId(null);
-    setStreamingContent('');
-    streamingContentRef.current = '';
+    resetStream();
     conversationIdRef.current = null;
   }, [streamingMessageId, updateMessage]);
 
-  // Get auth headers
-  const token = localStorage.getItem('token');
-  const tenantId = currentTenant?.id || 'default-tenant';
-  
-  const headers: Record<string, string> = {
-    'X-Tenant-Id': tenantId,
-  };
-
-  // Add either JWT token or API key
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  } else {
-    headers['X-API-Key'] = 'secure_password'; // Fallback to default API key
-  }
+  // Without an event id to resume from, a reconnect regenerates the answer from the first token
+  const handleOpen = useCallback(({ attempt, resumed }: SSEOpenInfo) => {
+    if (attempt > 0 && !resumed) {
+      resetStream();
+    }
+  }, []);
 
-  const { isConnected } = useSSE(sseUrl, {
+  const { state: connectionState, reconnectAttempt } = useSSE(sseUrl, {
     onMessage: handleMessage,
+    onOpen: handleOpen,
     onComplete: handleComplete,
     onError: handleError,
-    headers: headers,
   });
 
+  const connectionLabel: Record<SSEConnectionState, string> = {
+    idle: 'Connecting...',
+    connecting: 'Connecting...',
+    open: 'Streaming tokens...',
+    reconnecting: `Connection lost, reconnecting (attempt ${reconnectAttempt})...`,
+    closed: 'Finishing...',
+    failed: 'Connection failed',
+  };
+
+  // Adds an empty answer under the question that will be filled by streaming
+  const startStream = (conversation: Conversation, userMessage: ChatMessageType) => {
+    const assistantMessageId = generateId();
+    const assistantMessage: ChatMessageType = {
+      id: assistantMessageId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isLoading: true,
+      parentId: userMessage.id,
+    };
+    addMessage(conversation.id, assistantMessage);
+    setStreamingMessageId(assistantMessageId);
+    
+    // Store conversation ID and reset streaming content
+    conversationIdRef.current = conversation.id;
+    resetStream();
+
+    // Start streaming
+    setIsStreaming(true);
+    setSseUrl(
+      ragService.getAskStreamPath({
+        question: userMessage.content,
+        topK: resolveChatSettings(chatSettings[conversation.tenantId], conversation.settings).streamingTopK,
+        ...getRetrievalScope(useAppStore.getState().documents, conversation.tenantId, conversation),
+      })
+    );
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
 
@@ -125,35 +191,45 @@ export function StreamingChat() {
       timestamp: new Date(),
     };
     addMessage(conversation.id, userMessage);
+    startStream(conversation, userMessage);
+    
+    // Clear input
+    setQuestion('');
+  };
 
-    // Add empty assistant message that will be filled by streaming
-    const assistantMessageId = generateId();
-    const assistantMessage: ChatMessageType = {
-      id: assistantMessageId,
-      role: 'assistant',
-      content: '',
+  // An edited question is a sibling of the original
+  const handleEdit = (original: ChatMessageType, content: string) => {
+    if (isStreaming || !currentConversation) return;
+    const userMessage: ChatMessageType = {
+      id: generateId(),
+      role: 'user',
+      content,
       timestamp: new Date(),
-      isLoading: true,
+      parentId: original.parentId ?? null,
     };
-    addMessage(conversation.id, assistantMessage);
-    setStreamingMessageId(assistantMessageId);
-    
-    // Store conversation ID and reset streaming content
-    conversationIdRef.current = conversation.id;
-    setStreamingContent('');
-    streamingContentRef.current = '';
+    addMessage(currentConversation.id, userMessage);
+    startStream(currentConversation, userMessage);
+  };
 
-    // Start streaming
-    setIsStreaming(true);
-    const params = new URLSearchParams({
-      question: question.trim(),
-      topK: '5',
-    });
-    const url = `/api/v1/ask/stream?${params}`;
-    setSseUrl(url);
-    
-    // Clear input
-    setQuestion('');
+  const handleRegenerate = (answer: ChatMessageType) => {
+    if (isStreaming || !currentConversation) return;
+    const userMessage = currentConversation.messages.find((m) => m.id === answer.parentId);
+    if (userMessage?.role !== 'user') return;
+    startStream(currentConversation, userMessage);
+  };
+
+  // Attachments belong to a conversation, so attaching starts one if needed
+  const handleAttach = () => {
+    if (!currentTenant) return;
+    if (!currentConversation) createConversation(currentTenant.id);
+    setShowFileUpload(true);
+  };
+
+  // The filter is stored on the conversation, so picking documents starts one if needed
+  const handleFilterChange = (documentIds: string[]) => {
+    if (!currentTenant) return;
+    const conversation = currentConversation ?? createConversation(currentTenant.id);
+    setConversationDocumentFilter(conversation.id, documentIds);
   };
 
   const handleStop = () => {
@@ -162,22 +238,38 @@ export function StreamingChat() {
     if (streamingMessageId && conversationIdRef.current) {
       // Save current streaming content to store using ref
       updateMessage(conversationIdRef.current, streamingMessageId, {
-        content: streamingContentRef.current,
+        ...answerWithCitations(),
         isLoading: false,
+        cancelled: true,
       });
     }
     setStreamingMessageId(null);
-    setStreamingContent('');
-    streamingContentRef.current = '';
+    resetStream();
     conversationIdRef.current = null;
   };
 
-  const messages = currentConversation?.messages || [];
+  // Switching conversation or tenant (or leaving the view) stops the running stream
+  const stopRef = useRef(handleStop);
+  stopRef.current = handleStop;
+
+  useEffect(() => {
+    if (conversationIdRef.current && conversationIdRef.current !== currentConversation?.id) {
+      stopRef.current();
+    }
+  }, [currentConversation?.id]);
+
+  useEffect(() => {
+    return () => {
+      if (conversationIdRef.current) stopRef.current();
+    };
+  }, [currentTenant?.id]);
+
+  const messages = currentConversation ? getActivePath(currentConversation) : [];
   
   // For display: replace streaming message content with live streaming content
   const displayMessages = messages.map(msg => {
     if (msg.id === streamingMessageId && isStreaming) {
-      return { ...msg, content: streamingContent };
+      return { ...msg, content: streamingContent, retrievedSources: streamingSources };
     }
     return msg;
   });
@@ -185,13 +277,16 @@ export function StreamingChat() {
   return (
     <div className="flex-1 flex flex-col h-full">
       {/* Header */}
-      <div className="flex-shrink-0 border-b border-gray-200 bg-white px-6 py-4">
-        <h2 className="text-xl font-bold text-gray-900">
-          ⚡ Streaming RAG Chat
-        </h2>
-        <p className="text-sm text-gray-600 mt-1">
-          Token-by-token streaming with Server-Sent Events
-        </p>
+      <div className="flex-shrink-0 flex items-start justify-between gap-4 border-b border-gray-200 bg-white px-6 py-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">
+            ⚡ Streaming RAG Chat
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Token-by-token streaming with Server-Sent Events
+          </p>
+        </div>
+        {currentTenant && <ChatSettingsBadge mode="streaming" disabled={isStreaming} />}
       </div>
 
       {/* Messages area */}
@@ -203,27 +298,40 @@ export function StreamingChat() {
               <p className="text-gray-600">
                 Ask questions and watch responses stream in real-time with lower perceived latency.
               </p>
-              <div className="flex flex-wrap gap-2 justify-center">
-                <button
-                  onClick={() => setQuestion('What is RAG?')}
-                  className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
-                >
-                  What is RAG?
-                </button>
-                <button
-                  onClick={() => setQuestion('How does streaming work?')}
-                  className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
-                >
-                  How does streaming work?
-                </button>
-              </div>
+              <TemplateSuggestions onSelect={setQuestion} />
             </div>
           </div>
         ) : (
           <div className="pb-4">
-            {displayMessages.map((message) => (
-              <ChatMessage key={message.id} message={message} />
-            ))}
+            {displayMessages.map((message, idx) => {
+              const siblings = currentConversation ? getSiblings(currentConversation, message) : [];
+              return (
+                <ChatMessage
+                  key={message.id}
+                  message={message}
+                  question={displayMessages.slice(0, idx).reverse().find((m) => m.role === 'user')?.content}
+                  branch={
+                    siblings.length > 1 && !isStreaming
+                      ? {
+                          index: siblings.findIndex((m) => m.id === message.id),
+                          count: siblings.length,
+                          onSelect: (i) => selectBranch(currentConversation!.id, siblings[i].id),
+                        }
+                      : undefined
+                  }
+                  onEdit={
+                    message.role === 'user' && !isStreaming
+                      ? (content) => handleEdit(message, content)
+                      : undefined
+                  }
+                  onRegenerate={
+                    message.role === 'assistant' && !isStreaming && displayMessages[idx - 1]?.role === 'user'
+                      ? () => handleRegenerate(message)
+                      : undefined
+                  }
+                />
+              );
+            })}
             <div ref={messagesEndRef} />
           </div>
         )}
@@ -231,10 +339,27 @@ export function StreamingChat() {
 
       {/* Streaming status indicator */}
       {isStreaming && (
-        <div className="flex-shrink-0 px-6 py-2 bg-blue-50 border-t border-blue-100">
-          <div className="flex items-center gap-2 text-sm text-blue-700">
-            <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-            <span>{isConnected ? 'Streaming tokens...' : 'Connecting...'}</span>
+        <div
+          className={cn(
+            'flex-shrink-0 px-6 py-2 border-t',
+            connectionState === 'reconnecting'
+              ? 'bg-amber-50 border-amber-100'
+              : 'bg-blue-50 border-blue-100'
+          )}
+        >
+          <div
+            className={cn(
+              'flex items-center gap-2 text-sm',
+              connectionState === 'reconnecting' ? 'text-amber-700' : 'text-blue-700'
+            )}
+          >
+            <div
+              className={cn(
+                'w-2 h-2 rounded-full animate-pulse',
+                connectionState === 'reconnecting' ? 'bg-amber-500' : 'bg-blue-600'
+              )}
+            ></div>
+            <span>{connectionLabel[connectionState]}</span>
           </div>
         </div>
       )}
@@ -242,16 +367,35 @@ export function StreamingChat() {
       {/* Input area */}
       <div className="flex-shrink-0 border-t border-gray-200 bg-white px-6 py-4">
         <div className="max-w-4xl mx-auto">
+          <RetryNotice tenantId={currentTenant?.id} />
+          {currentConversation && <ConversationAttachments conversationId={currentConversation.id} />}
+          {currentTenant && (
+            <DocumentFilterChips
+              tenantId={currentTenant.id}
+              selected={currentConversation?.documentFilter ?? []}
+              onChange={handleFilterChange}
+              disabled={isStreaming}
+            />
+          )}
           <form onSubmit={handleSubmit}>
             <div className="flex items-end gap-3">
               <button
                 type="button"
-                onClick={() => setShowFileUpload(!showFileUpload)}
+                onClick={handleAttach}
                 className="flex-shrink-0 p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
-                title="Upload file"
+                title="Attach files to this conversation"
               >
                 <Paperclip className="w-5 h-5" />
               </button>
+              {currentTenant && (
+                <DocumentFilterPicker
+                  tenantId={currentTenant.id}
+                  conversationId={currentConversation?.id}
+                  selected={currentConversation?.documentFilter ?? []}
+                  onChange={handleFilterChange}
+                  disabled={isStreaming}
+                />
+              )}
 
               <div className="flex-1 relative">
                 <input
@@ -293,8 +437,11 @@ export function StreamingChat() {
       </div>
 
       {/* File upload modal */}
-      {showFileUpload && (
-        <FileUpload onClose={() => setShowFileUpload(false)} />
+      {showFileUpload && currentConversation && (
+        <FileUpload
+          conversationId={currentConversation.id}
+          onClose={() => setShowFileUpload(false)}
+        />
       )}
     </div>
   );
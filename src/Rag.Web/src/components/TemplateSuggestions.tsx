@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { useAppStore } from '@/store/app-store';
+import { extractTemplateVariables, fillTemplate, getPromptLibrary } from '@/lib/prompt-templates';
+import { PromptTemplate } from '@/types';
+import { PromptLibraryPanel } from './PromptLibraryPanel';
+
+interface Props {
+  /** Puts the question in the composer */
+  onSelect: (question: string) => void;
+}
+
+/**
+ * The workspace's question templates for the empty chat. Templates with {variables}
+ * ask for their values first.
+ */
+export const TemplateSuggestions: React.FC<Props> = ({ onSelect }) => {
+  const { currentTenant, promptLibraries } = useAppStore();
+  const [filling, setFilling] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [showLibrary, setShowLibrary] = useState(false);
+
+  const questions = getPromptLibrary(promptLibraries, currentTenant?.id).filter((t) => t.kind === 'question');
+  const variables = filling ? extractTemplateVariables(filling.text) : [];
+  const complete = variables.every((name) => values[name]?.trim());
+
+  const handlePick = (template: PromptTemplate) => {
+    if (extractTemplateVariables(template.text).length === 0) {
+      onSelect(template.text);
+      return;
+    }
+    setFilling(template);
+    setValues({});
+  };
+
+  const handleUse = () => {
+    if (!filling || !complete) return;
+    onSelect(fillTemplate(filling.text, values));
+    setFilling(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {filling ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUse();
+          }}
+          className="p-4 bg-white border border-gray-200 rounded-lg text-left space-y-2"
+        >
+          <div className="text-sm font-medium text-gray-900">{filling.name}</div>
+          <p className="text-xs text-gray-500">{filling.text}</p>
+          {variables.map((name, idx) => (
+            <label key={name} className="block text-sm">
+              <span className="block text-xs text-gray-600 mb-1">{name}</span>
+              <input
+                type="text"
+                value={values[name] ?? ''}
+                onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                autoFocus={idx === 0}
+              />
+            </label>
+          ))}
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              type="button"
+              onClick={() => setFilling(null)}
+              className="px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!complete}
+              className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              Use template
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2 justify-center">
+          {questions.map((template) => (
+            <button
+              key={template.id}
+              onClick={() => handlePick(template)}
+              className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+              title={template.text}
+            >
+              {template.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowLibrary(true)}
+        className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-primary-700"
+      >
+        <BookOpen className="w-3 h-3" />
+        Manage templates
+      </button>
+
+      {showLibrary && <PromptLibraryPanel onClose={() => setShowLibrary(false)} />}
+    </div>
+  );
+};
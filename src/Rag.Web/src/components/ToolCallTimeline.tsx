@@ -0,0 +1,90 @@
+import React from 'react';
+import { Wrench, Loader2, Check, AlertCircle, X } from 'lucide-react';
+import { ToolCall } from '@/types';
+import { cn, formatDuration } from '@/lib/utils';
+
+interface Props {
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Tool calls in the order the agent made them. Calls received through the agent
+ * stream carry a status and update in place as they start and finish.
+ */
+export const ToolCallTimeline: React.FC<Props> = ({ toolCalls }) => {
+  const running = toolCalls.filter((call) => call.status === 'running').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Wrench className="w-4 h-4" />
+        <span>Tools Used ({toolCalls.length})</span>
+        {running > 0 && (
+          <span className="text-xs font-normal text-primary-600">{running} running</span>
+        )}
+      </div>
+      <ol className="relative border-l border-gray-200 ml-2 space-y-2">
+        {toolCalls.map((toolCall, idx) => {
+          const status = toolCall.status ?? (toolCall.error ? 'error' : 'success');
+          return (
+            <li key={toolCall.callId ?? idx} className="ml-4">
+              <span
+                className={cn(
+                  'absolute -left-2 mt-3 flex items-center justify-center w-4 h-4 rounded-full ring-4 ring-white',
+                  status === 'running' && 'bg-primary-100',
+                  status === 'success' && 'bg-green-100',
+                  status === 'error' && 'bg-red-100',
+                  status === 'cancelled' && 'bg-gray-200'
+                )}
+              >
+                {status === 'running' && <Loader2 className="w-3 h-3 text-primary-600 animate-spin" />}
+                {status === 'success' && <Check className="w-3 h-3 text-green-600" />}
+                {status === 'error' && <AlertCircle className="w-3 h-3 text-red-600" />}
+                {status === 'cancelled' && <X className="w-3 h-3 text-gray-500" />}
+              </span>
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-primary-700">{toolCall.toolName}</span>
+                  <span className="text-xs text-gray-500">
+                    {status === 'running' && 'Running...'}
+                    {status === 'error' && <span className="text-red-600">Error</span>}
+                    {status === 'cancelled' && 'Cancelled'}
+                    {status === 'success' &&
+                      toolCall.durationMs !== undefined &&
+                      formatDuration(toolCall.durationMs)}
+                  </span>
+                </div>
+                {toolCall.reasoningTrace && (
+                  <p className="text-gray-600 mb-2">{toolCall.reasoningTrace}</p>
+                )}
+                <details className="text-xs text-gray-500">
+                  <summary className="cursor-pointer hover:text-gray-700">
+                    View arguments
+                  </summary>
+                  <pre className="mt-2 p-2 bg-gray-100 rounded overflow-x-auto">
+                    {JSON.stringify(toolCall.arguments, null, 2)}
+                  </pre>
+                </details>
+                {(toolCall.result || toolCall.error) && (
+                  <details className="text-xs text-gray-500 mt-1">
+                    <summary className="cursor-pointer hover:text-gray-700">
+                      {toolCall.error ? 'View error' : 'View result'}
+                    </summary>
+                    <pre
+                      className={cn(
+                        'mt-2 p-2 rounded overflow-x-auto whitespace-pre-wrap',
+                        toolCall.error ? 'bg-red-50 text-red-700' : 'bg-gray-100'
+                      )}
+                    >
+                      {toolCall.error ?? toolCall.result}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { useAppStore } from '@/store/app-store';
+import { resolveChatSettings } from '@/lib/chat-settings';
+import { ChatSettings } from '@/types';
+
+export interface ChatSettingsState {
+  /** Defaults of the current workspace */
+  workspace: ChatSettings;
+  /** What the current conversation runs with */
+  settings: ChatSettings;
+  /** True when the conversation overrides any workspace default */
+  customized: boolean;
+}
+
+/**
+ * Settings of the current conversation, falling back to the workspace defaults.
+ */
+export function useChatSettings(): ChatSettingsState {
+  const { currentConversation, currentTenant, chatSettings } = useAppStore();
+  const workspace = resolveChatSettings(currentTenant ? chatSettings[currentTenant.id] : undefined, undefined);
+  const overrides = currentConversation?.settings;
+  return {
+    workspace,
+    settings: resolveChatSettings(workspace, overrides),
+    customized: !!overrides && Object.keys(overrides).length > 0,
+  };
+}
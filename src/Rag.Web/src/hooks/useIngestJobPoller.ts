@@ -0,0 +1,148 @@
+import { useEffect } from 'react';
+import { ragService } from '@/services/rag-service';
+import { useAppStore } from '@/store/app-store';
+import { isNotFound, isRequestCancelled } from '@/lib/api-client';
+import { notify } from '@/lib/notifications';
+import { IngestJob, IngestJobState, IngestJobStatusResponse } from '@/types';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Jobs that run at least this long get a browser notification when they finish
+const LONG_JOB_MS = 30000;
+
+const JOB_LOST_ERROR = 'The server lost track of this ingestion; re-ingest the document';
+
+export const isJobActive = (job: IngestJob) =>
+  job.state === 'queued' || job.state === 'processing';
+
+export const createIngestJob = (
+  jobId: string,
+  documentId: string,
+  tenantId: string,
+  fileName: string
+): IngestJob => ({
+  jobId,
+  documentId,
+  tenantId,
+  fileName,
+  state: 'queued',
+  progress: 0,
+  startedAt: Date.now(),
+});
+
+/**
+ * Maps Hangfire state names (Enqueued, Scheduled, Deleted, ...) onto the client states.
+ */
+function normalizeState(state: string): IngestJobState {
+  switch (state.toLowerCase()) {
+    case 'enqueued':
+    case 'scheduled':
+    case 'awaiting':
+    case 'queued':
+      return 'queued';
+    case 'processing':
+      return 'processing';
+    case 'succeeded':
+      return 'succeeded';
+    default:
+      return 'failed';
+  }
+}
+
+function applyStatus(job: IngestJob, status: IngestJobStatusResponse) {
+  const { updateIngestJob, updateDocument } = useAppStore.getState();
+  const state = normalizeState(status.state);
+  const finished = state === 'succeeded' || state === 'failed';
+
+  const updates: Partial<IngestJob> = {
+    state,
+    progress: state === 'succeeded' ? 100 : status.progress ?? job.progress,
+    pagesProcessed: status.pagesProcessed,
+    totalPages: status.totalPages,
+    chunksCreated: status.chunksCreated,
+    usedOcr: status.usedOcr ?? job.usedOcr,
+    error: status.error,
+  };
+  if (finished) {
+    updates.completedAt = Date.now();
+  }
+  updateIngestJob(job.jobId, updates);
+
+  if (!finished) return;
+
+  updateDocument(
+    job.documentId,
+    state === 'succeeded'
+      ? { status: 'ready', error: undefined, chunksCreated: status.chunksCreated }
+      : { status: 'error', error: status.error ?? 'Ingestion failed' },
+    job.tenantId
+  );
+
+  const tookMs = updates.completedAt! - job.startedAt;
+  if (updates.usedOcr || tookMs >= LONG_JOB_MS) {
+    notify(
+      state === 'succeeded' ? 'Document ready' : 'Document ingestion failed',
+      state === 'succeeded'
+        ? `${job.fileName} was ingested (${status.chunksCreated ?? 0} chunks).`
+        : `${job.fileName}: ${status.error ?? 'ingestion failed'}`
+    );
+  }
+}
+
+async function pollJob(job: IngestJob, signal: AbortSignal) {
+  try {
+    const status = await ragService.getJobStatus(job.jobId, signal);
+    applyStatus(job, status);
+  } catch (error) {
+    if (isRequestCancelled(error)) return;
+    if (isNotFound(error)) {
+      // Jobs are kept in memory, so after an API restart the job (and the ingestion) is
+      // gone; a job of another tenant is reported the same way. Either way the document
+      // may not be searchable, so ask for it to be ingested again.
+      console.warn('[Jobs] Status unavailable for', job.jobId);
+      const { updateIngestJob, updateDocument } = useAppStore.getState();
+      updateIngestJob(job.jobId, { state: 'unavailable', completedAt: Date.now() });
+      updateDocument(job.documentId, { status: 'error', error: JOB_LOST_ERROR }, job.tenantId);
+      return;
+    }
+    // Transient failure: the next poll tries again
+    console.warn('[Jobs] Status check failed for', job.jobId, error);
+  }
+}
+
+/**
+ * Polls the status of active ingestion jobs in the current tenant and moves their
+ * documents to ready or error when they finish. Mount once, near the app root.
+ */
+export function useIngestJobPoller(): void {
+  const tenantId = useAppStore((state) => state.currentTenant?.id);
+  const activeKey = useAppStore((state) =>
+    state.ingestJobs
+      .filter((job) => job.tenantId === tenantId && isJobActive(job))
+      .map((job) => job.jobId)
+      .join(',')
+  );
+
+  useEffect(() => {
+    if (!activeKey) return;
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const jobs = useAppStore
+        .getState()
+        .ingestJobs.filter((job) => job.tenantId === tenantId && isJobActive(job));
+      await Promise.all(jobs.map((job) => pollJob(job, controller.signal)));
+      if (!controller.signal.aborted) {
+        timer = setTimeout(() => void poll(), POLL_INTERVAL_MS);
+      }
+    };
+    void poll();
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [tenantId, activeKey]);
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+
+export interface RetryStatus {
+  /** True when the wait is caused by a 429 from the rate limiter */
+  rateLimited: boolean;
+  secondsLeft: number;
+  attempt?: number;
+}
+
+interface PendingRetry {
+  retryAt: number;
+  rateLimited: boolean;
+  attempt?: number;
+}
+
+/**
+ * Tracks the next retry or throttle window for a tenant, for countdowns such as
+ * "Rate limited, retrying in 12s". Returns null when nothing is pending.
+ */
+export function useRetryStatus(tenantId: string | null | undefined): RetryStatus | null {
+  const [pending, setPending] = useState<PendingRetry | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const throttledUntil = apiClient.getThrottledUntil(tenantId ?? null);
+    setPending(throttledUntil ? { retryAt: throttledUntil, rateLimited: true } : null);
+
+    return apiClient.subscribe((event) => {
+      if (tenantId && event.tenantId !== tenantId) return;
+
+      if (event.type === 'throttled') {
+        setPending({ retryAt: event.until, rateLimited: true });
+      } else if (event.type === 'retry') {
+        setPending((current) => ({
+          retryAt: Math.max(event.retryAt, current?.retryAt ?? 0),
+          rateLimited: event.status === 429 || (current?.rateLimited ?? false),
+          attempt: event.attempt,
+        }));
+      } else if (event.type === 'throttle_cleared') {
+        setPending(null);
+      }
+    });
+  }, [tenantId]);
+
+  useEffect(() => {
+    if (!pending) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= pending.retryAt) {
+        setPending(null);
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [pending]);
+
+  if (!pending || now >= pending.retryAt) return null;
+
+  return {
+    rateLimited: pending.rateLimited,
+    secondsLeft: Math.ceil((pending.retryAt - now) / 1000),
+    attempt: pending.attempt,
+  };
+}
@@ -1,125 +1,110 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { apiClient } from '@/lib/api-client';
+import {
+  SSEConnection,
+  SSEConnectionState,
+  SSEEvent,
+  SSEOpenInfo,
+  SSEReconnectOptions,
+} from '@/lib/sse';
 
 interface UseSSEOptions {
-  onMessage: (data: any) => void;
+  onMessage: (data: any, event: SSEEvent) => void;
+  /** Handlers for named events (`event: <name>`); unnamed events go to onMessage */
+  onEvent?: Record<string, (data: any, event: SSEEvent) => void>;
+  onOpen?: (info: SSEOpenInfo) => void;
   onError?: (error: Error) => void;
   onComplete?: () => void;
+  /** Extra headers; auth, tenant and base URL come from apiClient */
   headers?: Record<string, string>;
+  reconnect?: Partial<SSEReconnectOptions>;
+  heartbeatTimeoutMs?: number;
+}
+
+function parseData(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
 }
 
 /**
  * React hook for Server-Sent Events (SSE) streaming using fetch (Phase 8).
- * Uses fetch instead of EventSource to support custom headers for authentication.
- * 
- * @param url - The SSE endpoint URL (set to null to close connection)
+ * Requests go through apiClient.stream, so they authenticate exactly like the
+ * axios calls and pick up token or tenant changes on reconnect.
+ * Dropped connections are retried with backoff by SSEConnection alone (apiClient
+ * retries are off) and resumed with Last-Event-ID when the server sent event ids.
+ *
+ * @param url - The SSE endpoint path, e.g. /api/v1/ask/stream?... (set to null to close connection)
  * @param options - Callbacks for message, error, and completion events, plus headers
- * @returns Connection state and error
+ * @returns Connection state, reconnect attempt and error
  */
 export function useSSE(url: string | null, options: UseSSEOptions) {
-  const [isConnected, setIsConnected] = useState(false);
+  const [state, setState] = useState<SSEConnectionState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [error, setError] = useState<Error | null>(null);
 
+  // Always call the latest callbacks without reconnecting on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
   useEffect(() => {
     if (!url) return;
 
-    let abortController = new AbortController();
-    let isMounted = true;
-
-    const startStreaming = async () => {
-      try {
-        console.log('[SSE] Connecting to:', url);
-        
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'Accept': 'text/event-stream',
-            'Cache-Control': 'no-cache',
-            ...options.headers,
-          },
-          signal: abortController.signal,
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`HTTP ${response.status}: ${errorText}`);
-        }
-
-        if (!response.body) {
-          throw new Error('Response body is null');
-        }
-
-        console.log('[SSE] Connection opened');
-        setIsConnected(true);
+    setError(null);
+
+    const connection = new SSEConnection({
+      url,
+      headers: () => optionsRef.current.headers ?? {},
+      reconnect: optionsRef.current.reconnect,
+      heartbeatTimeoutMs: optionsRef.current.heartbeatTimeoutMs,
+      transport: (path, init) => apiClient.stream(path, { ...init, retry: false }),
+      onStateChange: (next, attempt) => {
+        setState(next);
+        setReconnectAttempt(attempt);
+      },
+      onOpen: (info) => {
         setError(null);
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-
-        while (isMounted) {
-          const { done, value } = await reader.read();
-          
-          if (done) {
-            console.log('[SSE] Stream ended');
-            break;
-          }
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const dataStr = line.slice(6);
-              try {
-                const data = JSON.parse(dataStr);
-                
-                if (data.done) {
-                  console.log('[SSE] Stream complete');
-                  options.onComplete?.();
-                  setIsConnected(false);
-                  return;
-                } else if (data.error) {
-                  const error = new Error(data.error);
-                  console.error('[SSE] Server error:', error);
-                  setError(error);
-                  options.onError?.(error);
-                  setIsConnected(false);
-                  return;
-                } else {
-                  options.onMessage(data);
-                }
-              } catch (err) {
-                console.error('[SSE] Failed to parse message:', err);
-              }
-            }
-          }
+        optionsRef.current.onOpen?.(info);
+      },
+      onError: (err, willRetry) => {
+        setError(err);
+        if (!willRetry) {
+          optionsRef.current.onError?.(err);
         }
+      },
+      onEvent: (event) => {
+        const data = parseData(event.data);
 
-        setIsConnected(false);
-      } catch (err) {
-        if (err instanceof Error && err.name === 'AbortError') {
-          console.log('[SSE] Connection aborted');
+        if (event.event !== 'message') {
+          optionsRef.current.onEvent?.[event.event]?.(data, event);
           return;
         }
-        
-        const error = err instanceof Error ? err : new Error('Unknown SSE error');
-        console.error('[SSE] Error:', error);
-        setError(error);
-        setIsConnected(false);
-        options.onError?.(error);
-      }
-    };
 
-    startStreaming();
+        if (data?.done) {
+          console.log('[SSE] Stream complete');
+          connection.close();
+          optionsRef.current.onComplete?.();
+        } else if (data?.error) {
+          const serverError = new Error(data.error);
+          console.error('[SSE] Server error:', serverError);
+          connection.close('failed');
+          setError(serverError);
+          optionsRef.current.onError?.(serverError);
+        } else {
+          optionsRef.current.onMessage(data, event);
+        }
+      },
+    });
+
+    connection.open();
 
     return () => {
-      console.log('[SSE] Cleanup - aborting connection');
-      isMounted = false;
-      abortController.abort();
-      setIsConnected(false);
+      console.log('[SSE] Cleanup - closing connection');
+      connection.close();
     };
   }, [url]);
 
-  return { isConnected, error };
+  return { state, isConnected: state === 'open', reconnectAttempt, error };
 }
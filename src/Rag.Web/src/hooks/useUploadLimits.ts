@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { ragService } from '@/services/rag-service';
+import { DEFAULT_UPLOAD_LIMITS, UploadLimits, toUploadLimits } from '@/lib/upload-validation';
+
+// Limits are server-wide, so they are loaded once per session
+let limitsPromise: Promise<UploadLimits> | null = null;
+
+function loadUploadLimits(): Promise<UploadLimits> {
+  if (!limitsPromise) {
+    limitsPromise = ragService
+      .getUploadLimits()
+      .then(toUploadLimits)
+      .catch((error) => {
+        console.warn('[Upload] Could not load upload limits, using the defaults:', error);
+        limitsPromise = null;
+        return DEFAULT_UPLOAD_LIMITS;
+      });
+  }
+  return limitsPromise;
+}
+
+/**
+ * The server's upload limits; the ValidationSettings defaults until they have loaded.
+ */
+export function useUploadLimits(): UploadLimits {
+  const [limits, setLimits] = useState(DEFAULT_UPLOAD_LIMITS);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadUploadLimits().then((loaded) => {
+      if (!cancelled) setLimits(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return limits;
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isRequestCancelled } from '@/lib/api-client';
+
+export type UploadItemStatus = 'pending' | 'uploading' | 'success' | 'error' | 'cancelled';
+
+export interface UploadItem {
+  key: string;
+  file: File;
+  documentId: string;
+  status: UploadItemStatus;
+  progress: number;
+  error?: string;
+}
+
+/**
+ * Uploads one item. Rejects to mark the item failed; an abort marks it cancelled.
+ */
+export type UploadTask = (
+  item: UploadItem,
+  signal: AbortSignal,
+  onProgress: (progress: number) => void
+) => Promise<void>;
+
+export type UploadQueuePhase = 'idle' | 'running' | 'paused';
+
+export interface UploadQueueSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  pending: number;
+  uploading: number;
+}
+
+let itemCounter = 0;
+
+/**
+ * Runs uploads with at most `concurrency` in flight. Pausing stops new uploads from
+ * starting; uploads already in flight finish. Everything in flight is aborted on unmount.
+ */
+export function useUploadQueue(task: UploadTask, concurrency: number) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [phase, setPhase] = useState<UploadQueuePhase>('idle');
+  const controllers = useRef(new Map<string, AbortController>());
+  const taskRef = useRef(task);
+  taskRef.current = task;
+
+  useEffect(() => {
+    const inFlight = controllers.current;
+    return () => inFlight.forEach((controller) => controller.abort());
+  }, []);
+
+  const updateItem = useCallback((key: string, updates: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...updates } : item)));
+  }, []);
+
+  const startItem = useCallback(
+    (item: UploadItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.key, controller);
+      updateItem(item.key, { status: 'uploading', progress: 0, error: undefined });
+
+      taskRef
+        .current(item, controller.signal, (progress) => updateItem(item.key, { progress }))
+        .then(() => {
+          controllers.current.delete(item.key);
+          updateItem(item.key, { status: 'success', progress: 100 });
+        })
+        .catch((error) => {
+          controllers.current.delete(item.key);
+          if (isRequestCancelled(error)) {
+            updateItem(item.key, { status: 'cancelled' });
+          } else {
+            console.error('[Upload] Failed:', item.file.name, error);
+            updateItem(item.key, {
+              status: 'error',
+              error: error instanceof Error ? error.message : 'Upload failed',
+            });
+          }
+        });
+    },
+    [updateItem]
+  );
+
+  // Fill free slots whenever an item finishes or the queue is (re)started
+  useEffect(() => {
+    if (phase !== 'running') return;
+
+    const pending = items.filter(
+      (item) => item.status === 'pending' && !controllers.current.has(item.key)
+    );
+    if (pending.length === 0 && controllers.current.size === 0) {
+      setPhase('idle');
+      return;
+    }
+
+    const slots = concurrency - controllers.current.size;
+    pending.slice(0, Math.max(0, slots)).forEach(startItem);
+  }, [items, phase, concurrency, startItem]);
+
+  const addFiles = useCallback(
+    (files: File[], deriveId: (file: File) => string): UploadItem[] => {
+      const added = files.map((file) => ({
+        key: `upload-${++itemCounter}`,
+        file,
+        documentId: deriveId(file),
+        status: 'pending' as const,
+        progress: 0,
+      }));
+      setItems((prev) => [...prev, ...added]);
+      return added;
+    },
+    []
+  );
+
+  const removeItem = useCallback((key: string) => {
+    setItems((prev) => prev.filter((item) => item.key !== key || item.status === 'uploading'));
+  }, []);
+
+  const start = useCallback(() => setPhase('running'), []);
+  const pause = useCallback(() => setPhase((p) => (p === 'running' ? 'paused' : p)), []);
+
+  const cancelAll = useCallback(() => {
+    setPhase('idle');
+    controllers.current.forEach((controller) => controller.abort());
+    setItems((prev) =>
+      prev.map((item) => (item.status === 'pending' ? { ...item, status: 'cancelled' } : item))
+    );
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === 'error' || item.status === 'cancelled'
+          ? { ...item, status: 'pending', progress: 0, error: undefined }
+          : item
+      )
+    );
+    setPhase('running');
+  }, []);
+
+  const summary: UploadQueueSummary = {
+    total: items.length,
+    succeeded: items.filter((item) => item.status === 'success').length,
+    failed: items.filter((item) => item.status === 'error').length,
+    cancelled: items.filter((item) => item.status === 'cancelled').length,
+    pending: items.filter((item) => item.status === 'pending').length,
+    uploading: items.filter((item) => item.status === 'uploading').length,
+  };
+
+  return {
+    items,
+    phase,
+    summary,
+    /** True while anything is uploading or the queue is running */
+    busy: phase === 'running' || summary.uploading > 0,
+    addFiles,
+    updateItem,
+    removeItem,
+    start,
+    pause,
+    resume: start,
+    cancelAll,
+    retryFailed,
+  };
+}
@@ -0,0 +1,192 @@
+import { SSEEvent, SSEParser } from '@/lib/sse';
+import {
+  AgentChatResponse,
+  AgentMetrics,
+  AgentStreamEvent,
+  AgentStreamEventType,
+  Citation,
+  ToolCall,
+} from '@/types';
+
+const EVENT_TYPES: AgentStreamEventType[] = [
+  'token',
+  'tool_start',
+  'tool_result',
+  'citation',
+  'metrics',
+  'done',
+];
+
+/**
+ * Accumulated state of an agent answer while it streams in.
+ */
+export interface AgentStreamSnapshot {
+  content: string;
+  toolCalls: ToolCall[];
+  citations: Citation[];
+  metrics?: AgentMetrics;
+  done: boolean;
+}
+
+export const emptyAgentStreamSnapshot = (): AgentStreamSnapshot => ({
+  content: '',
+  toolCalls: [],
+  citations: [],
+  done: false,
+});
+
+/**
+ * Converts a raw SSE event into a typed agent event. Unknown event names are ignored.
+ */
+export function toAgentStreamEvent(event: SSEEvent): AgentStreamEvent | null {
+  const type = event.event as AgentStreamEventType;
+  if (!EVENT_TYPES.includes(type)) {
+    console.warn('[Agent Stream] Ignoring unknown event:', event.event);
+    return null;
+  }
+
+  let payload: Record<string, any> = {};
+  if (event.data) {
+    try {
+      payload = JSON.parse(event.data);
+    } catch (err) {
+      console.error('[Agent Stream] Failed to parse event data:', err);
+      return null;
+    }
+  }
+
+  return { ...payload, type } as AgentStreamEvent;
+}
+
+/**
+ * Folds one event into the snapshot. Pure, so it can be used from React state setters.
+ */
+export function applyAgentStreamEvent(
+  snapshot: AgentStreamSnapshot,
+  event: AgentStreamEvent
+): AgentStreamSnapshot {
+  switch (event.type) {
+    case 'token':
+      return { ...snapshot, content: snapshot.content + event.token };
+
+    case 'tool_start':
+      return {
+        ...snapshot,
+        toolCalls: [
+          ...snapshot.toolCalls,
+          {
+            callId: event.callId,
+            toolName: event.toolName,
+            arguments: event.arguments ?? {},
+            reasoningTrace: event.reasoningTrace,
+            status: 'running',
+          },
+        ],
+      };
+
+    case 'tool_result':
+      return {
+        ...snapshot,
+        toolCalls: snapshot.toolCalls.map((call) =>
+          call.callId === event.callId
+            ? {
+                ...call,
+                result: event.result,
+                error: event.error,
+                durationMs: event.durationMs,
+                status: event.error ? 'error' : 'success',
+              }
+            : call
+        ),
+      };
+
+    case 'citation':
+      return { ...snapshot, citations: [...snapshot.citations, event.citation] };
+
+    case 'metrics':
+      return { ...snapshot, metrics: event.metrics };
+
+    case 'done':
+      return { ...snapshot, done: true };
+  }
+}
+
+/**
+ * Marks tool calls that never reported a result as cancelled.
+ */
+export function cancelRunningToolCalls(toolCalls: ToolCall[]): ToolCall[] {
+  return toolCalls.map((call) =>
+    call.status === 'running' ? { ...call, status: 'cancelled' } : call
+  );
+}
+
+/**
+ * Replays a blocking AgentChatResponse as stream events, for APIs without the stream endpoint.
+ */
+export function agentResponseToEvents(response: AgentChatResponse): AgentStreamEvent[] {
+  const events: AgentStreamEvent[] = [];
+
+  response.toolCalls.forEach((call, idx) => {
+    const callId = `call-${idx}`;
+    events.push({
+      type: 'tool_start',
+      callId,
+      toolName: call.toolName,
+      arguments: call.arguments,
+      reasoningTrace: call.reasoningTrace,
+    });
+    events.push({ type: 'tool_result', callId, result: call.result, error: call.error });
+  });
+
+  events.push({ type: 'token', token: response.answer });
+  response.citations?.forEach((citation) => events.push({ type: 'citation', citation }));
+  events.push({ type: 'metrics', metrics: response.metrics });
+  events.push({ type: 'done' });
+
+  return events;
+}
+
+/**
+ * Reads an agent SSE response body until the `done` event.
+ */
+export async function readAgentStream(
+  response: Response,
+  onEvent: (event: AgentStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response body is null');
+  }
+
+  let done = false;
+  const parser = new SSEParser((sseEvent) => {
+    if (done) return;
+    const event = toAgentStreamEvent(sseEvent);
+    if (!event) return;
+    if (event.type === 'done') done = true;
+    onEvent(event);
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (!done) {
+      const { done: streamEnded, value } = await reader.read();
+      if (streamEnded) {
+        parser.feed(decoder.decode());
+        parser.end();
+        break;
+      }
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    reader.releaseLock();
+    if (done) {
+      void response.body.cancel().catch(() => undefined);
+    }
+  }
+
+  if (!done) {
+    throw new Error('Agent stream ended before completion');
+  }
+}
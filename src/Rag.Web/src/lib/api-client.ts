@@ -1,16 +1,96 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  getRetryDelay,
+  parseRetryAfter,
+  sleep,
+} from './retry';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5129';
 const DEFAULT_API_KEY = import.meta.env.VITE_API_KEY || 'secure_password';
 
+export interface RequestOptions {
+  /** Aborts the request, including any pending retry or throttle wait */
+  signal?: AbortSignal;
+}
+
+export interface StreamRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+  /** False when the caller retries on its own (e.g. SSEConnection); defaults to true */
+  retry?: boolean;
+}
+
+/**
+ * Non-2xx response from a fetch-based request (streams bypass axios).
+ */
+export class ApiHttpError extends Error {
+  constructor(public readonly status: number, public readonly body: string) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = 'ApiHttpError';
+  }
+}
+
+/**
+ * Retry and throttle notifications, so the UI can show countdowns instead of generic failures.
+ */
+export type ApiClientEvent =
+  | {
+      type: 'retry';
+      method: string;
+      url: string;
+      tenantId: string;
+      attempt: number;
+      delayMs: number;
+      retryAt: number;
+      status?: number;
+    }
+  | { type: 'throttled'; tenantId: string; until: number }
+  | { type: 'throttle_cleared'; tenantId: string };
+
+type RetryableConfig = InternalAxiosRequestConfig & { retryCount?: number; authRetried?: boolean };
+
+// Requests whose 401 means "wrong credentials", not "session expired"
+const isAuthEndpoint = (url?: string) => !!url && url.includes('/api/v1/authentication/');
+
+/**
+ * True when a request failed because its AbortSignal fired (axios or fetch),
+ * so callers can tell a user cancellation apart from a real error.
+ */
+export function isRequestCancelled(error: unknown): boolean {
+  return (
+    axios.isCancel(error) ||
+    (error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError'))
+  );
+}
+
+/**
+ * True when the API answered 404, from either an axios request or a fetch stream.
+ */
+export function isNotFound(error: unknown): boolean {
+  if (error instanceof ApiHttpError) return error.status === 404;
+  return axios.isAxiosError(error) && error.response?.status === 404;
+}
+
+const NO_TENANT = '__none__';
+
 export class ApiClient {
   private client: AxiosInstance;
   private tenantId: string | null = null;
   private apiKey: string;
   private token: string | null = null;
+  private retryPolicy: RetryPolicy;
+  private throttledUntil = new Map<string, number>();
+  private listeners = new Set<(event: ApiClientEvent) => void>();
+  private unauthorizedHandler: (() => Promise<boolean>) | null = null;
+  private pendingReauth: Promise<boolean> | null = null;
 
-  constructor(apiKey: string = DEFAULT_API_KEY) {
+  constructor(apiKey: string = DEFAULT_API_KEY, retryPolicy: Partial<RetryPolicy> = {}) {
     this.apiKey = apiKey;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
     this.client = axios.create({
       baseURL: API_BASE_URL,
       timeout: 120000, // 120 seconds for agent operations (can make multiple Claude API calls)
@@ -38,20 +118,130 @@ export class ApiClient {
     return this.token;
   }
 
+  getBaseUrl(): string {
+    return API_BASE_URL;
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    return this.retryPolicy;
+  }
+
+  /**
+   * Called on a 401 from a non-auth endpoint. Resolve true once the user has
+   * signed in again to replay the failed request, or false to give up.
+   */
+  setUnauthorizedHandler(handler: (() => Promise<boolean>) | null) {
+    this.unauthorizedHandler = handler;
+  }
+
+  // Concurrent 401s share one re-login prompt
+  private reauthenticate(): Promise<boolean> {
+    if (!this.unauthorizedHandler) return Promise.resolve(false);
+    if (!this.pendingReauth) {
+      this.pendingReauth = this.unauthorizedHandler().finally(() => {
+        this.pendingReauth = null;
+      });
+    }
+    return this.pendingReauth;
+  }
+
+  /**
+   * Subscribes to retry and throttle events. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: ApiClientEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Time (epoch ms) until which requests for the tenant are held back, or null.
+   */
+  getThrottledUntil(tenantId: string | null = this.tenantId): number | null {
+    const until = this.throttledUntil.get(tenantId ?? NO_TENANT);
+    return until && until > Date.now() ? until : null;
+  }
+
+  private emit(event: ApiClientEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private throttle(tenantKey: string, retryAfterMs: number) {
+    const until = Date.now() + retryAfterMs;
+    if ((this.throttledUntil.get(tenantKey) ?? 0) >= until) return;
+    this.throttledUntil.set(tenantKey, until);
+    this.emit({ type: 'throttled', tenantId: tenantKey, until });
+  }
+
+  /**
+   * Per-tenant queue: while a tenant is throttled, its requests wait here
+   * instead of hitting the rate limiter again.
+   */
+  private async waitForTenant(tenantKey: string, signal?: AbortSignal) {
+    let until = this.throttledUntil.get(tenantKey);
+    if (until === undefined) return;
+
+    while (until !== undefined && until > Date.now()) {
+      await sleep(until - Date.now(), signal);
+      until = this.throttledUntil.get(tenantKey);
+    }
+
+    if (this.throttledUntil.delete(tenantKey)) {
+      this.emit({ type: 'throttle_cleared', tenantId: tenantKey });
+    }
+  }
+
+  /**
+   * Auth and tenant headers, shared by axios requests and fetch-based streams.
+   * Read on every call so token or tenant changes apply immediately.
+   */
+  getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    // Add JWT token if available, otherwise use API key
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    } else {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    if (this.tenantId) {
+      headers['X-Tenant-Id'] = this.tenantId;
+    }
+    return headers;
+  }
+
+  private resolveUrl(url: string): string {
+    if (/^https?:\/\//.test(url)) return url;
+    return `${API_BASE_URL.replace(/\/$/, '')}${url.startsWith('/') ? url : `/${url}`}`;
+  }
+
+  private logErrorResponse(status: number, url: string | undefined, data: unknown) {
+    console.error('[API Error]', { status, url, data });
+
+    // Handle specific error codes
+    if (status === 401) {
+      console.error('Unauthorized - check API key');
+    } else if (status === 403) {
+      console.error('Forbidden - insufficient permissions');
+    } else if (status === 429) {
+      console.error('Rate limit exceeded');
+    }
+  }
+
   private setupInterceptors() {
     // Request interceptor - add tenant header and auth token if set
     this.client.interceptors.request.use(
-      (config) => {
-        // Add JWT token if available, otherwise use API key
-        if (this.token) {
-          config.headers['Authorization'] = `Bearer ${this.token}`;
-        } else {
-          config.headers['X-API-Key'] = this.apiKey;
-        }
-
-        if (this.tenantId) {
-          config.headers['X-Tenant-Id'] = this.tenantId;
-        }
+      async (config) => {
+        await this.waitForTenant(this.tenantId ?? NO_TENANT, config.signal as AbortSignal | undefined);
+        Object.entries(this.getAuthHeaders()).forEach(([key, value]) => {
+          config.headers[key] = value;
+        });
         console.log(`[API] ${config.method?.toUpperCase()} ${config.url}`, {
           tenantId: this.tenantId,
           hasToken: !!this.token,
@@ -64,7 +254,7 @@ export class ApiClient {
       }
     );
 
-    // Response interceptor - handle errors
+    // Response interceptor - handle errors, throttling and retries
     this.client.interceptors.response.use(
       (response) => {
         console.log(`[API Response] ${response.config.url}`, {
@@ -72,56 +262,169 @@ export class ApiClient {
         });
         return response;
       },
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
         if (error.response) {
-          console.error('[API Error]', {
-            status: error.response.status,
-            url: error.config?.url,
-            data: error.response.data,
-          });
-
-          // Handle specific error codes
-          if (error.response.status === 401) {
-            console.error('Unauthorized - check API key');
-          } else if (error.response.status === 403) {
-            console.error('Forbidden - insufficient permissions');
-          } else if (error.response.status === 429) {
-            console.error('Rate limit exceeded');
-          }
+          this.logErrorResponse(error.response.status, error.config?.url, error.response.data);
         } else if (error.request) {
           console.error('[API Network Error]', error.message);
         }
-        return Promise.reject(error);
+
+        const config = error.config as RetryableConfig | undefined;
+        if (!config || isRequestCancelled(error)) {
+          return Promise.reject(error);
+        }
+
+        const status = error.response?.status;
+        if (status === 401 && !config.authRetried && !isAuthEndpoint(config.url)) {
+          if (await this.reauthenticate()) {
+            config.authRetried = true;
+            return this.client.request(config);
+          }
+          return Promise.reject(error);
+        }
+
+        const retryAfterMs = error.response
+          ? parseRetryAfter(error.response.headers['retry-after'], error.response.data)
+          : null;
+        const tenantKey = (config.headers['X-Tenant-Id'] as string | undefined) ?? NO_TENANT;
+        if (status === 429 && retryAfterMs != null) {
+          this.throttle(tenantKey, retryAfterMs);
+        }
+
+        const attempt = config.retryCount ?? 0;
+        const delayMs = getRetryDelay(this.retryPolicy, {
+          method: config.method ?? 'get',
+          status,
+          retryAfterMs,
+          attempt,
+        });
+        if (delayMs === null) {
+          return Promise.reject(error);
+        }
+
+        config.retryCount = attempt + 1;
+        this.emit({
+          type: 'retry',
+          method: (config.method ?? 'get').toUpperCase(),
+          url: config.url ?? '',
+          tenantId: tenantKey,
+          attempt: config.retryCount,
+          delayMs,
+          retryAt: Date.now() + delayMs,
+          status,
+        });
+        console.warn(`[API Retry] ${config.url} in ${delayMs}ms (attempt ${config.retryCount})`);
+
+        await sleep(delayMs, config.signal as AbortSignal | undefined);
+        return this.client.request(config);
       }
     );
   }
 
   // Generic HTTP methods
-  async get<T>(url: string, params?: any): Promise<T> {
-    const response = await this.client.get<T>(url, { params });
+  async get<T>(url: string, params?: any, options: RequestOptions = {}): Promise<T> {
+    const response = await this.client.get<T>(url, { params, signal: options.signal });
     return response.data;
   }
 
-  async post<T>(url: string, data?: any): Promise<T> {
-    const response = await this.client.post<T>(url, data);
+  async post<T>(url: string, data?: any, options: RequestOptions = {}): Promise<T> {
+    const response = await this.client.post<T>(url, data, { signal: options.signal });
     return response.data;
   }
 
-  async put<T>(url: string, data?: any): Promise<T> {
-    const response = await this.client.put<T>(url, data);
+  async put<T>(url: string, data?: any, options: RequestOptions = {}): Promise<T> {
+    const response = await this.client.put<T>(url, data, { signal: options.signal });
     return response.data;
   }
 
-  async delete<T>(url: string): Promise<T> {
-    const response = await this.client.delete<T>(url);
+  async delete<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const response = await this.client.delete<T>(url, { signal: options.signal });
     return response.data;
   }
 
+  /**
+   * Opens a streaming request (e.g. Server-Sent Events) with the same base URL,
+   * auth and tenant headers, throttling and retry policy as the axios methods.
+   * Resolves once headers arrive; non-2xx responses are logged and rejected
+   * with ApiHttpError. With `retry: false` only the 401 re-authentication is
+   * retried, so callers with their own backoff do not multiply attempts.
+   */
+  async stream(url: string, init: StreamRequestInit = {}): Promise<Response> {
+    const method = init.method ?? 'GET';
+    const tenantKey = this.tenantId ?? NO_TENANT;
+    let authRetried = false;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForTenant(tenantKey, init.signal);
+      console.log(`[API] ${method} ${url} (stream)`, {
+        tenantId: this.tenantId,
+        hasToken: !!this.token,
+      });
+
+      let error: Error;
+      let status: number | undefined;
+      let retryAfterMs: number | null = null;
+      try {
+        const response = await fetch(this.resolveUrl(url), {
+          method,
+          headers: { ...this.getAuthHeaders(), ...init.headers },
+          body: init.body,
+          signal: init.signal,
+        });
+        if (response.ok) {
+          return response;
+        }
+
+        const body = await response.text();
+        this.logErrorResponse(response.status, url, body);
+        status = response.status;
+        retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'), body);
+        error = new ApiHttpError(response.status, body);
+      } catch (err) {
+        if (isRequestCancelled(err) || init.signal?.aborted) throw err;
+        console.error('[API Network Error]', err instanceof Error ? err.message : err);
+        error = err instanceof Error ? err : new Error(String(err));
+      }
+
+      if (status === 401 && !authRetried && !isAuthEndpoint(url)) {
+        if (!(await this.reauthenticate())) throw error;
+        authRetried = true;
+        attempt--;
+        continue;
+      }
+
+      if (status === 429 && retryAfterMs != null) {
+        this.throttle(tenantKey, retryAfterMs);
+      }
+
+      const delayMs = init.retry === false
+        ? null
+        : getRetryDelay(this.retryPolicy, { method, status, retryAfterMs, attempt });
+      if (delayMs === null) {
+        throw error;
+      }
+
+      this.emit({
+        type: 'retry',
+        method,
+        url,
+        tenantId: tenantKey,
+        attempt: attempt + 1,
+        delayMs,
+        retryAt: Date.now() + delayMs,
+        status,
+      });
+      console.warn(`[API Retry] ${url} in ${delayMs}ms (attempt ${attempt + 1})`);
+      await sleep(delayMs, init.signal);
+    }
+  }
+
   async uploadFile<T>(
     url: string,
     file: File,
     additionalData?: Record<string, string>,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    options: RequestOptions = {}
   ): Promise<T> {
     const formData = new FormData();
     formData.append('file', file);
@@ -136,6 +439,7 @@ export class ApiClient {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      signal: options.signal,
       onUploadProgress: (progressEvent) => {
         if (onProgress && progressEvent.total) {
           const progress = Math.round(
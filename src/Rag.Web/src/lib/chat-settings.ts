@@ -0,0 +1,100 @@
+import { AgentConfig, ChatSettings } from '@/types';
+import type { RetrievalScope } from '@/lib/conversation-attachments';
+
+/**
+ * Agent options are what the chat views sent before settings could be changed;
+ * topKDocuments and minRelevanceScore match the API's AgentConfig defaults.
+ */
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  maxToolCalls: 5,
+  allowParallelToolCalls: true,
+  useRagForContext: true,
+  topKDocuments: 3,
+  minRelevanceScore: 0.7,
+  enableChainOfThought: true,
+  systemPrompt: '',
+  streamingTopK: 5,
+  historyStrategy: 'tokenBudget',
+  historyLastN: 20,
+  historyTokenBudget: 4000,
+  summarizeOlderTurns: false,
+};
+
+type NumericSetting =
+  | 'maxToolCalls'
+  | 'topKDocuments'
+  | 'minRelevanceScore'
+  | 'streamingTopK'
+  | 'historyLastN'
+  | 'historyTokenBudget';
+
+// Limits enforced by the API's request validators
+export const CHAT_SETTING_RANGES: Record<NumericSetting, { label: string; min: number; max: number }> = {
+  maxToolCalls: { label: 'Max tool calls', min: 1, max: 10 },
+  topKDocuments: { label: 'Chunks per search', min: 1, max: 20 },
+  minRelevanceScore: { label: 'Minimum relevance', min: 0, max: 1 },
+  streamingTopK: { label: 'Streaming top K', min: 1, max: 20 },
+  historyLastN: { label: 'Messages kept', min: 1, max: 50 },
+  historyTokenBudget: { label: 'History token budget', min: 200, max: 32000 },
+};
+
+export const MAX_SYSTEM_PROMPT_LENGTH = 1000;
+
+/**
+ * Conversation overrides on top of the workspace defaults.
+ */
+export const resolveChatSettings = (
+  workspace: ChatSettings | undefined,
+  overrides: Partial<ChatSettings> | undefined
+): ChatSettings => ({ ...DEFAULT_CHAT_SETTINGS, ...workspace, ...overrides });
+
+/**
+ * First problem that would make the API reject the settings, if any.
+ */
+export function validateChatSettings(settings: ChatSettings): string | null {
+  for (const [key, { label, min, max }] of Object.entries(CHAT_SETTING_RANGES)) {
+    const value = settings[key as NumericSetting];
+    if (Number.isNaN(value) || value < min || value > max) {
+      return `${label} must be between ${min} and ${max}`;
+    }
+  }
+  if (settings.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return `The system prompt cannot exceed ${MAX_SYSTEM_PROMPT_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * The agent request config; a blank system prompt keeps the server's prompt.
+ */
+export const toAgentConfig = (settings: ChatSettings, scope: RetrievalScope): AgentConfig => ({
+  maxToolCalls: settings.maxToolCalls,
+  allowParallelToolCalls: settings.allowParallelToolCalls,
+  useRagForContext: settings.useRagForContext,
+  topKDocuments: settings.topKDocuments,
+  minRelevanceScore: settings.minRelevanceScore,
+  enableChainOfThought: settings.enableChainOfThought,
+  systemPrompt: settings.systemPrompt.trim() || undefined,
+  ...scope,
+});
+
+/**
+ * Short description for the chat header, e.g. "5 tools · RAG top 3 · CoT".
+ */
+export function summarizeChatSettings(settings: ChatSettings, mode: 'agent' | 'streaming'): string {
+  if (mode === 'streaming') return `Top ${settings.streamingTopK}`;
+  const history: Record<ChatSettings['historyStrategy'], string> = {
+    all: 'Full history',
+    lastN: `Last ${settings.historyLastN} msgs`,
+    tokenBudget: `${settings.historyTokenBudget} token history`,
+  };
+  return [
+    `${settings.maxToolCalls} tools`,
+    settings.useRagForContext ? `RAG top ${settings.topKDocuments}` : 'No RAG',
+    settings.enableChainOfThought && 'CoT',
+    settings.systemPrompt.trim() && 'Custom prompt',
+    history[settings.historyStrategy],
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
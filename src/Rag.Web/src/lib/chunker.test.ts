@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from '@/lib/chunker';
+import fixture from '../../../Rag.Tests/Fixtures/chunker-cases.json';
+
+interface ChunkerCase {
+  name: string;
+  text: string;
+  size?: number;
+  overlap?: number;
+  maxChunks?: number;
+  expected: string[];
+}
+
+// Same fixture as ChunkerFixtureTests in Rag.Tests, so both chunkers stay in step
+describe('chunkText', () => {
+  it.each((fixture.cases as ChunkerCase[]).map(({ name, ...c }) => [name, c] as const))(
+    'matches the shared fixture: %s',
+    (_name, { text, expected, ...options }) => {
+      const result = chunkText(text, options);
+      expect(result.chunks.map((chunk) => chunk.text)).toEqual(expected);
+    }
+  );
+});
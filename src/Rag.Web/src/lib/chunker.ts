@@ -0,0 +1,157 @@
+/**
+ * TypeScript port of Rag.Core/Text/Chunker.cs, used to preview how the API will split
+ * a document before it is ingested. Keep the two in sync: the shared fixture in
+ * src/Rag.Tests/Fixtures/chunker-cases.json is checked against the C# chunker.
+ */
+
+export interface ChunkOptions {
+  size: number;
+  overlap: number;
+  maxChunks: number;
+}
+
+/** Same defaults as Chunker.Chunk on the server */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  size: 900,
+  overlap: 150,
+  maxChunks: 200,
+};
+
+export interface ChunkPreview {
+  index: number;
+  text: string;
+  /** Offsets into the normalized text, end exclusive */
+  start: number;
+  end: number;
+  /** Characters shared with the previous chunk */
+  overlapChars: number;
+  estimatedTokens: number;
+}
+
+export interface ChunkingResult {
+  /** Text after the server's normalization (newlines to spaces, trimmed) */
+  normalizedText: string;
+  chunks: ChunkPreview[];
+  /** True when maxChunks cut off the end of the text */
+  truncated: boolean;
+}
+
+// .NET string.Trim() strips char.IsWhiteSpace, which differs from String.prototype.trim()
+// (it includes U+0085 but not the U+FEFF byte order mark)
+const DOTNET_WHITESPACE =
+  '\\t\\n\\v\\f\\r \\u0085\\u00a0\\u1680\\u2000-\\u200a\\u2028\\u2029\\u202f\\u205f\\u3000';
+const TRIM_PATTERN = new RegExp(`^[${DOTNET_WHITESPACE}]+|[${DOTNET_WHITESPACE}]+$`, 'g');
+
+/**
+ * Rough token estimate: about 4 characters per token for ASCII text, as in the server's
+ * cost estimates, but one token per character for other scripts (CJK, emoji, ...).
+ */
+export function estimateTokens(text: string): number {
+  const nonAscii = text.replace(/[\x00-\x7f]/g, '').length;
+  return Math.ceil((text.length - nonAscii) / 4) + nonAscii;
+}
+
+export function normalizeForChunking(text: string): string {
+  return (text ?? '').replace(/\r/g, ' ').replace(/\n/g, ' ').replace(TRIM_PATTERN, '');
+}
+
+/**
+ * Splits text exactly like Chunker.Chunk: fixed-size character windows that advance by
+ * size - overlap (at least 1), stopping after maxChunks.
+ */
+export function chunkText(
+  text: string,
+  options: Partial<ChunkOptions> = {}
+): ChunkingResult {
+  const { size, overlap, maxChunks } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const normalizedText = normalizeForChunking(text);
+
+  if (normalizedText.length === 0) {
+    return { normalizedText, chunks: [], truncated: false };
+  }
+  if (normalizedText.length <= size) {
+    return {
+      normalizedText,
+      chunks: [
+        {
+          index: 0,
+          text: normalizedText,
+          start: 0,
+          end: normalizedText.length,
+          overlapChars: 0,
+          estimatedTokens: estimateTokens(normalizedText),
+        },
+      ],
+      truncated: false,
+    };
+  }
+
+  const chunks: ChunkPreview[] = [];
+  const step = Math.max(1, size - overlap);
+  for (let i = 0; i < normalizedText.length && chunks.length < maxChunks; i += step) {
+    const len = Math.min(size, normalizedText.length - i);
+    const previous = chunks[chunks.length - 1];
+    const chunk = normalizedText.substring(i, i + len);
+    chunks.push({
+      index: chunks.length,
+      text: chunk,
+      start: i,
+      end: i + len,
+      overlapChars: previous ? Math.max(0, previous.end - i) : 0,
+      estimatedTokens: estimateTokens(chunk),
+    });
+  }
+
+  const covered = chunks[chunks.length - 1]?.end ?? 0;
+  return { normalizedText, chunks, truncated: covered < normalizedText.length };
+}
+
+export type ChunkWarningKind = 'tiny' | 'huge' | 'truncated';
+
+export interface ChunkWarning {
+  kind: ChunkWarningKind;
+  chunkIndex?: number;
+  message: string;
+}
+
+/** Chunks below this many characters carry too little context to retrieve well */
+export const TINY_CHUNK_CHARS = 50;
+
+/** Estimated tokens above which a chunk is unusually large for an embedding */
+export const HUGE_CHUNK_TOKENS = 512;
+
+/**
+ * Flags chunks that are nearly empty or very large, and a truncated document.
+ */
+export function getChunkWarnings(result: ChunkingResult): ChunkWarning[] {
+  const warnings: ChunkWarning[] = [];
+
+  for (const chunk of result.chunks) {
+    const content = chunk.text.trim().length;
+    if (content < TINY_CHUNK_CHARS) {
+      warnings.push({
+        kind: 'tiny',
+        chunkIndex: chunk.index,
+        message: `Chunk ${chunk.index + 1} has only ${content} characters of content`,
+      });
+    } else if (chunk.estimatedTokens > HUGE_CHUNK_TOKENS) {
+      warnings.push({
+        kind: 'huge',
+        chunkIndex: chunk.index,
+        message: `Chunk ${chunk.index + 1} is about ${chunk.estimatedTokens} tokens`,
+      });
+    }
+  }
+
+  if (result.truncated) {
+    const kept = result.chunks[result.chunks.length - 1]?.end ?? 0;
+    warnings.push({
+      kind: 'truncated',
+      message:
+        `Only the first ${result.chunks.length} chunks are ingested; ` +
+        `${(result.normalizedText.length - kept).toLocaleString()} characters at the end will be dropped`,
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { citationsFromMarkers, parseCitationMarkers } from '@/lib/citation-markers';
+import { Citation } from '@/types';
+
+const retrieved: Citation[] = [
+  { documentId: 'guide.md', chunkIndex: 2, score: 0.9, pageNumber: 4 },
+  { documentId: 'faq', chunkIndex: 0, score: 0.7 },
+];
+
+describe('parseCitationMarkers', () => {
+  it('numbers sources in order of first mention', () => {
+    const { markdown, sources } = parseCitationMarkers(
+      'A [faq:0]. B [guide.md:2]. C [faq:0].',
+      retrieved
+    );
+    expect(markdown).toBe('A [1](#citation-1). B [2](#citation-2). C [1](#citation-1).');
+    expect(sources.map((s) => [s.number, s.documentId, s.chunkIndex])).toEqual([
+      [1, 'faq', 0],
+      [2, 'guide.md', 2],
+    ]);
+  });
+
+  it('splits marker lists and accepts the Source: prefix', () => {
+    const { markdown, sources } = parseCitationMarkers('See [Source: faq:0; guide.md: 2].');
+    expect(markdown).toBe('See [1](#citation-1)[2](#citation-2).');
+    expect(sources).toHaveLength(2);
+  });
+
+  it('flags markers that retrieval did not return', () => {
+    const { sources } = parseCitationMarkers('[faq:0] [other:3]', retrieved);
+    expect(sources.map((s) => s.wasRetrieved)).toEqual([true, false]);
+    expect(parseCitationMarkers('[other:3]').sources[0].wasRetrieved).toBeNull();
+  });
+
+  it('leaves links and code untouched', () => {
+    const content = '[docs:1](https://example.com) `[faq:0]`\n```\n[faq:0]\n```';
+    expect(parseCitationMarkers(content).markdown).toBe(content);
+  });
+
+  it('hides an unfinished marker while streaming', () => {
+    expect(parseCitationMarkers('Answer [guide.m', undefined, true).markdown).toBe('Answer ');
+    expect(parseCitationMarkers('Answer [guide.m').markdown).toBe('Answer [guide.m');
+  });
+});
+
+describe('citationsFromMarkers', () => {
+  it('uses the retrieved source when there is one', () => {
+    expect(citationsFromMarkers('[guide.md:2] [other:3]', retrieved)).toEqual([
+      retrieved[0],
+      { documentId: 'other', chunkIndex: 3, score: 0 },
+    ]);
+  });
+});
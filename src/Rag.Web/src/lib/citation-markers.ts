@@ -0,0 +1,118 @@
+import { Citation } from '@/types';
+
+/**
+ * Parses the `[docId:chunkIndex]` markers the system prompt asks the model to cite with,
+ * so answers can show numbered chips instead of raw brackets.
+ */
+
+export interface InlineSource {
+  /** 1-based, in order of first mention */
+  number: number;
+  documentId: string;
+  chunkIndex: number;
+  /** The retrieved source the marker points to, if any */
+  retrieved?: Citation;
+  /** False when retrieval results are known and none matches the marker */
+  wasRetrieved: boolean | null;
+}
+
+export interface ParsedCitations {
+  /** Markdown with each marker replaced by a link to `#citation-<number>` */
+  markdown: string;
+  sources: InlineSource[];
+}
+
+export const CITATION_HREF_PREFIX = '#citation-';
+
+// One or more "docId:chunk" pairs in brackets, optionally prefixed "Source:" as in the
+// prompt's context block. A following "(" means it is a Markdown link, not a marker.
+const PAIR = String.raw`[^\[\]\n:,;]+?:\s*\d+`;
+const MARKER = new RegExp(
+  String.raw`\[(?:source:\s*)?(${PAIR}(?:\s*[,;]\s*(?:source:\s*)?${PAIR})*)\](?!\()`,
+  'gi'
+);
+const PAIR_PARTS = /^(?:source:\s*)?(.+?):\s*(\d+)$/i;
+
+// Fenced blocks (closed or still streaming) and inline code are left untouched
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+
+// An opening bracket at the very end that could still become a marker
+const PARTIAL_MARKER = /\[(?:source:\s*)?(?:[^\[\]\n:,;]+?(?::\s*\d*)?(?:\s*[,;]\s*[^\[\]\n]*)?)?$/i;
+
+const keyOf = (documentId: string, chunkIndex: number) => `${documentId}\u0000${chunkIndex}`;
+
+/**
+ * Replaces citation markers with numbered links and lists the sources they point to.
+ * `retrieved` is what the retriever returned for the answer; markers pointing anywhere
+ * else are flagged. While `streaming`, an unfinished marker at the end is hidden.
+ */
+export function parseCitationMarkers(
+  content: string,
+  retrieved?: Citation[],
+  streaming = false
+): ParsedCitations {
+  const retrievedByKey = new Map(
+    (retrieved ?? []).map((c) => [keyOf(c.documentId, c.chunkIndex), c] as const)
+  );
+  const sources: InlineSource[] = [];
+  const numberByKey = new Map<string, number>();
+
+  const numberFor = (documentId: string, chunkIndex: number) => {
+    const key = keyOf(documentId, chunkIndex);
+    let number = numberByKey.get(key);
+    if (number === undefined) {
+      number = sources.length + 1;
+      numberByKey.set(key, number);
+      const match = retrievedByKey.get(key);
+      sources.push({
+        number,
+        documentId,
+        chunkIndex,
+        retrieved: match,
+        wasRetrieved: retrieved ? !!match : null,
+      });
+    }
+    return number;
+  };
+
+  const replaceMarkers = (text: string) =>
+    text.replace(MARKER, (_, list: string) =>
+      list
+        .split(/\s*[,;]\s*/)
+        .map((pair) => {
+          const [, documentId, chunk] = pair.trim().match(PAIR_PARTS) ?? [];
+          if (!documentId) return pair;
+          const number = numberFor(documentId.trim(), parseInt(chunk, 10));
+          return `[${number}](${CITATION_HREF_PREFIX}${number})`;
+        })
+        .join('')
+    );
+
+  let text = content;
+  if (streaming) {
+    text = text.replace(PARTIAL_MARKER, '');
+  }
+
+  // Only transform the prose between code spans and blocks
+  let markdown = '';
+  let last = 0;
+  for (const m of text.matchAll(CODE)) {
+    const start = m.index ?? 0;
+    markdown += replaceMarkers(text.slice(last, start)) + m[0];
+    last = start + m[0].length;
+  }
+  markdown += replaceMarkers(text.slice(last));
+
+  return { markdown, sources };
+}
+
+/**
+ * Citations for an answer that only carries markers, such as one from the ask stream.
+ * Scores and page numbers come from the retrieved source when there is one.
+ */
+export function citationsFromMarkers(content: string, retrieved?: Citation[]): Citation[] {
+  return parseCitationMarkers(content, retrieved).sources.map(
+    (source) =>
+      source.retrieved ?? { documentId: source.documentId, chunkIndex: source.chunkIndex, score: 0 }
+  );
+}
@@ -0,0 +1,70 @@
+import { AgentMessage, ChatMessage, ChatSettings } from '@/types';
+import { estimateTokens } from '@/lib/chunker';
+
+/**
+ * Decides which earlier messages are sent to the agent as conversation history, so long
+ * chats stay within a budget instead of growing without limit.
+ */
+
+// AgentChatRequestValidator rejects longer histories
+export const MAX_HISTORY_MESSAGES = 50;
+
+// Room kept for the summary of older turns when summarising is on
+export const SUMMARY_RESERVE_TOKENS = 400;
+
+// Role and formatting overhead the model adds to each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const estimateMessageTokens = (message: Pick<ChatMessage, 'content'>) =>
+  estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+export interface ContextPlan {
+  /** Messages sent as history, in conversation order */
+  included: ChatMessage[];
+  /** Messages left out, in conversation order */
+  excluded: ChatMessage[];
+  /** Estimated tokens of the included messages */
+  tokens: number;
+}
+
+/**
+ * Pinned messages are always kept; the rest is filled with the most recent messages that
+ * fit the strategy. The window stays contiguous: an older message is never kept in place
+ * of a newer one that did not fit.
+ */
+export function planContext(history: ChatMessage[], settings: ChatSettings): ContextPlan {
+  const candidates = history.filter((m) => !m.isLoading && m.content.trim() !== '');
+  const summarizing = settings.summarizeOlderTurns;
+  const maxMessages = MAX_HISTORY_MESSAGES - (summarizing ? 1 : 0);
+  const budget = settings.historyTokenBudget - (summarizing ? SUMMARY_RESERVE_TOKENS : 0);
+
+  const pinned = candidates.filter((m) => m.pinned).slice(-maxMessages);
+  const kept = new Set(pinned.map((m) => m.id));
+  let tokens = pinned.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  let recent = 0;
+
+  for (let i = candidates.length - 1; i >= 0 && kept.size < maxMessages; i--) {
+    const message = candidates[i];
+    if (kept.has(message.id)) continue;
+    const cost = estimateMessageTokens(message);
+    if (settings.historyStrategy === 'lastN' && recent >= settings.historyLastN) break;
+    if (settings.historyStrategy === 'tokenBudget' && tokens + cost > budget) break;
+    kept.add(message.id);
+    tokens += cost;
+    recent++;
+  }
+
+  return {
+    included: candidates.filter((m) => kept.has(m.id)),
+    excluded: candidates.filter((m) => !kept.has(m.id)),
+    tokens,
+  };
+}
+
+export const toAgentHistory = (messages: ChatMessage[]): AgentMessage[] =>
+  messages.map((m) => ({ role: m.role, content: m.content }));
+
+export const summaryMessage = (summary: string): AgentMessage => ({
+  role: 'system',
+  content: `Summary of the earlier conversation:\n${summary}`,
+});
@@ -0,0 +1,87 @@
+import { ragService } from '@/services/rag-service';
+import { useAppStore } from '@/store/app-store';
+import { isNotFound } from '@/lib/api-client';
+import { deleteDocumentVersions } from '@/lib/document-versions';
+import { deletePdfFile } from '@/lib/pdf-files';
+import { AskRequest, Conversation, DocumentInfo } from '@/types';
+
+/**
+ * Files attached to a conversation are ordinary documents whose ID starts with the
+ * conversation's ID. They are deleted with the conversation unless promoted to the library.
+ */
+export const attachmentIdPrefix = (conversationId: string) => `${conversationId}--`;
+
+export const getConversationAttachments = (documents: DocumentInfo[], conversationId: string) =>
+  documents.filter((doc) => doc.conversationId === conversationId);
+
+export type RetrievalScope = Pick<AskRequest, 'documentIds' | 'excludedDocumentIds'>;
+
+/**
+ * What a conversation's retrieval may search: its document filter, minus every file
+ * attached to another conversation of the tenant. Without a conversation, all attachments
+ * are excluded. Promoted attachments are library documents and stay searchable.
+ */
+export function getRetrievalScope(
+  documents: DocumentInfo[],
+  tenantId: string,
+  conversation?: Pick<Conversation, 'id' | 'documentFilter'>
+): RetrievalScope {
+  const excluded = documents
+    .filter(
+      (doc) => doc.tenantId === tenantId && doc.conversationId && doc.conversationId !== conversation?.id
+    )
+    .map((doc) => doc.id);
+  const filter = conversation?.documentFilter ?? [];
+  return {
+    documentIds: filter.length > 0 ? filter : undefined,
+    excludedDocumentIds: excluded.length > 0 ? excluded : undefined,
+  };
+}
+
+/**
+ * Deletes the attachment's chunks and its local record. A 404 counts as deleted.
+ */
+export async function deleteAttachment(doc: DocumentInfo): Promise<void> {
+  try {
+    await ragService.deleteDocument(doc.id);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+  useAppStore.getState().removeDocument(doc.id, doc.tenantId);
+  void deleteDocumentVersions(doc.tenantId, doc.id);
+  void deletePdfFile(doc.tenantId, doc.id);
+}
+
+/**
+ * Keeps the attachment as a shared library document. The document ID cannot change on the
+ * server, so it keeps the conversation prefix.
+ */
+export function promoteAttachment(doc: DocumentInfo): void {
+  useAppStore.getState().updateDocument(doc.id, { conversationId: undefined }, doc.tenantId);
+}
+
+/**
+ * Deletes a conversation and, in the background, every file attached to it. Attachments
+ * that cannot be deleted are moved to the library with an error so they can be removed
+ * from there.
+ */
+export function deleteConversationWithAttachments(conversation: Conversation): void {
+  const { documents, deleteConversation, updateDocument } = useAppStore.getState();
+  const attachments = getConversationAttachments(documents, conversation.id);
+  deleteConversation(conversation.id);
+
+  for (const doc of attachments) {
+    deleteAttachment(doc).catch((error) => {
+      console.error('[Attachments] Cleanup failed:', doc.id, error);
+      updateDocument(
+        doc.id,
+        {
+          conversationId: undefined,
+          status: 'error',
+          error: 'Attachment of a deleted conversation; delete it manually',
+        },
+        doc.tenantId
+      );
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { getActivePath, migrateFlatConversation } from '@/lib/conversation-tree';
+import { ChatMessage, Conversation } from '@/types';
+
+const message = (id: string, role: ChatMessage['role'], parentId?: string | null): ChatMessage => ({
+  id,
+  role,
+  content: id,
+  timestamp: new Date(0),
+  ...(parentId !== undefined && { parentId }),
+});
+
+const conversation = (messages: ChatMessage[]): Conversation => ({
+  id: 'c1',
+  title: 'Test',
+  messages,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  tenantId: 'default',
+});
+
+describe('migrateFlatConversation', () => {
+  it('chains flat messages into a single branch in message order', () => {
+    const migrated = migrateFlatConversation(
+      conversation([message('q1', 'user'), message('a1', 'assistant'), message('q2', 'user')])
+    );
+    expect(migrated.messages.map((m) => m.parentId)).toEqual([null, 'q1', 'a1']);
+    expect(getActivePath(migrated).map((m) => m.id)).toEqual(['q1', 'a1', 'q2']);
+  });
+
+  it('returns conversations that already have a tree unchanged', () => {
+    const tree = conversation([
+      message('q1', 'user', null),
+      message('a1', 'assistant', 'q1'),
+      message('a1b', 'assistant', 'q1'),
+    ]);
+    expect(migrateFlatConversation(tree)).toBe(tree);
+  });
+
+  it('leaves an empty conversation empty', () => {
+    expect(migrateFlatConversation(conversation([])).messages).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { ChatMessage, Conversation } from '@/types';
+
+/**
+ * Conversations are trees: editing a question or regenerating an answer adds a sibling
+ * of the original message instead of replacing it. Messages are stored flat with a
+ * parentId, and the branch on screen follows the selected child under each message.
+ */
+
+/** Key under which the selected first message is stored in activeChildren */
+export const ROOT_KEY = '__root__';
+
+export const parentKeyOf = (message: ChatMessage) => message.parentId ?? ROOT_KEY;
+
+/**
+ * Replies and edits that follow the same message, oldest first.
+ */
+export function getSiblings(conversation: Conversation, message: ChatMessage): ChatMessage[] {
+  const key = parentKeyOf(message);
+  return conversation.messages.filter((m) => parentKeyOf(m) === key);
+}
+
+/**
+ * Messages of the selected branch from the first message down. Where no child was
+ * selected, the most recent one is followed.
+ */
+export function getActivePath(conversation: Conversation): ChatMessage[] {
+  const childrenByParent = new Map<string, ChatMessage[]>();
+  for (const message of conversation.messages) {
+    const key = parentKeyOf(message);
+    childrenByParent.set(key, [...(childrenByParent.get(key) ?? []), message]);
+  }
+
+  const path: ChatMessage[] = [];
+  let key = ROOT_KEY;
+  for (;;) {
+    const children = childrenByParent.get(key);
+    if (!children?.length) break;
+    const selected = conversation.activeChildren?.[key];
+    const next = children.find((m) => m.id === selected) ?? children[children.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+}
+
+/**
+ * Conversations saved before branching existed are a single branch in message order.
+ */
+export function migrateFlatConversation(conversation: Conversation): Conversation {
+  if (conversation.messages.some((m) => m.parentId !== undefined)) return conversation;
+  return {
+    ...conversation,
+    messages: conversation.messages.map((message, idx) => ({
+      ...message,
+      parentId: idx === 0 ? null : conversation.messages[idx - 1].id,
+    })),
+  };
+}
@@ -0,0 +1,137 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  type: DiffOpType;
+  text: string;
+  /** 1-based line number in the old text (equal and delete) */
+  oldLine?: number;
+  /** 1-based line number in the new text (equal and insert) */
+  newLine?: number;
+}
+
+/** One row of a side-by-side view; a missing side renders as an empty gutter */
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Above this many LCS cells the middle section is shown as a plain replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line diff based on the longest common subsequence, after trimming the common
+ * prefix and suffix (which keeps typical single-edit diffs cheap).
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOpType[] = [];
+
+  for (let i = 0; i < prefix; i++) ops.push('equal');
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    midA.forEach(() => ops.push('delete'));
+    midB.forEach(() => ops.push('insert'));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const n = midA.length;
+    const m = midB.length;
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] =
+          midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push('equal');
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        // Deletions first, so a changed line pairs up with its replacement
+        ops.push('delete');
+        i++;
+      } else {
+        ops.push('insert');
+        j++;
+      }
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) ops.push('equal');
+
+  // Attach text and line numbers
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const type of ops) {
+    if (type === 'equal') {
+      lines.push({ type, text: b[newLine], oldLine: ++oldLine, newLine: ++newLine });
+    } else if (type === 'delete') {
+      lines.push({ type, text: a[oldLine], oldLine: ++oldLine });
+    } else {
+      lines.push({ type, text: b[newLine], newLine: ++newLine });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Pairs deletions with the insertions that follow them, for a side-by-side view.
+ */
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let deleted: DiffLine[] = [];
+  let inserted: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      rows.push({ left: deleted[i], right: inserted[i] });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'equal') {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.type === 'delete') {
+      if (inserted.length > 0) flush();
+      deleted.push(line);
+    } else {
+      inserted.push(line);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+export const diffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter((l) => l.type === 'insert').length,
+  removed: lines.filter((l) => l.type === 'delete').length,
+});
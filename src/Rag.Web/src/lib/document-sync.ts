@@ -0,0 +1,37 @@
+import { ragService } from '@/services/rag-service';
+import { useAppStore } from '@/store/app-store';
+import { addDocumentVersion } from '@/lib/document-versions';
+import { createIngestJob } from '@/hooks/useIngestJobPoller';
+import { DocumentInfo, DocumentVersion } from '@/types';
+
+/**
+ * Replaces a document's text through PUT /documents/{id} and records the text as a new
+ * local version. The text no longer matches an uploaded file, so the content hash is dropped;
+ * callers submitting a file's text set it again. Resolves with the recorded version.
+ */
+export async function submitDocumentText(
+  doc: DocumentInfo,
+  text: string,
+  version: Omit<DocumentVersion, 'version' | 'createdAt' | 'text'>,
+  signal?: AbortSignal
+): Promise<DocumentVersion> {
+  const { updateDocument, trackIngestJob } = useAppStore.getState();
+  const name = version.fileName ?? doc.name;
+
+  const response = await ragService.updateDocument(doc.id, text, signal);
+  updateDocument(
+    doc.id,
+    {
+      name,
+      status: 'processing',
+      updatedAt: new Date(),
+      jobId: response.jobId,
+      error: undefined,
+      contentHash: undefined,
+    },
+    doc.tenantId
+  );
+  trackIngestJob(createIngestJob(response.jobId, doc.id, doc.tenantId, name));
+
+  return addDocumentVersion(doc.tenantId, doc.id, { ...version, text });
+}
@@ -0,0 +1,68 @@
+import { idbClear, idbDelete, idbGet, idbPut, IDB_STORES } from '@/lib/idb';
+import { DocumentVersion } from '@/types';
+
+// Oldest versions are dropped beyond this
+const MAX_VERSIONS = 25;
+
+const keyFor = (tenantId: string, documentId: string) => `${tenantId}:${documentId}`;
+
+/**
+ * Versions of a document's text, oldest first. Empty when the text was never captured
+ * (e.g. PDFs, which are extracted on the server).
+ */
+export async function getDocumentVersions(
+  tenantId: string,
+  documentId: string
+): Promise<DocumentVersion[]> {
+  try {
+    const key = keyFor(tenantId, documentId);
+    return (await idbGet<DocumentVersion[]>(IDB_STORES.documentVersions, key)) ?? [];
+  } catch (err) {
+    console.warn('[Versions] Could not read history for', documentId, err);
+    return [];
+  }
+}
+
+/**
+ * Records the text that was just sent to the API as the newest version.
+ */
+export async function addDocumentVersion(
+  tenantId: string,
+  documentId: string,
+  version: Omit<DocumentVersion, 'version' | 'createdAt'>
+): Promise<DocumentVersion> {
+  const versions = await getDocumentVersions(tenantId, documentId);
+  const entry: DocumentVersion = {
+    ...version,
+    version: (versions[versions.length - 1]?.version ?? 0) + 1,
+    createdAt: Date.now(),
+  };
+  const next = [...versions, entry].slice(-MAX_VERSIONS);
+
+  try {
+    await idbPut(IDB_STORES.documentVersions, keyFor(tenantId, documentId), next);
+  } catch (err) {
+    // History is a convenience; failing to save it must not fail the upload
+    console.warn('[Versions] Could not save version for', documentId, err);
+  }
+  return entry;
+}
+
+export async function deleteDocumentVersions(tenantId: string, documentId: string): Promise<void> {
+  try {
+    await idbDelete(IDB_STORES.documentVersions, keyFor(tenantId, documentId));
+  } catch (err) {
+    console.warn('[Versions] Could not delete history for', documentId, err);
+  }
+}
+
+/**
+ * Removes the history of every document, for all tenants (on logout).
+ */
+export async function clearDocumentVersions(): Promise<void> {
+  try {
+    await idbClear(IDB_STORES.documentVersions);
+  } catch (err) {
+    console.warn('[Versions] Could not clear history', err);
+  }
+}
@@ -0,0 +1,92 @@
+import { Extractor } from './types';
+import { tableToText } from './text-utils';
+
+/**
+ * RFC 4180 style parser: quoted fields may contain the delimiter, newlines and "" escapes.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function createDelimitedExtractor(
+  id: string,
+  label: string,
+  extension: string,
+  mimeType: string,
+  delimiter: string
+): Extractor {
+  return {
+    id,
+    label,
+    extensions: [extension],
+    mimeTypes: [mimeType],
+    extract: async (file) => {
+      const rows = parseDelimited((await file.text()).replace(/^\uFEFF/, ''), delimiter).filter(
+        (row) => row.some((cell) => cell.trim() !== '')
+      );
+      const warnings: string[] = [];
+
+      const width = rows[0]?.length ?? 0;
+      const ragged = rows.filter((row) => row.length !== width).length;
+      if (ragged > 0) {
+        warnings.push(`${ragged} row(s) have a different number of columns than the header`);
+      }
+      if (rows.length <= 1) {
+        warnings.push('No data rows found below the header');
+      }
+
+      return { text: tableToText(rows), format: label, warnings };
+    },
+  };
+}
+
+export const csvExtractor = createDelimitedExtractor('csv', 'CSV', '.csv', 'text/csv', ',');
+
+export const tsvExtractor = createDelimitedExtractor(
+  'tsv',
+  'TSV',
+  '.tsv',
+  'text/tab-separated-values',
+  '\t'
+);
@@ -0,0 +1,98 @@
+import { ExtractionError, Extractor } from './types';
+import { cleanText, collapseWhitespace, tableToText } from './text-utils';
+import { readZipEntryText } from './zip';
+
+/**
+ * Elements by local name, so the `w:` namespace prefix does not matter.
+ */
+const childrenNamed = (el: Element, localName: string) =>
+  Array.from(el.children).filter((child) => child.localName === localName);
+
+const descendantsNamed = (el: Element, localName: string) =>
+  Array.from(el.getElementsByTagNameNS('*', localName));
+
+function paragraphText(p: Element): string {
+  let text = '';
+  p.querySelectorAll('*').forEach((node) => {
+    if (node.localName === 't') text += node.textContent ?? '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+}
+
+/**
+ * Heading level from the paragraph style ("Heading1".."Heading6", "Title"), if any.
+ */
+function headingLevel(p: Element): number | null {
+  const style = descendantsNamed(p, 'pStyle')[0];
+  const value = style?.getAttribute('w:val') ?? style?.getAttributeNS('*', 'val') ?? '';
+  if (/^title$/i.test(value)) return 1;
+  const match = /^heading\s*([1-6])$/i.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+const isListItem = (p: Element) => descendantsNamed(p, 'numPr').length > 0;
+
+function tableRows(tbl: Element): string[][] {
+  return childrenNamed(tbl, 'tr').map((tr) =>
+    childrenNamed(tr, 'tc').map((tc) =>
+      collapseWhitespace(descendantsNamed(tc, 'p').map(paragraphText).join(' '))
+    )
+  );
+}
+
+/**
+ * Text of word/document.xml: headings become `#` lines, numbered and bulleted
+ * paragraphs become `- ` lines, tables become header/value lines.
+ */
+export function docxXmlToText(xml: string): { text: string; warnings: string[] } {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('document.xml is not valid XML');
+  }
+
+  const body = descendantsNamed(doc.documentElement, 'body')[0];
+  if (!body) throw new Error('document body not found');
+
+  const blocks: string[] = [];
+  const warnings: string[] = [];
+
+  for (const el of Array.from(body.children)) {
+    if (el.localName === 'p') {
+      const text = paragraphText(el).trim();
+      if (!text) continue;
+      const level = headingLevel(el);
+      if (level) blocks.push(`${'#'.repeat(level)} ${collapseWhitespace(text)}`);
+      else if (isListItem(el)) blocks.push(`- ${text}`);
+      else blocks.push(text);
+    } else if (el.localName === 'tbl') {
+      const text = tableToText(tableRows(el));
+      if (text) blocks.push(text);
+    } else if (el.localName === 'sdt') {
+      warnings.push('Content controls (e.g. a table of contents) were skipped');
+    }
+  }
+
+  return { text: cleanText(blocks.join('\n\n')), warnings: [...new Set(warnings)] };
+}
+
+export const docxExtractor: Extractor = {
+  id: 'docx',
+  label: 'Word document',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extract: async (file) => {
+    try {
+      const xml = await readZipEntryText(await file.arrayBuffer(), 'word/document.xml');
+      if (xml === null) throw new Error('word/document.xml not found');
+      const { text, warnings } = docxXmlToText(xml);
+      return { text, format: 'Word document', warnings };
+    } catch (err) {
+      throw new ExtractionError(
+        file.name,
+        `could not read DOCX (${err instanceof Error ? err.message : 'unknown error'})`
+      );
+    }
+  },
+};
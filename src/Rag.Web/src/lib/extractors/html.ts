@@ -0,0 +1,116 @@
+import { Extractor } from './types';
+import { cleanText, collapseWhitespace, tableToText } from './text-utils';
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'head']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'form', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'section', 'ul',
+]);
+
+/**
+ * Rows of an HTML table, including header cells, ignoring nested tables.
+ */
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr'))
+    .filter((tr) => tr.closest('table') === table)
+    .map((tr) =>
+      Array.from(tr.children)
+        .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+        .map((cell) => cell.textContent ?? '')
+    );
+}
+
+/**
+ * Visible text of an HTML document: headings keep `#` markers, list items become
+ * `- ` lines, tables become header/value lines, scripts and styles are dropped.
+ */
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = collapseWhitespace(inline);
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = collapseWhitespace(el.textContent ?? '');
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+      return;
+    }
+
+    switch (tag) {
+      case 'table': {
+        flush();
+        const text = tableToText(tableRows(el));
+        if (text) blocks.push(text);
+        return;
+      }
+      case 'pre': {
+        flush();
+        const text = (el.textContent ?? '').replace(/\s+$/, '');
+        if (text) blocks.push(text);
+        return;
+      }
+      case 'br':
+        flush();
+        return;
+      case 'img': {
+        const alt = el.getAttribute('alt');
+        if (alt) inline += ` ${alt} `;
+        return;
+      }
+      case 'li': {
+        flush();
+        const start = blocks.length;
+        el.childNodes.forEach(visit);
+        flush();
+        if (blocks.length > start) blocks[start] = `- ${blocks[start]}`;
+        return;
+      }
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    el.childNodes.forEach(visit);
+    if (isBlock) flush();
+  };
+
+  visit(doc.body);
+  flush();
+
+  const title = collapseWhitespace(doc.title);
+  if (title && !blocks.some((block) => block.replace(/^#+\s*/, '') === title)) {
+    blocks.unshift(`# ${title}`);
+  }
+
+  return cleanText(blocks.join('\n\n'));
+}
+
+export const htmlExtractor: Extractor = {
+  id: 'html',
+  label: 'HTML',
+  extensions: ['.html', '.htm'],
+  mimeTypes: ['text/html'],
+  extract: async (file) => ({
+    text: htmlToText(await file.text()),
+    format: 'HTML',
+    warnings: [],
+  }),
+};
@@ -0,0 +1,83 @@
+import { Extractor, ExtractionResult, UnsupportedFileTypeError } from './types';
+import { textExtractor } from './text';
+import { markdownExtractor } from './markdown';
+import { htmlExtractor } from './html';
+import { csvExtractor, tsvExtractor } from './delimited';
+import { jsonExtractor } from './json';
+import { docxExtractor } from './docx';
+
+export * from './types';
+
+/**
+ * Client-side extractors for formats the API cannot ingest directly. PDFs are not
+ * listed here: they go to the upload-pdf endpoint and are extracted on the server.
+ */
+const extractors: Extractor[] = [
+  textExtractor,
+  markdownExtractor,
+  htmlExtractor,
+  csvExtractor,
+  tsvExtractor,
+  jsonExtractor,
+  docxExtractor,
+];
+
+/**
+ * Adds or replaces (by id) an extractor.
+ */
+export function registerExtractor(extractor: Extractor): void {
+  const idx = extractors.findIndex((e) => e.id === extractor.id);
+  if (idx >= 0) {
+    extractors[idx] = extractor;
+  } else {
+    extractors.push(extractor);
+  }
+}
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+/**
+ * Picks an extractor by file extension, falling back to the MIME type.
+ */
+export function getExtractor(file: File): Extractor | undefined {
+  const ext = extensionOf(file.name);
+  return (
+    extractors.find((e) => e.extensions.includes(ext)) ??
+    (file.type ? extractors.find((e) => e.mimeTypes.includes(file.type)) : undefined)
+  );
+}
+
+/**
+ * Extracts clean text, or rejects with UnsupportedFileTypeError / ExtractionError.
+ */
+export async function extractText(file: File): Promise<ExtractionResult> {
+  const extractor = getExtractor(file);
+  if (!extractor) throw new UnsupportedFileTypeError(file.name);
+
+  const result = await extractor.extract(file);
+  if (!result.text) {
+    result.warnings = [...result.warnings, 'No text was found in this file'];
+  }
+  return result;
+}
+
+/**
+ * Dropzone `accept` map covering every registered extractor.
+ */
+export function getExtractorAccept(): Record<string, string[]> {
+  const accept: Record<string, string[]> = {};
+  for (const extractor of extractors) {
+    for (const mime of extractor.mimeTypes) {
+      accept[mime] = [...(accept[mime] ?? []), ...extractor.extensions];
+    }
+  }
+  return accept;
+}
+
+/**
+ * Extensions of every registered extractor, e.g. for a file input `accept` attribute.
+ */
+export const getExtractorExtensions = () => extractors.flatMap((e) => e.extensions);
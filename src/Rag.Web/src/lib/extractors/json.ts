@@ -0,0 +1,55 @@
+import { ExtractionError, Extractor } from './types';
+import { cleanText } from './text-utils';
+
+/**
+ * One `path: value` line per leaf, e.g. `authors[0].name: Ada`. Top-level object keys
+ * become `#` headings so each section of the document stays together.
+ */
+export function jsonToText(value: unknown): string {
+  const lines: string[] = [];
+
+  const walk = (node: unknown, path: string) => {
+    if (Array.isArray(node)) {
+      if (node.length === 0) lines.push(`${path}: (empty)`);
+      node.forEach((item, idx) => walk(item, `${path}[${idx}]`));
+    } else if (node !== null && typeof node === 'object') {
+      const entries = Object.entries(node);
+      if (entries.length === 0) lines.push(`${path}: (empty)`);
+      entries.forEach(([key, child]) => walk(child, path ? `${path}.${key}` : key));
+    } else {
+      lines.push(path ? `${path}: ${String(node)}` : String(node));
+    }
+  };
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (child !== null && typeof child === 'object') {
+        lines.push('', `# ${key}`);
+      }
+      walk(child, key);
+    }
+  } else {
+    walk(value, '');
+  }
+
+  return cleanText(lines.join('\n'));
+}
+
+export const jsonExtractor: Extractor = {
+  id: 'json',
+  label: 'JSON',
+  extensions: ['.json'],
+  mimeTypes: ['application/json'],
+  extract: async (file) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(await file.text());
+    } catch (err) {
+      throw new ExtractionError(
+        file.name,
+        `invalid JSON (${err instanceof Error ? err.message : 'parse error'})`
+      );
+    }
+    return { text: jsonToText(value), format: 'JSON', warnings: [] };
+  },
+};
@@ -0,0 +1,91 @@
+import { Extractor } from './types';
+import { cleanText, tableToText } from './text-utils';
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|');
+
+/**
+ * Strips inline Markdown syntax and keeps the visible text.
+ */
+function stripInline(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/(^|\W)__(.+?)__(?=\W|$)/g, '$1$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+/**
+ * Markdown to text: headings keep their `#` markers so sections stay recognisable,
+ * tables become header/value lines, code blocks are kept verbatim without fences.
+ */
+export function markdownToText(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const out: string[] = [];
+  let inCode = false;
+  let table: string[][] = [];
+
+  const flushTable = () => {
+    if (table.length > 0) {
+      out.push(tableToText(table.map((row) => row.map(stripInline))));
+      table = [];
+    }
+  };
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flushTable();
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      out.push(line);
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      if (!TABLE_SEPARATOR.test(line)) table.push(splitTableRow(line));
+      continue;
+    }
+    flushTable();
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      out.push('', `${heading[1]} ${stripInline(heading[2])}`, '');
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      out.push(''); // horizontal rule
+      continue;
+    }
+
+    const text = line
+      .replace(/^\s*>\s?/, '')
+      .replace(/^(\s*)[*+]\s+/, '$1- ');
+    out.push(stripInline(text));
+  }
+  flushTable();
+
+  return cleanText(out.join('\n'));
+}
+
+export const markdownExtractor: Extractor = {
+  id: 'markdown',
+  label: 'Markdown',
+  extensions: ['.md', '.markdown'],
+  mimeTypes: ['text/markdown'],
+  extract: async (file) => ({
+    text: markdownToText(await file.text()),
+    format: 'Markdown',
+    warnings: [],
+  }),
+};
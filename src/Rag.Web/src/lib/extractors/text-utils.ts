@@ -0,0 +1,37 @@
+/**
+ * Normalises line endings and whitespace: no BOM, no trailing spaces, at most one blank line.
+ */
+export function cleanText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Renders a table as one line per row, pairing every cell with its column header
+ * ("Name: Ada; Role: Engineer"), which keeps the meaning of a row inside a single chunk.
+ * The first row is treated as the header.
+ */
+export function tableToText(rows: string[][]): string {
+  const cleaned = rows
+    .map((row) => row.map(collapseWhitespace))
+    .filter((row) => row.some(Boolean));
+  if (cleaned.length === 0) return '';
+  if (cleaned.length === 1) return cleaned[0].filter(Boolean).join(' | ');
+
+  const [header, ...body] = cleaned;
+  return body
+    .map((row) =>
+      row
+        .map((cell, col) => (cell ? `${header[col] || `Column ${col + 1}`}: ${cell}` : ''))
+        .filter(Boolean)
+        .join('; ')
+    )
+    .filter(Boolean)
+    .join('\n');
+}
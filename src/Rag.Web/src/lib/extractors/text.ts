@@ -0,0 +1,14 @@
+import { Extractor } from './types';
+import { cleanText } from './text-utils';
+
+export const textExtractor: Extractor = {
+  id: 'text',
+  label: 'Plain text',
+  extensions: ['.txt'],
+  mimeTypes: ['text/plain'],
+  extract: async (file) => ({
+    text: cleanText(await file.text()),
+    format: 'Plain text',
+    warnings: [],
+  }),
+};
@@ -0,0 +1,40 @@
+/**
+ * Clean text produced from an uploaded file, ready for ingestText.
+ */
+export interface ExtractionResult {
+  text: string;
+  /** Human-readable source format, e.g. "Markdown" */
+  format: string;
+  /** Non-fatal problems, e.g. ragged CSV rows or skipped content */
+  warnings: string[];
+}
+
+/**
+ * Turns one file format into clean text. Register new formats with registerExtractor.
+ */
+export interface Extractor {
+  id: string;
+  label: string;
+  /** Lower-case extensions including the dot, e.g. ".md" */
+  extensions: string[];
+  /** MIME types, used for the dropzone accept map */
+  mimeTypes: string[];
+  extract: (file: File) => Promise<ExtractionResult>;
+}
+
+export class UnsupportedFileTypeError extends Error {
+  constructor(public readonly fileName: string) {
+    super(`Unsupported file type: ${fileName}`);
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
+
+/**
+ * The file matched an extractor but its content could not be read.
+ */
+export class ExtractionError extends Error {
+  constructor(public readonly fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = 'ExtractionError';
+  }
+}
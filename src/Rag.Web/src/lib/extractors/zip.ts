@@ -0,0 +1,81 @@
+/**
+ * Minimal ZIP reader, enough to pull single entries out of Office documents.
+ * Supports stored and deflated entries; inflating uses the browser DecompressionStream.
+ */
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readEntries(view: DataView): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('not a ZIP archive');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('corrupt ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateRaw(data: ArrayBuffer): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Returns the named entry as text, or null when the archive does not contain it.
+ */
+export async function readZipEntryText(buffer: ArrayBuffer, name: string): Promise<string | null> {
+  const view = new DataView(buffer);
+  const entry = readEntries(view).find((e) => e.name === name);
+  if (!entry) return null;
+
+  const local = entry.localHeaderOffset;
+  if (view.getUint32(local, true) !== LOCAL_SIGNATURE) {
+    throw new Error('corrupt ZIP entry header');
+  }
+  const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = buffer.slice(dataStart, dataStart + entry.compressedSize);
+
+  let bytes: ArrayBuffer;
+  if (entry.method === 0) {
+    bytes = data;
+  } else if (entry.method === 8) {
+    bytes = await inflateRaw(data);
+  } else {
+    throw new Error(`unsupported ZIP compression method ${entry.method}`);
+  }
+
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,48 @@
+/**
+ * Finds the words of a question in retrieved passages so the viewer can highlight them.
+ */
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'what', 'which', 'who',
+  'how', 'why', 'when', 'where', 'does', 'did', 'can', 'could', 'should', 'would', 'from',
+  'into', 'about', 'have', 'has', 'had', 'you', 'your', 'our', 'their', 'there', 'them',
+  'its', 'not', 'but', 'any', 'all', 'use', 'using', 'tell', 'explain', 'please',
+]);
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Distinct lower-case words of at least three letters that are not stop words.
+ */
+export function extractQueryTerms(question: string): string[] {
+  const words = question.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu) ?? [];
+  return [...new Set(words.filter((w) => w.length >= 3 && !STOP_WORDS.has(w)))];
+}
+
+/**
+ * Splits text into alternating plain and matching segments. Terms match case-insensitively
+ * at the start of a word, so "vector" also marks "vectors".
+ */
+export function highlightTerms(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  // Longest first so "vectors" wins over "vector" where both are terms
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const m of text.matchAll(pattern)) {
+    const start = m.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: m[0], match: true });
+    last = start + m[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
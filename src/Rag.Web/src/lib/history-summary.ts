@@ -0,0 +1,43 @@
+import { agentService } from '@/services/agent-service';
+import { useAppStore } from '@/store/app-store';
+import { MAX_HISTORY_MESSAGES, toAgentHistory } from '@/lib/context-window';
+import { ChatMessage, Conversation, HistorySummary } from '@/types';
+
+/**
+ * The conversation's summary when it covers exactly the turns left out of the context.
+ */
+export function getCurrentSummary(conversation: Conversation, excluded: ChatMessage[]): HistorySummary | null {
+  const summary = conversation.historySummary;
+  const last = excluded[excluded.length - 1];
+  return summary && last && summary.throughMessageId === last.id ? summary : null;
+}
+
+/**
+ * Summary of the turns left out of the context, generated and stored on the conversation
+ * when they changed. An earlier summary of the same branch is extended with the turns
+ * dropped since, so each call only sends the new turns.
+ */
+export async function summarizeExcludedTurns(
+  conversation: Conversation,
+  excluded: ChatMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  const current = getCurrentSummary(conversation, excluded);
+  if (current) return current.text;
+
+  const previous = conversation.historySummary;
+  const coveredUpTo = previous ? excluded.findIndex((m) => m.id === previous.throughMessageId) : -1;
+  const newTurns = excluded.slice(coveredUpTo + 1).slice(-(MAX_HISTORY_MESSAGES - 1));
+  const history = toAgentHistory(newTurns);
+  if (previous && coveredUpTo >= 0) {
+    history.unshift({ role: 'system', content: previous.text });
+  }
+
+  const text = await agentService.summarizeHistory(history, signal);
+  useAppStore.getState().setHistorySummary(conversation.id, {
+    text,
+    throughMessageId: excluded[excluded.length - 1].id,
+    createdAt: new Date(),
+  });
+  return text;
+}
@@ -0,0 +1,64 @@
+/**
+ * Small promise wrapper around IndexedDB for data too large for the persisted
+ * zustand store (localStorage), such as document text and uploaded PDFs.
+ */
+const DB_NAME = 'rag-app';
+const DB_VERSION = 2;
+
+export const IDB_STORES = {
+  documentVersions: 'documentVersions',
+  pdfFiles: 'pdfFiles',
+} as const;
+
+type StoreName = (typeof IDB_STORES)[keyof typeof IDB_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(IDB_STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const idbGet = <T>(store: StoreName, key: string) =>
+  run<T | undefined>(store, 'readonly', (s) => s.get(key));
+
+export const idbPut = <T>(store: StoreName, key: string, value: T) =>
+  run<IDBValidKey>(store, 'readwrite', (s) => s.put(value, key)).then(() => undefined);
+
+export const idbDelete = (store: StoreName, key: string) =>
+  run<undefined>(store, 'readwrite', (s) => s.delete(key));
+
+export const idbClear = (store: StoreName) =>
+  run<undefined>(store, 'readwrite', (s) => s.clear());
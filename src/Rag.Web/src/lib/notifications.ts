@@ -0,0 +1,23 @@
+/**
+ * Thin wrapper around the browser Notification API. Everything is a no-op where
+ * notifications are unsupported or the user has not granted permission.
+ */
+const supported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Asks for permission once. Call it from a user gesture such as an upload click.
+ */
+export function requestNotificationPermission(): void {
+  if (supported() && Notification.permission === 'default') {
+    void Notification.requestPermission().catch(() => undefined);
+  }
+}
+
+export function notify(title: string, body: string): void {
+  if (!supported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body });
+  } catch (err) {
+    console.warn('[Notifications] Could not show notification', err);
+  }
+}
@@ -0,0 +1,46 @@
+import { idbClear, idbDelete, idbGet, idbPut, IDB_STORES } from '@/lib/idb';
+
+const keyFor = (tenantId: string, documentId: string) => `${tenantId}:${documentId}`;
+
+/**
+ * Keeps an uploaded PDF in the browser so citations can open it on the cited page.
+ * Returns false when the file could not be stored (e.g. the storage quota is used up).
+ */
+export async function savePdfFile(tenantId: string, documentId: string, file: Blob): Promise<boolean> {
+  try {
+    await idbPut(IDB_STORES.pdfFiles, keyFor(tenantId, documentId), file);
+    return true;
+  } catch (err) {
+    // The viewer is a convenience; failing to store the file must not fail the upload
+    console.warn('[PDF] Could not store file for', documentId, err);
+    return false;
+  }
+}
+
+export async function getPdfFile(tenantId: string, documentId: string): Promise<Blob | undefined> {
+  try {
+    return await idbGet<Blob>(IDB_STORES.pdfFiles, keyFor(tenantId, documentId));
+  } catch (err) {
+    console.warn('[PDF] Could not read file for', documentId, err);
+    return undefined;
+  }
+}
+
+export async function deletePdfFile(tenantId: string, documentId: string): Promise<void> {
+  try {
+    await idbDelete(IDB_STORES.pdfFiles, keyFor(tenantId, documentId));
+  } catch (err) {
+    console.warn('[PDF] Could not delete file for', documentId, err);
+  }
+}
+
+/**
+ * Removes every stored PDF, for all tenants (on logout).
+ */
+export async function clearPdfFiles(): Promise<void> {
+  try {
+    await idbClear(IDB_STORES.pdfFiles);
+  } catch (err) {
+    console.warn('[PDF] Could not clear stored files', err);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Locates a retrieved chunk in the text items pdf.js extracts from a page. The server
+ * extracts PDF text with a different library, so the chunk is aligned word by word
+ * rather than searched for as an exact string.
+ */
+
+export interface ChunkMatch {
+  /** Indices of the text items covered by the chunk */
+  itemIndices: number[];
+  /** Length in words of the longest run shared by chunk and page */
+  score: number;
+}
+
+// Shorter shared runs are usually common phrases rather than the chunk itself
+const MIN_RUN_WORDS = 3;
+
+const wordsOf = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Finds the longest run of words the chunk shares with the page and projects the whole
+ * chunk onto the page around it. Returns null when nothing convincing matches.
+ */
+export function matchChunkInItems(items: string[], chunkText: string): ChunkMatch | null {
+  const pageWords: string[] = [];
+  const itemOfWord: number[] = [];
+  items.forEach((item, index) => {
+    for (const word of wordsOf(item)) {
+      pageWords.push(word);
+      itemOfWord.push(index);
+    }
+  });
+  const chunkWords = wordsOf(chunkText);
+  if (pageWords.length === 0 || chunkWords.length === 0) return null;
+
+  // Longest common run of words, keeping one row of the dynamic programming table
+  let best = 0;
+  let bestPageEnd = 0;
+  let bestChunkEnd = 0;
+  let previous = new Array<number>(chunkWords.length + 1).fill(0);
+  for (let i = 1; i <= pageWords.length; i++) {
+    const current = new Array<number>(chunkWords.length + 1).fill(0);
+    for (let j = 1; j <= chunkWords.length; j++) {
+      if (pageWords[i - 1] === chunkWords[j - 1]) {
+        current[j] = previous[j - 1] + 1;
+        if (current[j] > best) {
+          best = current[j];
+          bestPageEnd = i;
+          bestChunkEnd = j;
+        }
+      }
+    }
+    previous = current;
+  }
+
+  if (best < Math.min(MIN_RUN_WORDS, chunkWords.length)) return null;
+
+  // Align the chunk on the run; the chunk may start on the previous page or end on the next
+  const offset = bestPageEnd - bestChunkEnd;
+  const first = Math.max(0, offset);
+  const last = Math.min(pageWords.length, offset + chunkWords.length) - 1;
+
+  const itemIndices = [...new Set(itemOfWord.slice(first, last + 1))];
+  return { itemIndices, score: best };
+}
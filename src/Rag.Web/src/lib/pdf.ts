@@ -0,0 +1,53 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+/**
+ * pdf.js is large, so it is only loaded the first time a PDF is opened.
+ */
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+export function loadPdfjs(): Promise<typeof import('pdfjs-dist')> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist')
+      .then((pdfjs) => {
+        pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+        return pdfjs;
+      })
+      .catch((err) => {
+        pdfjsPromise = null;
+        throw err;
+      });
+  }
+  return pdfjsPromise;
+}
+
+export async function openPdf(file: Blob): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+}
+
+/**
+ * Text of each item on a page, in the order pdf.js renders them in its text layer.
+ */
+export async function getPageTextItems(pdf: PDFDocumentProxy, pageNumber: number): Promise<string[]> {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  return content.items.flatMap((item) => ('str' in item ? [item.str] : []));
+}
+
+/**
+ * Text of every page, one line per page. Used to screen a PDF before upload; the API
+ * extracts the text it ingests on its own.
+ */
+export async function extractPdfText(file: Blob): Promise<string> {
+  const pdf = await openPdf(file);
+  try {
+    const pages: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      pages.push((await getPageTextItems(pdf, n)).join(' '));
+    }
+    return pages.join('\n');
+  } finally {
+    void pdf.destroy();
+  }
+}
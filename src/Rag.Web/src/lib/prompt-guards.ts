@@ -0,0 +1,231 @@
+/**
+ * Client-side port of the patterns in Rag.Core/Text/PromptGuards.cs, used to screen
+ * document text before it is ingested. The server only strips these at query time, so
+ * flagged spans in an ingested document are silently replaced by "[removed]" in answers.
+ * Keep the rules in the same order as the C# arrays when either side changes.
+ */
+
+import { InjectionAcknowledgement, InjectionFindingSummary, InjectionSeverity } from '@/types';
+
+interface InjectionRule {
+  id: string;
+  label: string;
+  severity: InjectionSeverity;
+  pattern: RegExp;
+  /** Whether PromptGuards.SanitizeContext removes matches at query time */
+  strippedByServer: boolean;
+}
+
+export interface InjectionFinding {
+  ruleId: string;
+  label: string;
+  severity: InjectionSeverity;
+  /** Offsets into the scanned text, end exclusive */
+  start: number;
+  end: number;
+  text: string;
+  strippedByServer: boolean;
+}
+
+// .NET's \w and \b are Unicode-aware; JavaScript's are ASCII-only, which only matters
+// for the special-character rule below
+const rules: InjectionRule[] = [
+  // InjectionPatterns: role manipulation
+  {
+    id: 'ignore-instructions',
+    label: 'Ignore previous instructions',
+    severity: 'high',
+    pattern: /\b(ignore|disregard|forget)\b.*\b(instructions|system|previous|prior)\b/gi,
+    strippedByServer: true,
+  },
+  {
+    id: 'identity-override',
+    label: 'Assistant identity override',
+    severity: 'medium',
+    pattern: /\byou are (now |chatgpt|gpt-|claude|an? ai|a language model)/gi,
+    strippedByServer: true,
+  },
+  {
+    id: 'privileged-roleplay',
+    label: 'Privileged role-play',
+    severity: 'medium',
+    pattern: /\b(pretend|act as|roleplay as|you're now)\b.*\b(admin|developer|system)\b/gi,
+    strippedByServer: true,
+  },
+  // InjectionPatterns: instruction override
+  {
+    id: 'system-prompt-label',
+    label: 'System prompt override',
+    severity: 'high',
+    pattern: /\b(system prompt|your instructions|your rules):\s*/gi,
+    strippedByServer: true,
+  },
+  {
+    id: 'instruction-block',
+    label: 'Hidden instruction block',
+    severity: 'high',
+    pattern: /BEGIN (SYSTEM|INSTRUCTIONS|ADMIN|ROOT)[\s\S]*?END \1/gi,
+    strippedByServer: true,
+  },
+  {
+    id: 'privileged-tag',
+    label: 'Privileged role tag',
+    severity: 'high',
+    pattern: /\[SYSTEM\]|\[ADMIN\]|\[ROOT\]|\[OVERRIDE\]/gi,
+    strippedByServer: true,
+  },
+  // InjectionPatterns: developer mode / jailbreak attempts
+  {
+    id: 'privileged-mode',
+    label: 'Developer or debug mode',
+    severity: 'medium',
+    pattern: /\b(developer mode|debug mode|god mode|admin mode)\b/gi,
+    strippedByServer: true,
+  },
+  {
+    id: 'enable-mode',
+    label: 'Enable privileged mode',
+    severity: 'medium',
+    pattern: /\benable (developer|debug|admin|god) mode\b/gi,
+    strippedByServer: true,
+  },
+  {
+    // Case-insensitive like the server, so the name "Dan" matches too; only reported
+    id: 'jailbreak-dan',
+    label: 'Jailbreak ("do anything now")',
+    severity: 'low',
+    pattern: /\b(do anything now|DAN)\b/gi,
+    strippedByServer: true,
+  },
+  // InjectionPatterns: prompt extraction
+  {
+    id: 'prompt-extraction',
+    label: 'Prompt extraction request',
+    severity: 'medium',
+    pattern: /\b(repeat|print|show|display|output|return)\b.*\b(prompt|instructions|system message)\b/gi,
+    strippedByServer: true,
+  },
+  {
+    id: 'prompt-question',
+    label: 'Question about instructions',
+    severity: 'medium',
+    pattern: /\bwhat (is|are) your (instructions|system prompt|rules)/gi,
+    strippedByServer: true,
+  },
+  // SuspiciousPatterns: logged by the server, never removed
+  {
+    id: 'base64',
+    label: 'Possible encoded payload',
+    severity: 'low',
+    pattern: /[A-Za-z0-9+/]{40,}={0,2}/g,
+    strippedByServer: false,
+  },
+  {
+    id: 'cyrillic',
+    label: 'Cyrillic characters (possible homoglyphs)',
+    severity: 'low',
+    pattern: /[\u0400-\u04FF]+/g,
+    strippedByServer: false,
+  },
+  {
+    id: 'greek',
+    label: 'Greek characters (possible homoglyphs)',
+    severity: 'low',
+    pattern: /[\u0370-\u03FF]+/g,
+    strippedByServer: false,
+  },
+  {
+    id: 'special-characters',
+    label: 'Long run of special characters',
+    severity: 'low',
+    pattern: /[^\p{L}\p{Mn}\p{Nd}\p{Pc}\s]{20,}/gu,
+    strippedByServer: false,
+  },
+  // Client only: text a reader cannot see but the model still receives
+  {
+    id: 'invisible-characters',
+    label: 'Invisible characters',
+    severity: 'medium',
+    pattern: /[\u200B-\u200D\u2060\u2062-\u2064]+/g,
+    strippedByServer: false,
+  },
+];
+
+const SEVERITY_RANK: Record<InjectionSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+/** Findings at or above this severity must be stripped or acknowledged before ingest */
+export const isBlockingFinding = (finding: { severity: InjectionSeverity }) =>
+  SEVERITY_RANK[finding.severity] >= SEVERITY_RANK.medium;
+
+/**
+ * Finds every match of every rule, ordered by position.
+ */
+export function scanForInjection(text: string): InjectionFinding[] {
+  if (!text.trim()) return [];
+
+  const findings: InjectionFinding[] = [];
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      findings.push({
+        ruleId: rule.id,
+        label: rule.label,
+        severity: rule.severity,
+        start,
+        end: start + match[0].length,
+        text: match[0],
+        strippedByServer: rule.strippedByServer,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+export function highestSeverity(findings: InjectionFinding[]): InjectionSeverity | null {
+  return findings.reduce<InjectionSeverity | null>(
+    (max, f) => (max === null || SEVERITY_RANK[f.severity] > SEVERITY_RANK[max] ? f.severity : max),
+    null
+  );
+}
+
+/**
+ * Removes the given spans from the text; overlapping spans are merged first.
+ */
+export function stripFindings(text: string, findings: InjectionFinding[]): string {
+  const spans = [...findings].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.end <= cursor) continue;
+    result += text.slice(cursor, Math.max(cursor, span.start));
+    cursor = span.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Counts findings per rule, most severe first, for storing on the document record.
+ */
+export function summarizeFindings(findings: InjectionFinding[]): InjectionFindingSummary[] {
+  const byRule = new Map<string, InjectionFindingSummary>();
+  for (const f of findings) {
+    const entry = byRule.get(f.ruleId);
+    if (entry) entry.count++;
+    else byRule.set(f.ruleId, { ruleId: f.ruleId, label: f.label, severity: f.severity, count: 1 });
+  }
+  return [...byRule.values()].sort(
+    (a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.count - a.count
+  );
+}
+
+/**
+ * Record for a document whose flagged text the user chose to ingest unchanged;
+ * undefined when nothing blocking was found.
+ */
+export function acknowledgeFindings(findings: InjectionFinding[]): InjectionAcknowledgement | undefined {
+  const blocking = findings.filter(isBlockingFinding);
+  return blocking.length > 0
+    ? { acknowledgedAt: new Date(), findings: summarizeFindings(blocking) }
+    : undefined;
+}
@@ -0,0 +1,122 @@
+import { PromptTemplate } from '@/types';
+import { generateId } from '@/lib/utils';
+import { MAX_SYSTEM_PROMPT_LENGTH } from '@/lib/chat-settings';
+
+/**
+ * Workspace libraries of system prompts and question templates, and the JSON format they
+ * are exported and imported in.
+ */
+
+const EXPORT_VERSION = 1;
+
+const VARIABLE = /\{([\p{L}_][\p{L}\p{N}_ ]*)\}/gu;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isTemplateEntry = (value: unknown): value is Pick<PromptTemplate, 'kind' | 'name' | 'text'> =>
+  isRecord(value) &&
+  (value.kind === 'system' || value.kind === 'question') &&
+  typeof value.name === 'string' &&
+  value.name.trim() !== '' &&
+  typeof value.text === 'string' &&
+  value.text.trim() !== '';
+
+const template = (kind: PromptTemplate['kind'], name: string, text: string): PromptTemplate => ({
+  id: `default-${kind}-${name.toLowerCase().replace(/\W+/g, '-')}`,
+  kind,
+  name,
+  text,
+  updatedAt: new Date(0),
+});
+
+/** What a workspace starts with until its library is edited */
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  template('question', 'What is Qdrant?', 'What is Qdrant?'),
+  template('question', 'Search GitHub', 'Find popular vector database repos on GitHub'),
+  template('question', 'Multi-step research', 'Research vector databases using docs and GitHub'),
+  template('question', 'Store Memory', 'Remember that I prefer detailed technical explanations'),
+  template('question', 'Summarise a document', 'Summarise {document} for {audience}'),
+  template(
+    'system',
+    'Concise and cited',
+    'You are a precise assistant. Answer in a few sentences and cite every document you rely on.'
+  ),
+];
+
+export const getPromptLibrary = (
+  libraries: Record<string, PromptTemplate[]>,
+  tenantId: string | undefined
+): PromptTemplate[] => (tenantId && libraries[tenantId]) || DEFAULT_PROMPT_TEMPLATES;
+
+/**
+ * Placeholder names in order of first use, e.g. ["document", "audience"].
+ */
+export function extractTemplateVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(VARIABLE)].map((m) => m[1].trim()))];
+}
+
+/**
+ * Replaces each placeholder with its value; placeholders without a value are kept.
+ */
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE, (placeholder, name: string) => values[name.trim()]?.trim() || placeholder);
+}
+
+export function exportPromptLibrary(templates: PromptTemplate[]): string {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      templates: templates.map(({ kind, name, text }) => ({ kind, name, text })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads an exported library. Throws with a message for the user when the file is not one.
+ */
+export function parsePromptLibrary(json: string): PromptTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(data) || !Array.isArray(data.templates)) {
+    throw new Error('The file does not contain a template library');
+  }
+  if (data.version !== EXPORT_VERSION) {
+    throw new Error(`Unsupported library version: ${String(data.version)}`);
+  }
+
+  return data.templates.map((entry: unknown, idx: number) => {
+    if (!isTemplateEntry(entry)) {
+      throw new Error(`Template ${idx + 1} needs a kind ("system" or "question"), a name and a text`);
+    }
+    const { kind, name, text } = entry;
+    // The agent rejects longer system prompts, so such a template could never be used
+    if (kind === 'system' && text.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      throw new Error(
+        `System prompt "${name.trim()}" is longer than ${MAX_SYSTEM_PROMPT_LENGTH} characters`
+      );
+    }
+    return { id: generateId(), kind, name: name.trim(), text, updatedAt: new Date() };
+  });
+}
+
+/**
+ * Adds imported templates to a library. An imported template replaces the one of the same
+ * kind and name, so importing the same file twice does not duplicate entries.
+ */
+export function mergePromptLibraries(current: PromptTemplate[], imported: PromptTemplate[]): PromptTemplate[] {
+  const keyOf = (t: PromptTemplate) => `${t.kind}:${t.name.toLowerCase()}`;
+  const importedByKey = new Map(imported.map((t) => [keyOf(t), t] as const));
+  const kept = current.map((t) => {
+    const replacement = importedByKey.get(keyOf(t));
+    return replacement ? { ...replacement, id: t.id } : t;
+  });
+  const keptKeys = new Set(current.map(keyOf));
+  return [...kept, ...imported.filter((t) => !keptKeys.has(keyOf(t)))];
+}
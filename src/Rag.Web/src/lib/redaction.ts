@@ -0,0 +1,305 @@
+/**
+ * Detection and masking of personal data and credentials in document text before it is
+ * ingested, so that they never reach the embedding store.
+ */
+
+import {
+  CustomRedactionRule,
+  RedactionCategory,
+  RedactionMask,
+  RedactionRuleConfig,
+  RedactionSettings,
+  RedactionSummary,
+} from '@/types';
+
+export interface RedactionRule {
+  id: string;
+  label: string;
+  category: RedactionCategory;
+  /** Shown in place of the value with the "placeholder" mask */
+  placeholder: string;
+  pattern: RegExp;
+  /** Capture group holding the sensitive value; the whole match when omitted */
+  group?: number;
+  /** Rejects matches that only look like the data, e.g. card numbers failing Luhn */
+  validate?: (value: string) => boolean;
+  defaults: RedactionRuleConfig;
+}
+
+export interface SensitiveFinding {
+  /** Unique within one detection pass */
+  id: string;
+  ruleId: string;
+  label: string;
+  category: RedactionCategory;
+  placeholder: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RedactionDecision {
+  redact: boolean;
+  mask: RedactionMask;
+}
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const BUILT_IN_RULES: RedactionRule[] = [
+  {
+    id: 'private-key',
+    label: 'Private key',
+    category: 'secret',
+    placeholder: 'PRIVATE_KEY',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    defaults: { enabled: true, mask: 'placeholder' },
+  },
+  {
+    id: 'jwt',
+    label: 'JSON Web Token',
+    category: 'secret',
+    placeholder: 'JWT',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+    defaults: { enabled: true, mask: 'placeholder' },
+  },
+  {
+    id: 'aws-access-key',
+    label: 'AWS access key',
+    category: 'secret',
+    placeholder: 'AWS_KEY',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    defaults: { enabled: true, mask: 'placeholder' },
+  },
+  {
+    id: 'api-token',
+    label: 'API token',
+    category: 'secret',
+    placeholder: 'API_KEY',
+    // OpenAI/Anthropic, GitHub, Slack and Google key formats
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/g,
+    defaults: { enabled: true, mask: 'placeholder' },
+  },
+  {
+    id: 'credential-assignment',
+    label: 'Password or secret value',
+    category: 'secret',
+    placeholder: 'SECRET',
+    pattern: /\b(?:api[_-]?key|secret|password|passwd|pwd|token)\b["']?\s*[:=]\s*["']?([^\s"',;]{6,})/gi,
+    group: 1,
+    defaults: { enabled: true, mask: 'placeholder' },
+  },
+  {
+    id: 'email',
+    label: 'Email address',
+    category: 'pii',
+    placeholder: 'EMAIL',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    defaults: { enabled: true, mask: 'partial' },
+  },
+  {
+    id: 'credit-card',
+    label: 'Card number',
+    category: 'pii',
+    placeholder: 'CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (value) => passesLuhn(value),
+    defaults: { enabled: true, mask: 'partial' },
+  },
+  {
+    id: 'us-ssn',
+    label: 'US Social Security number',
+    category: 'pii',
+    placeholder: 'SSN',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    defaults: { enabled: true, mask: 'placeholder' },
+  },
+  {
+    id: 'phone',
+    label: 'Phone number',
+    category: 'pii',
+    placeholder: 'PHONE',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}[ .-]\d{3,4}(?:[ .-]?\d{2,4})?(?![\w-])/g,
+    validate: (value) => digitCount(value) >= 9 && digitCount(value) <= 15,
+    defaults: { enabled: true, mask: 'partial' },
+  },
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { rules: {}, customRules: [] };
+
+export const getRuleConfig = (rule: RedactionRule, settings: RedactionSettings) =>
+  settings.rules[rule.id] ?? rule.defaults;
+
+/**
+ * Compiles a workspace rule, or returns null when its pattern is not a valid expression.
+ */
+export function compileCustomRule(rule: CustomRedactionRule): RedactionRule | null {
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(rule.pattern, rule.caseInsensitive ? 'gi' : 'g');
+  } catch {
+    return null;
+  }
+  // An expression that matches the empty string would flag every position
+  if (pattern.test('')) return null;
+
+  return {
+    id: rule.id,
+    label: rule.label,
+    category: rule.category,
+    placeholder: rule.label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') || 'REDACTED',
+    pattern,
+    defaults: { enabled: rule.enabled, mask: rule.mask },
+  };
+}
+
+/**
+ * Rules enabled for a workspace, built-in ones first, each with its configured mask.
+ */
+export function getActiveRules(settings: RedactionSettings): { rule: RedactionRule; mask: RedactionMask }[] {
+  const builtIn = BUILT_IN_RULES.map((rule) => ({ rule, config: getRuleConfig(rule, settings) }));
+  const custom = settings.customRules.flatMap((custom) => {
+    const rule = compileCustomRule(custom);
+    return rule ? [{ rule, config: rule.defaults }] : [];
+  });
+  return [...builtIn, ...custom]
+    .filter(({ config }) => config.enabled)
+    .map(({ rule, config }) => ({ rule, mask: config.mask }));
+}
+
+/**
+ * Finds sensitive values in the text. Where matches overlap, the rule listed first wins,
+ * so a key inside a private key block is reported once.
+ */
+export function detectSensitiveData(text: string, settings: RedactionSettings): SensitiveFinding[] {
+  const findings: SensitiveFinding[] = [];
+  const taken: [number, number][] = [];
+  const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+
+  for (const { rule } of getActiveRules(settings)) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[rule.group ?? 0];
+      if (!value || (rule.validate && !rule.validate(value))) continue;
+
+      const offset = rule.group ? match[0].lastIndexOf(value) : 0;
+      const start = (match.index ?? 0) + offset;
+      const end = start + value.length;
+      if (overlaps(start, end)) continue;
+
+      taken.push([start, end]);
+      findings.push({
+        id: `${rule.id}:${start}`,
+        ruleId: rule.id,
+        label: rule.label,
+        category: rule.category,
+        placeholder: rule.placeholder,
+        start,
+        end,
+        text: value,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Every finding redacted with its rule's configured mask.
+ */
+export function defaultDecisions(
+  findings: SensitiveFinding[],
+  settings: RedactionSettings
+): Record<string, RedactionDecision> {
+  const masks = new Map(getActiveRules(settings).map(({ rule, mask }) => [rule.id, mask]));
+  return Object.fromEntries(
+    findings.map((f) => [f.id, { redact: true, mask: masks.get(f.ruleId) ?? 'placeholder' }])
+  );
+}
+
+/**
+ * The replacement text for a finding under the given mask.
+ */
+export function maskValue(finding: SensitiveFinding, mask: RedactionMask): string {
+  switch (mask) {
+    case 'remove':
+      return '';
+    case 'placeholder':
+      return `[${finding.placeholder}]`;
+    case 'partial': {
+      if (finding.ruleId === 'email') {
+        const [local, domain] = finding.text.split('@');
+        return `${local[0]}***@${domain}`;
+      }
+      // Keep the last four characters and the separators
+      const keepFrom = finding.text.length - 4;
+      return finding.text.replace(/[A-Za-z0-9]/g, (char, idx: number) => (idx >= keepFrom ? char : '*'));
+    }
+  }
+}
+
+export function applyRedactions(
+  text: string,
+  findings: SensitiveFinding[],
+  decisions: Record<string, RedactionDecision>
+): string {
+  let result = '';
+  let cursor = 0;
+  for (const finding of findings) {
+    const decision = decisions[finding.id];
+    if (!decision?.redact) continue;
+    result += text.slice(cursor, finding.start) + maskValue(finding, decision.mask);
+    cursor = finding.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * What was redacted, per rule, for storing on the document record. Null when the text
+ * had no findings.
+ */
+export function summarizeRedactions(
+  findings: SensitiveFinding[],
+  decisions: Record<string, RedactionDecision>
+): RedactionSummary | null {
+  if (findings.length === 0) return null;
+
+  const byRule = new Map<string, { ruleId: string; label: string; count: number }>();
+  let kept = 0;
+  for (const finding of findings) {
+    if (!decisions[finding.id]?.redact) {
+      kept++;
+      continue;
+    }
+    const entry = byRule.get(finding.ruleId);
+    if (entry) entry.count++;
+    else byRule.set(finding.ruleId, { ruleId: finding.ruleId, label: finding.label, count: 1 });
+  }
+
+  return { redactedAt: new Date(), redacted: [...byRule.values()], kept };
+}
+
+/**
+ * Detects and masks everything with the workspace defaults, for paths without a review step.
+ */
+export function redactWithDefaults(text: string, settings: RedactionSettings) {
+  const findings = detectSensitiveData(text, settings);
+  const decisions = defaultDecisions(findings, settings);
+  return {
+    text: applyRedactions(text, findings, decisions),
+    summary: summarizeRedactions(findings, decisions),
+  };
+}
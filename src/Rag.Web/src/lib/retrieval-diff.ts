@@ -0,0 +1,42 @@
+/**
+ * Compares two retrieval runs for the same answer, so re-running with a different topK
+ * or a rephrased question shows which chunks entered or left the set.
+ */
+
+interface RankedHit {
+  documentId: string;
+  chunkIndex: number;
+}
+
+export type HitChange<T extends RankedHit> =
+  | { kind: 'entered'; hit: T; rank: number }
+  | { kind: 'kept'; hit: T; rank: number; previousRank: number };
+
+export interface RetrievalDiff<T extends RankedHit> {
+  /** Hits of the new run in rank order, each marked as new or carried over */
+  current: HitChange<T>[];
+  /** Hits of the previous run that the new run no longer returns */
+  left: { hit: T; previousRank: number }[];
+}
+
+export const hitKey = (hit: RankedHit) => `${hit.documentId}:${hit.chunkIndex}`;
+
+/**
+ * Ranks are 1-based positions in each run.
+ */
+export function diffRetrieval<T extends RankedHit>(previous: T[], next: T[]): RetrievalDiff<T> {
+  const previousRank = new Map(previous.map((hit, i) => [hitKey(hit), i + 1] as const));
+  const nextKeys = new Set(next.map(hitKey));
+
+  const current = next.map((hit, i): HitChange<T> => {
+    const rank = previousRank.get(hitKey(hit));
+    return rank === undefined
+      ? { kind: 'entered', hit, rank: i + 1 }
+      : { kind: 'kept', hit, rank: i + 1, previousRank: rank };
+  });
+  const left = previous
+    .map((hit, i) => ({ hit, previousRank: i + 1 }))
+    .filter(({ hit }) => !nextKeys.has(hitKey(hit)));
+
+  return { current, left };
+}
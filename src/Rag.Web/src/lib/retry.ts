@@ -0,0 +1,124 @@
+/**
+ * Retry policy for ApiClient.
+ *
+ * Idempotent requests are retried on network errors and transient gateway errors.
+ * Any request is retried on 429/503 when the server says when to come back
+ * (Retry-After header or the `retryAfter` field written by RateLimitingConfiguration),
+ * because those responses are rejected before the request is processed.
+ */
+export interface RetryPolicy {
+  enabled: boolean;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Retry-After values above this are not waited out; the error is returned instead */
+  maxRetryAfterMs: number;
+  idempotentMethods: string[];
+  /** Statuses retried for idempotent methods even without Retry-After */
+  transientStatuses: number[];
+  /** Statuses retried for any method when Retry-After is present */
+  retryAfterStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  enabled: true,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+  idempotentMethods: ['get', 'head', 'options', 'put', 'delete'],
+  transientStatuses: [502, 503, 504],
+  retryAfterStatuses: [429, 503],
+};
+
+export interface RetryContext {
+  method: string;
+  /** Undefined for network errors (no response) */
+  status?: number;
+  retryAfterMs?: number | null;
+  /** Number of retries already made */
+  attempt: number;
+}
+
+/**
+ * Parses a Retry-After value: delta-seconds or an HTTP date.
+ */
+export function parseRetryAfter(header: unknown, body?: unknown): number | null {
+  if (typeof header === 'string' && header.trim() !== '') {
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // RateLimitingConfiguration.OnRejected writes { retryAfter: seconds } in the body
+  let parsed = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      parsed = null;
+    }
+  }
+  const retryAfter = (parsed as { retryAfter?: unknown } | null)?.retryAfter;
+  if (typeof retryAfter === 'number' && retryAfter >= 0) {
+    return retryAfter * 1000;
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with full jitter.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Returns how long to wait before retrying, or null when the request should not be retried.
+ */
+export function getRetryDelay(policy: RetryPolicy, ctx: RetryContext): number | null {
+  if (!policy.enabled || ctx.attempt >= policy.maxRetries) return null;
+
+  const idempotent = policy.idempotentMethods.includes(ctx.method.toLowerCase());
+
+  if (ctx.status !== undefined && policy.retryAfterStatuses.includes(ctx.status) && ctx.retryAfterMs != null) {
+    if (ctx.retryAfterMs > policy.maxRetryAfterMs) return null;
+    // Small jitter so queued requests don't all fire at the same instant
+    return ctx.retryAfterMs + Math.round(Math.random() * policy.baseDelayMs);
+  }
+
+  if (!idempotent) return null;
+
+  if (ctx.status === undefined || policy.transientStatuses.includes(ctx.status)) {
+    return backoffDelay(policy, ctx.attempt);
+  }
+
+  return null;
+}
+
+/**
+ * Waits for `ms`, rejecting with an AbortError as soon as the signal fires.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SSEConnection, SSEEvent, SSEOpenInfo, SSEParser } from '@/lib/sse';
+
+function parse(...chunks: string[]) {
+  const events: SSEEvent[] = [];
+  const retries: number[] = [];
+  const comments: string[] = [];
+  const parser = new SSEParser(
+    (event) => events.push(event),
+    (delayMs) => retries.push(delayMs),
+    (comment) => comments.push(comment)
+  );
+  chunks.forEach((chunk) => parser.feed(chunk));
+  parser.end();
+  return { events, retries, comments, parser };
+}
+
+describe('SSEParser', () => {
+  it.each([
+    ['LF', '\n'],
+    ['CRLF', '\r\n'],
+    ['CR', '\r'],
+  ])('frames events with %s line endings', (_name, eol) => {
+    const { events } = parse(`data: one${eol}${eol}data: two${eol}${eol}`);
+    expect(events.map((e) => e.data)).toEqual(['one', 'two']);
+  });
+
+  it('joins a CRLF split across chunks into one line ending', () => {
+    const { events } = parse('data: one\r', '\n\r', '\ndata: two\r\n\r\n');
+    expect(events.map((e) => e.data)).toEqual(['one', 'two']);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    const { events } = parse('data: first\ndata:second\ndata\n\n');
+    expect(events[0].data).toBe('first\nsecond\n');
+  });
+
+  it('reports comments and heartbeats without dispatching events', () => {
+    const { events, comments } = parse(': heartbeat\n\n:ping\ndata: x\n\n');
+    expect(comments).toEqual(['heartbeat', 'ping']);
+    expect(events.map((e) => e.data)).toEqual(['x']);
+  });
+
+  it('passes numeric retry values and ignores others', () => {
+    const { retries } = parse('retry: 2500\nretry: soon\n\n');
+    expect(retries).toEqual([2500]);
+  });
+
+  it('names events and resets the name after each dispatch', () => {
+    const { events } = parse('event: tool_start\ndata: {}\n\ndata: {}\n\n');
+    expect(events.map((e) => e.event)).toEqual(['tool_start', 'message']);
+  });
+
+  it('keeps the last id across events, including ones without data', () => {
+    const { events, parser } = parse('id: 1\ndata: a\n\ndata: b\n\nid: 3\n\n');
+    expect(events.map((e) => e.id)).toEqual(['1', '1']);
+    expect(parser.lastEventId).toBe('3');
+  });
+
+  it('discards an unterminated event at end of stream', () => {
+    const { events } = parse('data: complete\n\ndata: partial');
+    expect(events.map((e) => e.data)).toEqual(['complete']);
+  });
+});
+
+const streamOf = (body: string) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(body));
+        controller.close();
+      },
+    })
+  );
+
+describe('SSEConnection', () => {
+  it('reconnects with the last event id as Last-Event-ID', async () => {
+    const bodies = ['id: s.0\ndata: a\n\nid: s.1\ndata: b\n\n', 'id: s.2\ndata: done\n\n'];
+    const sentIds: (string | undefined)[] = [];
+    const opens: SSEOpenInfo[] = [];
+    const data: string[] = [];
+
+    await new Promise<void>((resolve) => {
+      const connection = new SSEConnection({
+        url: '/stream',
+        reconnect: { initialDelayMs: 1, maxDelayMs: 1 },
+        transport: async (_url, init) => {
+          sentIds.push(init.headers['Last-Event-ID']);
+          return streamOf(bodies.shift() ?? '');
+        },
+        onOpen: (info) => opens.push(info),
+        onEvent: (event) => {
+          data.push(event.data);
+          if (event.data === 'done') {
+            connection.close();
+            resolve();
+          }
+        },
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      connection.open();
+    });
+
+    expect(sentIds).toEqual([undefined, 's.1']);
+    expect(opens).toEqual([
+      { attempt: 0, resumed: false },
+      { attempt: 1, resumed: true },
+    ]);
+    expect(data).toEqual(['a', 'b', 'done']);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Server-Sent Events client (Phase 8).
+ *
+ * `SSEParser` implements the event-stream framing rules from the HTML spec
+ * (named events, ids, retry, comments, multi-line data, CRLF/CR/LF line endings).
+ * `SSEConnection` runs the parser over a fetch body so custom auth headers can be
+ * sent (see `ApiClient.stream`), and adds reconnection with exponential backoff
+ * and heartbeat timeouts. A reconnect sends the last `id:` seen as Last-Event-ID so
+ * the server can resume; when no id was received `onOpen` reports `resumed: false`
+ * and callers restart the stream from scratch.
+ */
+
+export interface SSEEvent {
+  /** Event name from the `event:` field, `message` when absent */
+  event: string;
+  /** Data lines joined with `\n` */
+  data: string;
+  /** Last event id seen on the stream when this event was dispatched */
+  id?: string;
+}
+
+export type SSEConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed'
+  | 'failed';
+
+export interface SSEReconnectOptions {
+  enabled: boolean;
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface SSEOpenInfo {
+  /** 0 for the first connection, then the reconnect attempt number */
+  attempt: number;
+  /** True when the connection was opened with a Last-Event-ID header */
+  resumed: boolean;
+}
+
+export type SSETransport = (
+  url: string,
+  init: { headers: Record<string, string>; signal: AbortSignal }
+) => Promise<Response>;
+
+export interface SSEConnectionOptions {
+  url: string;
+  /** Resolved on every (re)connect so token or tenant changes are picked up */
+  headers?: () => Record<string, string>;
+  reconnect?: Partial<SSEReconnectOptions>;
+  /** Reconnect when no bytes (data or comments) arrive within this window */
+  heartbeatTimeoutMs?: number;
+  onEvent: (event: SSEEvent) => void;
+  onOpen?: (info: SSEOpenInfo) => void;
+  onStateChange?: (state: SSEConnectionState, attempt: number) => void;
+  onError?: (error: Error, willRetry: boolean) => void;
+  /** Opens the HTTP request; plain fetch when omitted */
+  transport?: SSETransport;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: SSEReconnectOptions = {
+  enabled: true,
+  maxRetries: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export const DEFAULT_HEARTBEAT_TIMEOUT_MS = 60000;
+
+export class SSEHttpError extends Error {
+  constructor(public readonly status: number, body: string) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = 'SSEHttpError';
+  }
+}
+
+export class SSEHeartbeatTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No data received for ${timeoutMs}ms`);
+    this.name = 'SSEHeartbeatTimeoutError';
+  }
+}
+
+const defaultTransport: SSETransport = (url, init) =>
+  fetch(url, { method: 'GET', ...init });
+
+/**
+ * Incremental parser for `text/event-stream` bodies.
+ * Feed decoded text as it arrives; complete events are passed to `onEvent`.
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private started = false;
+
+  /** Value of the most recent `id:` field (persists across events, per spec) */
+  lastEventId: string | undefined;
+
+  constructor(
+    private readonly onEvent: (event: SSEEvent) => void,
+    private readonly onRetry?: (delayMs: number) => void,
+    private readonly onComment?: (comment: string) => void
+  ) {}
+
+  feed(chunk: string) {
+    if (!this.started) {
+      this.started = true;
+      // Strip a leading byte order mark
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        chunk = chunk.slice(1);
+      }
+    }
+
+    this.buffer += chunk;
+
+    while (this.buffer.length > 0) {
+      const match = /\r\n|\r|\n/.exec(this.buffer);
+      if (!match) break;
+
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+      this.processLine(line);
+    }
+  }
+
+  /** Flushes a pending line at end of stream. An unterminated event is discarded, per spec. */
+  end() {
+    if (this.buffer.endsWith('\r')) {
+      const line = this.buffer.slice(0, -1);
+      this.buffer = '';
+      this.processLine(line);
+    }
+    this.buffer = '';
+    this.dataLines = [];
+    this.eventType = '';
+  }
+
+  private processLine(line: string) {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.onComment?.(line.slice(1).trimStart());
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.onRetry?.(parseInt(value, 10));
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch() {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return;
+    }
+
+    const event: SSEEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+    };
+
+    this.dataLines = [];
+    this.eventType = '';
+    this.onEvent(event);
+  }
+}
+
+/**
+ * A single logical SSE subscription that survives dropped connections.
+ *
+ * State machine:
+ *   idle → connecting → open → (drop) → reconnecting → open → … → closed
+ *                                    ↘ (retries exhausted / fatal) → failed
+ */
+export class SSEConnection {
+  private state: SSEConnectionState = 'idle';
+  private attempt = 0;
+  private retryMs: number | null = null;
+  private stopped = false;
+  private controller: AbortController | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeUp: (() => void) | null = null;
+  private lastEventId: string | undefined;
+  private readonly reconnect: SSEReconnectOptions;
+
+  constructor(private readonly options: SSEConnectionOptions) {
+    this.reconnect = { ...DEFAULT_RECONNECT_OPTIONS, ...options.reconnect };
+  }
+
+  getState(): SSEConnectionState {
+    return this.state;
+  }
+
+  getLastEventId(): string | undefined {
+    return this.lastEventId;
+  }
+
+  open() {
+    if (this.state !== 'idle') return;
+    void this.run();
+  }
+
+  /** Stops the connection for good. Use `failed` when closing because of an application-level error. */
+  close(finalState: 'closed' | 'failed' = 'closed') {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.clearHeartbeat();
+    this.controller?.abort();
+    this.wakeUp?.();
+    this.setState(finalState);
+  }
+
+  private async run() {
+    this.setState('connecting');
+
+    while (!this.stopped) {
+      let error: Error;
+      try {
+        await this.connectOnce();
+        if (this.stopped) return;
+        error = new Error('Stream ended unexpectedly');
+      } catch (err) {
+        if (this.stopped) return;
+        error = err instanceof Error ? err : new Error('Unknown SSE error');
+      } finally {
+        this.clearHeartbeat();
+      }
+
+      const willRetry = this.shouldRetry(error);
+      console.warn('[SSE] Connection error:', error.message, { willRetry, attempt: this.attempt });
+      this.options.onError?.(error, willRetry);
+
+      if (!willRetry) {
+        this.stopped = true;
+        this.setState('failed');
+        return;
+      }
+
+      this.attempt++;
+      this.setState('reconnecting');
+      await this.sleep(this.nextDelay());
+    }
+  }
+
+  private async connectOnce() {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const headers: Record<string, string> = {
+      'Accept': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...this.options.headers?.(),
+    };
+    // An empty id clears the resume point, per spec
+    const resumed = Boolean(this.lastEventId);
+    if (resumed) {
+      headers['Last-Event-ID'] = this.lastEventId!;
+    }
+
+    console.log('[SSE] Connecting to:', this.options.url, { attempt: this.attempt, resumed });
+
+    const transport = this.options.transport ?? defaultTransport;
+    this.armHeartbeat(controller);
+    const response = await transport(this.options.url, {
+      headers,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new SSEHttpError(response.status, await response.text());
+    }
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    console.log('[SSE] Connection opened');
+    const openedAttempt = this.attempt;
+    this.attempt = 0;
+    this.setState('open');
+    this.options.onOpen?.({ attempt: openedAttempt, resumed });
+
+    const parser = new SSEParser(
+      (event) => {
+        if (!this.stopped) this.options.onEvent(event);
+      },
+      (delayMs) => {
+        this.retryMs = delayMs;
+      }
+    );
+    // Per spec the last event id carries over to the new connection
+    parser.lastEventId = this.lastEventId;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    try {
+      while (!this.stopped) {
+        this.armHeartbeat(controller);
+        const { done, value } = await reader.read();
+        if (done) {
+          parser.feed(decoder.decode());
+          parser.end();
+          this.lastEventId = parser.lastEventId;
+          break;
+        }
+        parser.feed(decoder.decode(value, { stream: true }));
+        // An id without data still moves the resume point
+        this.lastEventId = parser.lastEventId;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (controller.signal.aborted && controller.signal.reason instanceof Error) {
+      throw controller.signal.reason;
+    }
+  }
+
+  private shouldRetry(error: Error): boolean {
+    if (!this.reconnect.enabled || this.attempt >= this.reconnect.maxRetries) {
+      return false;
+    }
+    // SSEHttpError, or any transport error that carries an HTTP status
+    const status = (error as { status?: unknown }).status;
+    if (typeof status === 'number') {
+      // Client errors will not fix themselves, except timeouts and throttling
+      return status >= 500 || status === 408 || status === 429;
+    }
+    return true;
+  }
+
+  private nextDelay(): number {
+    const base = this.retryMs ?? this.reconnect.initialDelayMs;
+    const exponential = base * Math.pow(2, this.attempt - 1);
+    const jitter = Math.random() * 0.2 * exponential;
+    return Math.min(this.reconnect.maxDelayMs, exponential + jitter);
+  }
+
+  private armHeartbeat(controller: AbortController) {
+    const timeoutMs = this.options.heartbeatTimeoutMs ?? DEFAULT_HEARTBEAT_TIMEOUT_MS;
+    this.clearHeartbeat();
+    if (timeoutMs <= 0) return;
+    this.heartbeatTimer = setTimeout(() => {
+      controller.abort(new SSEHeartbeatTimeoutError(timeoutMs));
+    }, timeoutMs);
+  }
+
+  private clearHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+
+  private setState(state: SSEConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state, this.attempt);
+  }
+}
@@ -0,0 +1,68 @@
+import { UploadLimitsResponse } from '@/types';
+
+/**
+ * Client-side checks run before a file is queued: the server's size and type limits,
+ * document ID collisions and content hashes for duplicate detection.
+ */
+
+export interface UploadLimits {
+  maxFileBytes: number;
+  /** Lower-case extensions including the dot */
+  allowedExtensions: string[];
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * The defaults of ValidationSettings on the server (the same for every user), used until
+ * GET /documents/upload-limits answers or when it cannot be reached.
+ */
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  maxFileBytes: 10 * MB,
+  allowedExtensions: ['.pdf', '.txt', '.md', '.markdown', '.html', '.htm', '.csv', '.tsv', '.json', '.docx'],
+};
+
+export const toUploadLimits = (response: UploadLimitsResponse): UploadLimits => ({
+  maxFileBytes: response.maxFileSize,
+  allowedExtensions: response.allowedFileTypes.map((type) => type.toLowerCase()),
+});
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+/**
+ * Why the file exceeds the limits, or null when it is within them.
+ */
+export function checkUploadLimits(file: File, limits: UploadLimits): string | null {
+  if (!limits.allowedExtensions.includes(extensionOf(file.name))) {
+    return `the server only accepts ${limits.allowedExtensions.join(', ')} files`;
+  }
+  if (file.size > limits.maxFileBytes) {
+    return `larger than the ${Math.round(limits.maxFileBytes / MB)} MB limit`;
+  }
+  if (file.size === 0) {
+    return 'file is empty';
+  }
+  return null;
+}
+
+/**
+ * Hex SHA-256 of the file's bytes.
+ */
+export async function sha256Hex(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * `base`, or `base-2`, `base-3`, ... whichever is not taken yet.
+ */
+export function uniqueDocumentId(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+  for (let n = 2; ; n++) {
+    const candidate = `${base}-${n}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
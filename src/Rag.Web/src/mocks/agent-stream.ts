@@ -0,0 +1,74 @@
+import { AgentChatRequest, AgentMetrics } from '@/types';
+import { sleep } from '@/lib/retry';
+import { sseFrame, sseResponse } from './index';
+
+const cannedAnswer = (documentId: string) =>
+  'This is a simulated agent answer from the local stand-in stream. ' +
+  'It searched your documents first, then combined the results into a short summary. ' +
+  `Set VITE_USE_MOCKS=false and start the API to see real answers [${documentId}:0].`;
+
+/**
+ * Emits the agent stream protocol (token, tool_start, tool_result, citation, metrics, done)
+ * for a request, with realistic pauses between tool calls and tokens.
+ */
+export function createMockAgentStream(request: AgentChatRequest, signal?: AbortSignal): Response {
+  async function* frames(): AsyncGenerator<string> {
+    const started = Date.now();
+    const topK = request.config?.topKDocuments ?? 3;
+    // A document filter restricts the search, so only the selected documents are cited
+    const documentIds = request.config?.documentIds ?? [];
+    const cited = documentIds.length > 0 ? documentIds.slice(0, topK) : ['mock-doc'];
+    const tools: { name: string; args: Record<string, any>; ms: number }[] = [
+      {
+        name: 'rag_search',
+        args: { query: request.message, topK, ...(documentIds.length > 0 && { documentIds }) },
+        ms: 600,
+      },
+    ];
+    if (/github|repo/i.test(request.message)) {
+      tools.push({ name: 'github_search_repositories', args: { query: request.message }, ms: 900 });
+    }
+    if (/remember|memory/i.test(request.message)) {
+      tools.push({ name: 'memory', args: { action: 'store', content: request.message }, ms: 300 });
+    }
+
+    const executed = tools.slice(0, request.config?.maxToolCalls ?? 5);
+    for (const [idx, tool] of executed.entries()) {
+      const callId = `mock-call-${idx}`;
+      yield sseFrame('tool_start', {
+        callId,
+        toolName: tool.name,
+        arguments: tool.args,
+        reasoningTrace: `Calling ${tool.name} to gather context`,
+      });
+      await sleep(tool.ms, signal);
+      yield sseFrame('tool_result', {
+        callId,
+        result: `${tool.name} returned ${topK} results`,
+        durationMs: tool.ms,
+      });
+    }
+
+    for (const word of cannedAnswer(cited[0]).split(' ')) {
+      await sleep(40, signal);
+      yield sseFrame('token', { token: `${word} ` });
+    }
+
+    for (const [idx, documentId] of cited.entries()) {
+      yield sseFrame('citation', {
+        citation: { documentId, chunkIndex: 0, score: Math.round((0.91 - idx * 0.05) * 100) / 100 },
+      });
+    }
+
+    const metrics: AgentMetrics = {
+      toolCallsCount: executed.length,
+      documentsRetrieved: topK,
+      durationMs: Date.now() - started,
+      estimatedCost: 0.0012,
+    };
+    yield sseFrame('metrics', { metrics });
+    yield sseFrame('done', {});
+  }
+
+  return sseResponse(frames());
+}
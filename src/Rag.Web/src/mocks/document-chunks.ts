@@ -0,0 +1,56 @@
+import { DocumentChunksResponse } from '@/types';
+import { useAppStore } from '@/store/app-store';
+import { getDocumentVersions } from '@/lib/document-versions';
+import { chunkText } from '@/lib/chunker';
+import { sleep } from '@/lib/retry';
+
+const SYNTHETIC_CHUNKS = 8;
+const CHUNKS_PER_PAGE = 3;
+
+const SENTENCES = [
+  'Qdrant stores each chunk as a point whose payload carries the tenant and document IDs.',
+  'Retrieval embeds the question and returns the nearest chunks by cosine similarity.',
+  'Answers are generated only from the retrieved context and cite the chunks they use.',
+  'Documents are split into overlapping windows so passages are not cut mid-sentence.',
+  'Each workspace is isolated: searches never return chunks from another tenant.',
+  'Re-ingesting a document replaces all of its chunks with the new version.',
+];
+
+const syntheticChunk = (documentId: string, index: number) =>
+  Array.from({ length: 4 }, (_, i) => SENTENCES[(index + i) % SENTENCES.length]).join(' ') +
+  ` (Simulated passage ${index + 1} of ${documentId}.)`;
+
+/**
+ * Simulates the chunk retrieval endpoint. Documents whose text was captured locally
+ * (pasted or edited in the browser) are chunked like the server would; anything else,
+ * such as PDFs, gets placeholder passages.
+ */
+export async function getMockDocumentChunks(
+  documentId: string,
+  from: number,
+  to: number
+): Promise<DocumentChunksResponse> {
+  await sleep(250);
+
+  const tenantId = useAppStore.getState().currentTenant?.id;
+  const versions = tenantId ? await getDocumentVersions(tenantId, documentId) : [];
+  const latest = versions[versions.length - 1];
+
+  const texts = latest
+    ? chunkText(latest.text).chunks.map((chunk) => chunk.text)
+    : Array.from({ length: SYNTHETIC_CHUNKS }, (_, i) => syntheticChunk(documentId, i));
+
+  const start = Math.max(0, from);
+  const end = Math.min(texts.length - 1, to);
+  const chunks = [];
+  for (let i = start; i <= end; i++) {
+    chunks.push({
+      documentId,
+      chunkIndex: i,
+      text: texts[i],
+      pageNumber: latest ? undefined : Math.floor(i / CHUNKS_PER_PAGE) + 1,
+    });
+  }
+
+  return { documentId, totalChunks: texts.length, chunks };
+}
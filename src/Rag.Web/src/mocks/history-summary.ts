@@ -0,0 +1,16 @@
+import { AgentMessage } from '@/types';
+import { sleep } from '@/lib/retry';
+import { truncateText } from '@/lib/utils';
+
+/**
+ * Simulates summarising dropped turns with the chat model: an earlier summary is carried
+ * over and each question is listed.
+ */
+export async function getMockHistorySummary(messages: AgentMessage[], signal?: AbortSignal): Promise<string> {
+  await sleep(300, signal);
+  const earlier = messages.filter((m) => m.role === 'system').map((m) => m.content);
+  const questions = messages.filter((m) => m.role === 'user').map((m) => truncateText(m.content, 80));
+  return [...earlier, questions.length > 0 && `The user also asked: ${questions.join('; ')}.`]
+    .filter(Boolean)
+    .join(' ');
+}
@@ -0,0 +1,37 @@
+/**
+ * Local stand-ins for API features the .NET backend does not expose yet.
+ * Enable with VITE_USE_MOCKS=true to develop the UI without the API running.
+ */
+export const USE_MOCKS = import.meta.env.VITE_USE_MOCKS === 'true';
+
+/**
+ * Wraps an async generator of SSE frames in a streaming Response, like fetch would return.
+ */
+export function sseResponse(frames: AsyncGenerator<string>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await frames.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await frames.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+export const sseFrame = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
@@ -0,0 +1,69 @@
+import { IngestJobStatusResponse } from '@/types';
+
+const NORMAL_JOB_MS = 6000;
+const OCR_JOB_MS = 40000;
+const PAGES = 12;
+
+// When each job was first polled; progress is derived from elapsed time
+const firstSeen = new Map<string, number>();
+
+const hash = (value: string) =>
+  [...value].reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+/**
+ * Simulates the ingestion job status endpoint. The job ID decides the outcome so a
+ * given job behaves the same across reloads: every third job needs OCR and runs long,
+ * every fifth fails part way through.
+ */
+export function getMockJobStatus(jobId: string): IngestJobStatusResponse {
+  if (!firstSeen.has(jobId)) {
+    firstSeen.set(jobId, Date.now());
+  }
+
+  const h = hash(jobId);
+  const usedOcr = h % 3 === 0;
+  const fails = h % 5 === 0;
+  const duration = usedOcr ? OCR_JOB_MS : NORMAL_JOB_MS;
+  const elapsed = Date.now() - firstSeen.get(jobId)!;
+
+  if (elapsed < 1000) {
+    return { jobId, state: 'queued', progress: 0, totalPages: PAGES, usedOcr };
+  }
+
+  const fraction = Math.min(1, elapsed / duration);
+  const pagesProcessed = Math.floor(fraction * PAGES);
+
+  if (fails && fraction >= 0.5) {
+    return {
+      jobId,
+      state: 'failed',
+      progress: 50,
+      pagesProcessed,
+      totalPages: PAGES,
+      usedOcr,
+      error: 'Page 7 could not be read (simulated failure)',
+    };
+  }
+
+  if (fraction >= 1) {
+    return {
+      jobId,
+      state: 'succeeded',
+      progress: 100,
+      pagesProcessed: PAGES,
+      totalPages: PAGES,
+      chunksCreated: PAGES * 3,
+      usedOcr,
+    };
+  }
+
+  return {
+    jobId,
+    state: 'processing',
+    progress: Math.round(fraction * 100),
+    pagesProcessed,
+    totalPages: PAGES,
+    chunksCreated: pagesProcessed * 3,
+    usedOcr,
+  };
+}
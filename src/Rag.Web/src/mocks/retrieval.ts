@@ -0,0 +1,49 @@
+import { AskRequest, RetrievedChunk, RetrieveResponse } from '@/types';
+import { useAppStore } from '@/store/app-store';
+import { extractQueryTerms } from '@/lib/highlight';
+import { getMockDocumentChunks } from './document-chunks';
+
+// Chunks per document considered, to keep the stand-in quick for large local texts
+const CHUNKS_PER_DOCUMENT = 12;
+
+const hash = (value: string) =>
+  [...value].reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+/**
+ * Simulates the retrieval endpoint over the tenant's ready documents. Scores come from
+ * the share of question terms found in each chunk plus a stable jitter, so rephrasing the
+ * question or changing topK changes the hits the way real retrieval would.
+ */
+export async function getMockRetrieval(request: AskRequest): Promise<RetrieveResponse> {
+  const { documents, currentTenant } = useAppStore.getState();
+  const tenantId = currentTenant?.id ?? 'default';
+  const topK = Math.min(Math.max(request.topK ?? 5, 1), 20);
+  const terms = extractQueryTerms(request.question);
+
+  const ready = documents
+    .filter((doc) => doc.tenantId === tenantId && doc.status === 'ready')
+    .map((doc) => doc.id)
+    .filter((id) => !request.documentIds?.length || request.documentIds.includes(id))
+    .filter((id) => !request.excludedDocumentIds?.includes(id));
+  const candidates = ready.length > 0 ? ready : ['mock-doc'];
+
+  const hits: RetrievedChunk[] = [];
+  for (const documentId of candidates) {
+    const { chunks } = await getMockDocumentChunks(documentId, 0, CHUNKS_PER_DOCUMENT - 1);
+    for (const chunk of chunks) {
+      const text = chunk.text.toLowerCase();
+      const found = terms.filter((term) => text.includes(term)).length;
+      const coverage = terms.length > 0 ? found / terms.length : 0;
+      const jitter = (hash(`${request.question}|${documentId}|${chunk.chunkIndex}`) % 1000) / 1000;
+      hits.push({
+        documentId,
+        chunkIndex: chunk.chunkIndex,
+        score: Math.round((0.45 + coverage * 0.4 + jitter * 0.1) * 1000) / 1000,
+        text: chunk.text,
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return { question: request.question, topK, hits: hits.slice(0, topK), tenantId };
+}
@@ -1,33 +1,121 @@
-import { apiClient } from '@/lib/api-client';
+import { apiClient, ApiHttpError } from '@/lib/api-client';
+import { agentResponseToEvents, readAgentStream } from '@/lib/agent-stream';
+import { USE_MOCKS } from '@/mocks';
+import { createMockAgentStream } from '@/mocks/agent-stream';
+import { getMockHistorySummary } from '@/mocks/history-summary';
 import {
   AgentChatRequest,
+  AgentMessage,
   AgentChatResponse,
+  AgentStreamEvent,
   ToolInfo,
 } from '@/types';
 
 export class AgentService {
-  async chat(request: AgentChatRequest): Promise<AgentChatResponse> {
-    return apiClient.post<AgentChatResponse>('/api/v1/agent/chat', request);
+  // Set once an API without the stream endpoint answered 404, so later messages go
+  // straight to the blocking chat
+  private streamUnavailable = false;
+
+  async chat(request: AgentChatRequest, signal?: AbortSignal): Promise<AgentChatResponse> {
+    return apiClient.post<AgentChatResponse>('/api/v1/agent/chat', request, { signal });
+  }
+
+  /**
+   * Streams an agent answer as typed events (tokens, tool calls, citations, metrics).
+   * Resolves after the `done` event. Falls back to the blocking chat endpoint,
+   * replayed as events, when the API has no stream endpoint.
+   */
+  async chatStream(
+    request: AgentChatRequest,
+    onEvent: (event: AgentStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (this.streamUnavailable && !USE_MOCKS) {
+      return this.chatAsEvents(request, onEvent, signal);
+    }
+
+    let response: Response;
+    try {
+      response = USE_MOCKS
+        ? createMockAgentStream(request, signal)
+        : await apiClient.stream('/api/v1/agent/chat/stream', {
+            method: 'POST',
+            headers: {
+              'Accept': 'text/event-stream',
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(request),
+            signal,
+          });
+    } catch (error) {
+      if (error instanceof ApiHttpError && error.status === 404) {
+        console.warn('[Agent] Stream endpoint unavailable, using blocking chat');
+        this.streamUnavailable = true;
+        return this.chatAsEvents(request, onEvent, signal);
+      }
+      throw error;
+    }
+
+    await readAgentStream(response, onEvent);
+  }
+
+  private async chatAsEvents(
+    request: AgentChatRequest,
+    onEvent: (event: AgentStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const result = await this.chat(request, signal);
+    agentResponseToEvents(result).forEach(onEvent);
+  }
+
+  /**
+   * Condenses conversation turns into a short paragraph with the chat model, without
+   * tools or document search. An earlier summary can be passed as a system message.
+   */
+  async summarizeHistory(messages: AgentMessage[], signal?: AbortSignal): Promise<string> {
+    if (USE_MOCKS) {
+      return getMockHistorySummary(messages, signal);
+    }
+    const result = await this.chat(
+      {
+        message:
+          'Summarise the conversation so far in one short paragraph for your own reference. ' +
+          'Keep names, numbers, decisions and open questions. Reply with the summary only.',
+        conversationHistory: messages,
+        config: {
+          maxToolCalls: 1,
+          allowParallelToolCalls: false,
+          useRagForContext: false,
+          enableChainOfThought: false,
+        },
+      },
+      signal
+    );
+    return result.answer.trim();
   }
 
-  async getTools(): Promise<ToolInfo[]> {
-    return apiClient.get<ToolInfo[]>('/api/v1/agent/tools');
+  async getTools(signal?: AbortSignal): Promise<ToolInfo[]> {
+    return apiClient.get<ToolInfo[]>('/api/v1/agent/tools', undefined, { signal });
   }
 
-  async getTool(name: string): Promise<ToolInfo> {
-    return apiClient.get<ToolInfo>(`/api/v1/agent/tools/${name}`);
+  async getTool(name: string, signal?: AbortSignal): Promise<ToolInfo> {
+    return apiClient.get<ToolInfo>(`/api/v1/agent/tools/${name}`, undefined, { signal });
   }
 
-  async searchCode(query: string, topK: number = 5): Promise<any[]> {
-    return apiClient.post('/api/v1/agent/search-code', { query, topK });
+  async searchCode(query: string, topK: number = 5, signal?: AbortSignal): Promise<any[]> {
+    return apiClient.post('/api/v1/agent/search-code', { query, topK }, { signal });
   }
 
-  async ingestCodebase(directoryPath: string): Promise<any> {
-    return apiClient.post('/api/v1/agent/ingest-codebase', {
-      directoryPath,
-      includePatterns: ['*.cs', '*.py', '*.js', '*.ts'],
-      parseSemanticStructure: true,
-    });
+  async ingestCodebase(directoryPath: string, signal?: AbortSignal): Promise<any> {
+    return apiClient.post(
+      '/api/v1/agent/ingest-codebase',
+      {
+        directoryPath,
+        includePatterns: ['*.cs', '*.py', '*.js', '*.ts'],
+        parseSemanticStructure: true,
+      },
+      { signal }
+    );
   }
 }
 
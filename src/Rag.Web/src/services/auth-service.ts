@@ -0,0 +1,19 @@
+import { apiClient } from '@/lib/api-client';
+import { LoginResponse, TokenValidationResponse } from '@/types';
+
+export class AuthService {
+  async login(username: string, password: string): Promise<LoginResponse> {
+    return apiClient.post<LoginResponse>('/api/v1/authentication/login', { username, password });
+  }
+
+  /**
+   * Checks the current bearer token with the API. Rejects with a 401 when it is no longer valid.
+   */
+  async validate(signal?: AbortSignal): Promise<TokenValidationResponse> {
+    return apiClient.get<TokenValidationResponse>('/api/v1/authentication/validate', undefined, {
+      signal,
+    });
+  }
+}
+
+export const authService = new AuthService();
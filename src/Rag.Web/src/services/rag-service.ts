@@ -1,46 +1,138 @@
 import { apiClient } from '@/lib/api-client';
+import { USE_MOCKS } from '@/mocks';
+import { getMockJobStatus } from '@/mocks/ingest-jobs';
+import { getMockDocumentChunks } from '@/mocks/document-chunks';
+import { getMockRetrieval } from '@/mocks/retrieval';
+import { DEFAULT_UPLOAD_LIMITS } from '@/lib/upload-validation';
 import {
   IngestRequest,
   IngestResponse,
   AskRequest,
   AskResponse,
   PdfUploadResponse,
+  IngestJobResponse,
+  IngestJobStatusResponse,
+  DeleteDocumentResponse,
+  DocumentChunksResponse,
+  RetrieveResponse,
+  UploadLimitsResponse,
 } from '@/types';
 
 export class RagService {
-  async ingestText(request: IngestRequest): Promise<IngestResponse> {
-    return apiClient.post<IngestResponse>('/api/v1/ingest', request);
+  async ingestText(request: IngestRequest, signal?: AbortSignal): Promise<IngestResponse> {
+    return apiClient.post<IngestResponse>('/api/v1/ingest', request, { signal });
   }
 
-  async ask(request: AskRequest): Promise<AskResponse> {
-    return apiClient.post<AskResponse>('/api/v1/ask', request);
+  async ask(request: AskRequest, signal?: AbortSignal): Promise<AskResponse> {
+    return apiClient.post<AskResponse>('/api/v1/ask', request, { signal });
+  }
+
+  /**
+   * Retrieval only, without generating an answer, to inspect which chunks a question finds.
+   */
+  async retrieve(request: AskRequest, signal?: AbortSignal): Promise<RetrieveResponse> {
+    if (USE_MOCKS) {
+      return getMockRetrieval(request);
+    }
+    return apiClient.post<RetrieveResponse>('/api/v1/ask/retrieve', request, { signal });
+  }
+
+  /**
+   * Path for the SSE ask endpoint; open it with useSSE, which adds auth and base URL.
+   */
+  getAskStreamPath(request: AskRequest): string {
+    const params = new URLSearchParams({
+      question: request.question,
+      topK: String(request.topK ?? 5),
+    });
+    for (const id of request.documentIds ?? []) {
+      params.append('documentIds', id);
+    }
+    for (const id of request.excludedDocumentIds ?? []) {
+      params.append('excludedDocumentIds', id);
+    }
+    return `/api/v1/ask/stream?${params}`;
   }
 
   async uploadPdf(
     file: File,
     documentId: string,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<PdfUploadResponse> {
     return apiClient.uploadFile<PdfUploadResponse>(
       '/api/v1/documents/upload-pdf',
       file,
       { documentId },
-      onProgress
+      onProgress,
+      { signal }
     );
   }
 
-  async deleteDocument(documentId: string): Promise<void> {
-    return apiClient.delete(`/api/v1/documents/${documentId}`);
+  /**
+   * Status of a background ingestion job (PDF upload or document update).
+   */
+  async getJobStatus(jobId: string, signal?: AbortSignal): Promise<IngestJobStatusResponse> {
+    if (USE_MOCKS) {
+      return getMockJobStatus(jobId);
+    }
+    return apiClient.get<IngestJobStatusResponse>(
+      `/api/v1/documents/jobs/${encodeURIComponent(jobId)}`,
+      undefined,
+      { signal }
+    );
+  }
+
+  /**
+   * Maximum file size and allowed file types configured on the server.
+   */
+  async getUploadLimits(signal?: AbortSignal): Promise<UploadLimitsResponse> {
+    if (USE_MOCKS) {
+      const { maxFileBytes, allowedExtensions } = DEFAULT_UPLOAD_LIMITS;
+      return { maxFileSize: maxFileBytes, allowedFileTypes: allowedExtensions };
+    }
+    return apiClient.get<UploadLimitsResponse>('/api/v1/documents/upload-limits', undefined, { signal });
+  }
+
+  async deleteDocument(documentId: string, signal?: AbortSignal): Promise<DeleteDocumentResponse> {
+    return apiClient.delete<DeleteDocumentResponse>(
+      `/api/v1/documents/${encodeURIComponent(documentId)}`,
+      { signal }
+    );
+  }
+
+  /**
+   * Stored chunks of a document with chunkIndex between from and to (inclusive).
+   */
+  async getDocumentChunks(
+    documentId: string,
+    from: number,
+    to: number,
+    signal?: AbortSignal
+  ): Promise<DocumentChunksResponse> {
+    if (USE_MOCKS) {
+      return getMockDocumentChunks(documentId, from, to);
+    }
+    return apiClient.get<DocumentChunksResponse>(
+      `/api/v1/documents/${encodeURIComponent(documentId)}/chunks`,
+      { from, to },
+      { signal }
+    );
   }
 
   async updateDocument(
     documentId: string,
-    text: string
-  ): Promise<any> {
-    return apiClient.put(`/api/v1/documents/${documentId}`, {
-      documentId,
-      text,
-    });
+    text: string,
+    signal?: AbortSignal
+  ): Promise<IngestJobResponse> {
+    return apiClient.put<IngestJobResponse>(
+      `/api/v1/documents/${encodeURIComponent(documentId)}`,
+      {
+        documentId,
+        text,
+      },
+      { signal }
+    );
   }
 }
 
@@ -1,7 +1,58 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { apiClient } from '@/lib/api-client';
-import { Tenant, Conversation, ChatMessage, DocumentInfo, User } from '@/types';
+import { getTokenExpiry } from '@/lib/jwt';
+import { getActivePath, migrateFlatConversation, parentKeyOf } from '@/lib/conversation-tree';
+import { clearDocumentVersions } from '@/lib/document-versions';
+import { clearPdfFiles } from '@/lib/pdf-files';
+import { authService } from '@/services/auth-service';
+import {
+  Tenant,
+  Conversation,
+  ChatMessage,
+  ChatSettings,
+  HistorySummary,
+  PromptTemplate,
+  DocumentInfo,
+  IngestJob,
+  RedactionSettings,
+  User,
+  LoginResponse,
+  SessionStatus,
+} from '@/types';
+
+// Show the "session expiring" warning this long before the JWT expires
+const EXPIRY_WARNING_MS = 5 * 60 * 1000;
+
+// Session timers and pending re-login waiters live outside the persisted state
+let expiryTimers: ReturnType<typeof setTimeout>[] = [];
+let reauthWaiters: ((ok: boolean) => void)[] = [];
+
+const clearExpiryTimers = () => {
+  expiryTimers.forEach(clearTimeout);
+  expiryTimers = [];
+};
+
+// setTimeout fires immediately for delays above this, so longer waits are chained
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const setExpiryTimer = (at: number, callback: () => void) => {
+  const delay = at - Date.now();
+  expiryTimers.push(
+    delay > MAX_TIMER_MS
+      ? setTimeout(() => setExpiryTimer(at, callback), MAX_TIMER_MS)
+      : setTimeout(callback, delay)
+  );
+};
+
+const settleReauthWaiters = (ok: boolean) => {
+  const waiters = reauthWaiters;
+  reauthWaiters = [];
+  waiters.forEach((resolve) => resolve(ok));
+};
+
+const toLoginError = (error: any) =>
+  new Error(error.response?.data?.error || 'Invalid username or password');
 
 interface AppState {
   // Authentication
@@ -11,6 +62,15 @@ interface AppState {
   login: (username: string, password: string) => Promise<void>;
   logout: () => void;
 
+  // Session lifecycle
+  tokenExpiresAt: number | null;
+  sessionStatus: SessionStatus;
+  reauthRequired: boolean;
+  validateSession: () => Promise<void>;
+  requestReauth: () => Promise<boolean>;
+  reauthenticate: (username: string, password: string) => Promise<void>;
+  cancelReauth: () => void;
+
   // Tenants
   tenants: Tenant[];
   currentTenant: Tenant | null;
@@ -23,76 +83,106 @@ interface AppState {
   currentConversation: Conversation | null;
   createConversation: (tenantId: string) => Conversation;
   setCurrentConversation: (conversation: Conversation | null) => void;
+  /** Appends to the shown branch unless the message names its parent */
   addMessage: (conversationId: string, message: ChatMessage) => void;
   updateMessage: (conversationId: string, messageId: string, updates: Partial<ChatMessage>) => void;
+  /** Shows the branch that goes through this message */
+  selectBranch: (conversationId: string, messageId: string) => void;
+  setConversationDocumentFilter: (conversationId: string, documentIds: string[]) => void;
+  /** Overrides of the workspace chat settings; undefined follows the workspace again */
+  setConversationSettings: (conversationId: string, settings: Partial<ChatSettings> | undefined) => void;
+  setHistorySummary: (conversationId: string, summary: HistorySummary | undefined) => void;
   deleteConversation: (conversationId: string) => void;
   clearConversations: () => void;
 
-  // Documents
+  // Documents (IDs are unique per tenant; tenantId defaults to the current tenant)
   documents: DocumentInfo[];
   addDocument: (doc: DocumentInfo) => void;
-  updateDocument: (docId: string, updates: Partial<DocumentInfo>) => void;
-  removeDocument: (docId: string) => void;
+  updateDocument: (docId: string, updates: Partial<DocumentInfo>, tenantId?: string) => void;
+  removeDocument: (docId: string, tenantId?: string) => void;
+  removeDocuments: (docIds: string[], tenantId?: string) => void;
+  findDocumentByHash: (contentHash: string, tenantId?: string) => DocumentInfo | undefined;
+
+  // Ingestion jobs
+  ingestJobs: IngestJob[];
+  trackIngestJob: (job: IngestJob) => void;
+  updateIngestJob: (jobId: string, updates: Partial<IngestJob>) => void;
+  dismissIngestJob: (jobId: string) => void;
+  clearFinishedIngestJobs: (tenantId: string) => void;
+
+  // PII and secret detection rules per tenant
+  redactionSettings: Record<string, RedactionSettings>;
+  setRedactionSettings: (tenantId: string, settings: RedactionSettings) => void;
+
+  // Default agent and retrieval settings per tenant
+  chatSettings: Record<string, ChatSettings>;
+  setChatSettings: (tenantId: string, settings: ChatSettings) => void;
+
+  // System prompt and question template library per tenant
+  promptLibraries: Record<string, PromptTemplate[]>;
+  setPromptLibrary: (tenantId: string, templates: PromptTemplate[]) => void;
 
   // UI State
   sidebarOpen: boolean;
   toggleSidebar: () => void;
+  /** Document the library should open scrolled to, e.g. from a citation */
+  libraryFocus: string | null;
+  showInLibrary: (documentId: string | null) => void;
 }
 
 export const useAppStore = create<AppState>()(
   persist(
-    (set, _get) => ({
+    (set, get) => ({
       // Authentication
       user: null,
       token: null,
       isAuthenticated: false,
 
       login: async (username: string, password: string) => {
+        let response: LoginResponse;
         try {
-          const response = await apiClient.post<{
-            token: string;
-            userId: string;
-            username: string;
-            tenantId: string;
-            tenantName: string;
-            role: string;
-            tier: string;
-          }>('/api/v1/authentication/login', { username, password });
-
-          const { token, userId, username: userName, tenantId, tenantName, role, tier } = response;
-
-          const user: User = {
-            id: userId,
-            username: userName,
-            role,
-            tier,
-          };
+          response = await authService.login(username, password);
+        } catch (error: any) {
+          throw toLoginError(error);
+        }
 
-          const tenant: Tenant = {
-            id: tenantId,
-            name: tenantName,
-            apiKey: 'jwt', // No longer needed with JWT
-            color: '#0ea5e9',
-          };
+        const { token, userId, username: userName, tenantId, tenantName, role, tier } = response;
+
+        const user: User = {
+          id: userId,
+          username: userName,
+          role,
+          tier,
+        };
 
-          // Set token in API client
-          apiClient.setToken(token);
-          apiClient.setTenantId(tenantId);
+        const tenant: Tenant = {
+          id: tenantId,
+          name: tenantName,
+          apiKey: 'jwt', // No longer needed with JWT
+          color: '#0ea5e9',
+        };
 
-          set({
-            user,
-            token,
-            isAuthenticated: true,
-            currentTenant: tenant,
-            tenants: [tenant],
-          });
-        } catch (error: any) {
-          const errorMessage = error.response?.data?.error || 'Invalid username or password';
-          throw new Error(errorMessage);
-        }
+        // Set token in API client
+        apiClient.setToken(token);
+        apiClient.setTenantId(tenantId);
+
+        const tokenExpiresAt = getTokenExpiry(token) ?? Date.parse(response.expiresAt);
+        set({
+          user,
+          token,
+          isAuthenticated: true,
+          currentTenant: tenant,
+          tenants: [tenant],
+          tokenExpiresAt,
+          sessionStatus: 'active',
+          reauthRequired: false,
+        });
+        scheduleExpiry(tokenExpiresAt);
       },
 
       logout: () => {
+        clearExpiryTimers();
+        settleReauthWaiters(false);
         apiClient.setToken(null);
         apiClient.setTenantId(null);
         set({
@@ -103,9 +193,84 @@ export const useAppStore = create<AppState>()(
           conversations: [],
           currentConversation: null,
           documents: [],
+          ingestJobs: [],
+          tokenExpiresAt: null,
+          sessionStatus: 'active',
+          reauthRequired: false,
+        });
+        // Document text and PDFs live in IndexedDB, outside the persisted store
+        void clearDocumentVersions();
+        void clearPdfFiles();
+      },
+
+      // Session lifecycle
+      tokenExpiresAt: null,
+      sessionStatus: 'active',
+      reauthRequired: false,
+
+      validateSession: async () => {
+        const { token, tokenExpiresAt } = get();
+        if (!token) return; // API key sessions have nothing to expire
+
+        const expiresAt = tokenExpiresAt ?? getTokenExpiry(token);
+        if (expiresAt !== null && expiresAt <= Date.now()) {
+          void get().requestReauth();
+          return;
+        }
+
+        try {
+          await authService.validate();
+          scheduleExpiry(expiresAt);
+        } catch (error: any) {
+          if (error.response?.status === 401) {
+            void get().requestReauth();
+          } else {
+            // Offline or API down: keep the session and let requests surface errors
+            console.warn('[Session] Could not validate token', error);
+            scheduleExpiry(expiresAt);
+          }
+        }
+      },
+
+      requestReauth: () => {
+        clearExpiryTimers();
+        set({ sessionStatus: 'expired', reauthRequired: true });
+        return new Promise<boolean>((resolve) => {
+          reauthWaiters.push(resolve);
         });
       },
 
+      reauthenticate: async (username: string, password: string) => {
+        let response: LoginResponse;
+        try {
+          response = await authService.login(username, password);
+        } catch (error: any) {
+          throw toLoginError(error);
+        }
+
+        const { user } = get();
+        if (user && user.id !== response.userId) {
+          throw new Error(`Please sign in again as ${user.username}`);
+        }
+
+        apiClient.setToken(response.token);
+        const tokenExpiresAt = getTokenExpiry(response.token) ?? Date.parse(response.expiresAt);
+        set({
+          token: response.token,
+          tokenExpiresAt,
+          sessionStatus: 'active',
+          reauthRequired: false,
+        });
+        scheduleExpiry(tokenExpiresAt);
+
+        // Replay the requests that failed with 401
+        settleReauthWaiters(true);
+      },
+
+      cancelReauth: () => {
+        get().logout();
+      },
+
       // Tenants
       tenants: [{ id: 'tenant-mayank', name: 'Mayank', apiKey: 'secure_password' }],
       currentTenant: { id: 'tenant-mayank', name: 'Mayank', apiKey: 'secure_password' },
@@ -157,7 +322,10 @@ export const useAppStore = create<AppState>()(
         set((state) => {
           const conversations = state.conversations.map((conv) => {
             if (conv.id === conversationId) {
-              const updatedMessages = [...conv.messages, message];
+              const path = getActivePath(conv);
+              const parentId =
+                message.parentId !== undefined ? message.parentId : path[path.length - 1]?.id ?? null;
+              const added = { ...message, parentId };
               // Update title from first user message
               const title =
                 conv.messages.length === 0 && message.role === 'user'
@@ -165,7 +333,8 @@ export const useAppStore = create<AppState>()(
                   : conv.title;
               return {
                 ...conv,
-                messages: updatedMessages,
+                messages: [...conv.messages, added],
+                activeChildren: { ...conv.activeChildren, [parentKeyOf(added)]: added.id },
                 title,
                 updatedAt: new Date(),
               };
@@ -202,6 +371,61 @@ export const useAppStore = create<AppState>()(
         });
       },
 
+      selectBranch: (conversationId, messageId) => {
+        set((state) => {
+          const conversations = state.conversations.map((conv) => {
+            const message = conv.id === conversationId && conv.messages.find((m) => m.id === messageId);
+            return message
+              ? { ...conv, activeChildren: { ...conv.activeChildren, [parentKeyOf(message)]: messageId } }
+              : conv;
+          });
+
+          return {
+            conversations,
+            currentConversation: conversations.find((c) => c.id === conversationId) || state.currentConversation,
+          };
+        });
+      },
+
+      setConversationDocumentFilter: (conversationId, documentIds) => {
+        set((state) => {
+          const conversations = state.conversations.map((conv) =>
+            conv.id === conversationId ? { ...conv, documentFilter: documentIds } : conv
+          );
+
+          return {
+            conversations,
+            currentConversation: conversations.find((c) => c.id === conversationId) || state.currentConversation,
+          };
+        });
+      },
+
+      setConversationSettings: (conversationId, settings) => {
+        set((state) => {
+          const conversations = state.conversations.map((conv) =>
+            conv.id === conversationId ? { ...conv, settings } : conv
+          );
+
+          return {
+            conversations,
+            currentConversation: conversations.find((c) => c.id === conversationId) || state.currentConversation,
+          };
+        });
+      },
+
+      setHistorySummary: (conversationId, summary) => {
+        set((state) => {
+          const conversations = state.conversations.map((conv) =>
+            conv.id === conversationId ? { ...conv, historySummary: summary } : conv
+          );
+
+          return {
+            conversations,
+            currentConversation: conversations.find((c) => c.id === conversationId) || state.currentConversation,
+          };
+        });
+      },
+
       deleteConversation: (conversationId) => {
         set((state) => ({
           conversations: state.conversations.filter((c) => c.id !== conversationId),
@@ -220,31 +444,120 @@ export const useAppStore = create<AppState>()(
       documents: [],
 
       addDocument: (doc) => {
+        // Uploading an existing ID replaces the old record, as the backend does
         set((state) => ({
-          documents: [...state.documents, doc],
+          documents: [
+            ...state.documents.filter((d) => !(d.id === doc.id && d.tenantId === doc.tenantId)),
+            doc,
+          ],
         }));
       },
 
-      updateDocument: (docId, updates) => {
+      updateDocument: (docId, updates, tenantId) => {
+        const tenant = tenantId ?? get().currentTenant?.id;
         set((state) => ({
           documents: state.documents.map((doc) =>
-            doc.id === docId ? { ...doc, ...updates } : doc
+            doc.id === docId && doc.tenantId === tenant ? { ...doc, ...updates } : doc
+          ),
+        }));
+      },
+
+      removeDocument: (docId, tenantId) => {
+        get().removeDocuments([docId], tenantId);
+      },
+
+      removeDocuments: (docIds, tenantId) => {
+        const tenant = tenantId ?? get().currentTenant?.id;
+        set((state) => ({
+          documents: state.documents.filter(
+            (doc) => !(doc.tenantId === tenant && docIds.includes(doc.id))
+          ),
+        }));
+      },
+
+      findDocumentByHash: (contentHash, tenantId) => {
+        const tenant = tenantId ?? get().currentTenant?.id;
+        return get().documents.find(
+          (doc) => doc.tenantId === tenant && doc.contentHash === contentHash && doc.status !== 'error'
+        );
+      },
+
+      // Ingestion jobs
+      ingestJobs: [],
+
+      trackIngestJob: (job) => {
+        set((state) => ({
+          ingestJobs: [job, ...state.ingestJobs.filter((j) => j.jobId !== job.jobId)],
+        }));
+      },
+
+      updateIngestJob: (jobId, updates) => {
+        set((state) => ({
+          ingestJobs: state.ingestJobs.map((job) =>
+            job.jobId === jobId ? { ...job, ...updates } : job
           ),
         }));
       },
 
-      removeDocument: (docId) => {
+      dismissIngestJob: (jobId) => {
+        set((state) => ({
+          ingestJobs: state.ingestJobs.filter((job) => job.jobId !== jobId),
+        }));
+      },
+
+      clearFinishedIngestJobs: (tenantId) => {
+        set((state) => ({
+          ingestJobs: state.ingestJobs.filter(
+            (job) =>
+              job.tenantId !== tenantId || job.state === 'queued' || job.state === 'processing'
+          ),
+        }));
+      },
+
+      // Redaction settings
+      redactionSettings: {},
+
+      setRedactionSettings: (tenantId, settings) => {
+        set((state) => ({
+          redactionSettings: { ...state.redactionSettings, [tenantId]: settings },
+        }));
+      },
+
+      // Chat settings
+      chatSettings: {},
+
+      setChatSettings: (tenantId, settings) => {
         set((state) => ({
-          documents: state.documents.filter((doc) => doc.id !== docId),
+          chatSettings: { ...state.chatSettings, [tenantId]: settings },
+        }));
+      },
+
+      // Prompt libraries
+      promptLibraries: {},
+
+      setPromptLibrary: (tenantId, templates) => {
+        set((state) => ({
+          promptLibraries: { ...state.promptLibraries, [tenantId]: templates },
         }));
       },
 
       // UI State
       sidebarOpen: true,
       toggleSidebar: () => set((state) => ({ sidebarOpen: !state.sidebarOpen })),
+      libraryFocus: null,
+      showInLibrary: (documentId) => set({ libraryFocus: documentId }),
     }),
     {
       name: 'rag-app-storage',
+      // 1: conversations are message trees
+      version: 1,
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<AppState>;
+        if (version < 1 && state.conversations) {
+          state.conversations = state.conversations.map(migrateFlatConversation);
+        }
+        return state as AppState;
+      },
       partialize: (state) => ({
         user: state.user,
         token: state.token,
@@ -252,6 +565,12 @@ export const useAppStore = create<AppState>()(
         tenants: state.tenants,
         currentTenant: state.currentTenant,
         conversations: state.conversations,
+        documents: state.documents,
+        ingestJobs: state.ingestJobs,
+        redactionSettings: state.redactionSettings,
+        chatSettings: state.chatSettings,
+        promptLibraries: state.promptLibraries,
+        tokenExpiresAt: state.tokenExpiresAt,
       }),
       onRehydrateStorage: () => (state) => {
         // Restore token in API client after rehydration
@@ -261,7 +580,34 @@ export const useAppStore = create<AppState>()(
         if (state?.currentTenant?.id) {
           apiClient.setTenantId(state.currentTenant.id);
         }
+        // Check the restored token once the store has finished initialising
+        if (state?.token) {
+          queueMicrotask(() => void useAppStore.getState().validateSession());
+        }
       },
     }
   )
-);
\ No newline at end of file
+);
+
+/**
+ * Warns shortly before the JWT expires and asks for a re-login when it does.
+ */
+function scheduleExpiry(expiresAt: number | null) {
+  clearExpiryTimers();
+  if (expiresAt === null || Number.isNaN(expiresAt)) return;
+
+  const msLeft = expiresAt - Date.now();
+  if (msLeft <= 0) {
+    void useAppStore.getState().requestReauth();
+    return;
+  }
+
+  useAppStore.setState({ sessionStatus: msLeft <= EXPIRY_WARNING_MS ? 'expiring' : 'active' });
+  if (msLeft > EXPIRY_WARNING_MS) {
+    setExpiryTimer(expiresAt - EXPIRY_WARNING_MS, () => useAppStore.setState({ sessionStatus: 'expiring' }));
+  }
+  setExpiryTimer(expiresAt, () => void useAppStore.getState().requestReauth());
+}
+
+// A 401 anywhere opens the re-login modal; the failed request is replayed after sign-in
+apiClient.setUnauthorizedHandler(() => useAppStore.getState().requestReauth());
\ No newline at end of file
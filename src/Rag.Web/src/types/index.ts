@@ -13,6 +13,10 @@ export interface IngestResponse {
 export interface AskRequest {
   question: string;
   topK?: number;
+  /** Restricts retrieval to these documents; omitted searches the whole tenant */
+  documentIds?: string[];
+  /** Never retrieved, e.g. files attached to other conversations */
+  excludedDocumentIds?: string[];
 }
 
 export interface Citation {
@@ -36,12 +40,79 @@ export interface AskResponse {
   tenantId?: string;
 }
 
+export interface RetrievedChunk {
+  documentId: string;
+  chunkIndex: number;
+  score: number;
+  text: string;
+}
+
+export interface RetrieveResponse {
+  question: string;
+  topK: number;
+  /** Best match first */
+  hits: RetrievedChunk[];
+  tenantId: string;
+}
+
 export interface PdfUploadResponse {
   message: string;
   jobId: string;
   documentId: string;
 }
 
+export interface IngestJobResponse {
+  jobId: string;
+  documentId: string;
+  status: string;
+  message: string;
+}
+
+// Ingestion job status (GET /api/v1/documents/jobs/{jobId})
+export type IngestJobState = 'queued' | 'processing' | 'succeeded' | 'failed';
+
+export interface IngestJobStatusResponse {
+  jobId: string;
+  documentId?: string;
+  state: IngestJobState;
+  /** 0-100 */
+  progress?: number;
+  pagesProcessed?: number;
+  totalPages?: number;
+  chunksCreated?: number;
+  usedOcr?: boolean;
+  error?: string;
+}
+
+// GET /api/v1/documents/upload-limits (ValidationSettings on the server)
+export interface UploadLimitsResponse {
+  /** Bytes */
+  maxFileSize: number;
+  /** Extensions including the dot */
+  allowedFileTypes: string[];
+}
+
+export interface DeleteDocumentResponse {
+  documentId: string;
+  tenantId: string;
+  message: string;
+}
+
+export interface DocumentChunk {
+  documentId: string;
+  chunkIndex: number;
+  text: string;
+  pageNumber?: number;
+}
+
+export interface DocumentChunksResponse {
+  documentId: string;
+  /** Chunks stored for the document, so callers know whether more follow */
+  totalChunks: number;
+  /** Requested range, ordered by chunkIndex */
+  chunks: DocumentChunk[];
+}
+
 // Agent Types
 export interface AgentMessage {
   role: 'user' | 'assistant' | 'system';
@@ -53,8 +124,41 @@ export interface AgentConfig {
   allowParallelToolCalls?: boolean;
   useRagForContext?: boolean;
   topKDocuments?: number;
+  minRelevanceScore?: number;
   enableChainOfThought?: boolean;
   systemPrompt?: string;
+  documentIds?: string[];
+  excludedDocumentIds?: string[];
+}
+
+/**
+ * Agent and retrieval options for a conversation. The document filter and exclusions are
+ * kept separately because they follow from the composer and the conversation's attachments.
+ */
+export interface ChatSettings
+  extends Required<Omit<AgentConfig, 'documentIds' | 'excludedDocumentIds'>> {
+  /** Chunks retrieved for ask stream answers */
+  streamingTopK: number;
+  /** How much of the conversation is sent to the agent as history */
+  historyStrategy: HistoryStrategy;
+  historyLastN: number;
+  historyTokenBudget: number;
+  /** Replace turns that do not fit with a generated summary */
+  summarizeOlderTurns: boolean;
+}
+
+export type HistoryStrategy = 'all' | 'lastN' | 'tokenBudget';
+
+/**
+ * Saved system prompt or question in a workspace's library. Question templates may contain
+ * {variable} placeholders that are filled in before sending.
+ */
+export interface PromptTemplate {
+  id: string;
+  kind: 'system' | 'question';
+  name: string;
+  text: string;
+  updatedAt: Date;
 }
 
 export interface ToolCall {
@@ -63,6 +167,10 @@ export interface ToolCall {
   result?: string;
   error?: string;
   reasoningTrace?: string;
+  // Set when the call was received through the agent stream
+  callId?: string;
+  status?: 'running' | 'success' | 'error' | 'cancelled';
+  durationMs?: number;
 }
 
 export interface AgentMetrics {
@@ -86,6 +194,30 @@ export interface AgentChatResponse {
   metrics: AgentMetrics;
 }
 
+// Agent streaming protocol (POST /api/v1/agent/chat/stream).
+// Each SSE event name is the `type`; the JSON data carries the other fields.
+export type AgentStreamEvent =
+  | { type: 'token'; token: string }
+  | {
+      type: 'tool_start';
+      callId: string;
+      toolName: string;
+      arguments: Record<string, any>;
+      reasoningTrace?: string;
+    }
+  | {
+      type: 'tool_result';
+      callId: string;
+      result?: string;
+      error?: string;
+      durationMs?: number;
+    }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'metrics'; metrics: AgentMetrics }
+  | { type: 'done' };
+
+export type AgentStreamEventType = AgentStreamEvent['type'];
+
 export interface ToolInfo {
   name: string;
   description: string;
@@ -106,20 +238,66 @@ export interface ChatMessage extends AgentMessage {
   id: string;
   timestamp: Date;
   citations?: Citation[];
+  /** Sources retrieval returned, when they differ from what the answer cites (ask stream) */
+  retrievedSources?: Citation[];
   toolCalls?: ToolCall[];
   metrics?: AgentMetrics;
   isLoading?: boolean;
+  // Stopped by the user (or by switching conversation/tenant) before completion
+  cancelled?: boolean;
+  /** Message this one follows in the conversation tree; null for a first message */
+  parentId?: string | null;
+  /** Always sent as agent history, whatever the context budget */
+  pinned?: boolean;
 }
 
 export interface Conversation {
   id: string;
   title: string;
+  /** Every message of every branch; the shown branch is picked with activeChildren */
   messages: ChatMessage[];
+  /** Selected reply or edit under each message, keyed by parent ID (ROOT_KEY for the first message) */
+  activeChildren?: Record<string, string>;
   createdAt: Date;
   updatedAt: Date;
   tenantId: string;
+  /** Documents retrieval is restricted to; empty or missing searches all documents */
+  documentFilter?: string[];
+  /** Settings changed for this conversation; the rest follow the workspace defaults */
+  settings?: Partial<ChatSettings>;
+  /** Summary of the turns that no longer fit in the agent's context */
+  historySummary?: HistorySummary;
+}
+
+export interface HistorySummary {
+  text: string;
+  /** Last message of the branch the summary covers */
+  throughMessageId: string;
+  createdAt: Date;
+}
+
+// Authentication Types
+export interface LoginResponse {
+  token: string;
+  userId: string;
+  username: string;
+  tenantId: string;
+  tenantName: string;
+  role: string;
+  tier: string;
+  expiresAt: string;
+}
+
+export interface TokenValidationResponse {
+  valid: boolean;
+  userId: string;
+  tenantId: string;
+  role: string;
+  tier: string;
 }
 
+export type SessionStatus = 'active' | 'expiring' | 'expired';
+
 export interface User {
   id: string;
   username: string;
@@ -136,8 +314,113 @@ export interface Tenant {
 
 export interface DocumentInfo {
   id: string;
+  /** Source file name the document was uploaded from */
   name: string;
   uploadedAt: Date;
   status: 'uploading' | 'processing' | 'ready' | 'error';
   tenantId: string;
+  /** Last time the document was re-ingested */
+  updatedAt?: Date;
+  error?: string;
+  /** Background ingestion job for the latest upload */
+  jobId?: string;
+  chunksCreated?: number;
+  /** Set when the user uploaded despite flagged prompt-injection content */
+  injectionAcknowledgement?: InjectionAcknowledgement;
+  /** What was masked out of the text before it was sent */
+  redaction?: RedactionSummary;
+  /** Hex SHA-256 of the uploaded file, used to spot duplicate uploads */
+  contentHash?: string;
+  /** Set for files attached to a conversation rather than added to the library */
+  conversationId?: string;
+  /** The uploaded PDF is kept in this browser and can be opened from citations */
+  hasLocalPdf?: boolean;
+}
+
+export type InjectionSeverity = 'high' | 'medium' | 'low';
+
+export interface InjectionFindingSummary {
+  ruleId: string;
+  label: string;
+  severity: InjectionSeverity;
+  count: number;
+}
+
+/**
+ * Record of suspicious content the user chose to ingest unchanged.
+ */
+export interface InjectionAcknowledgement {
+  acknowledgedAt: Date;
+  findings: InjectionFindingSummary[];
+}
+
+export type RedactionCategory = 'pii' | 'secret';
+
+/** placeholder: "[EMAIL]"; partial: keeps a few characters ("j***@example.com"); remove: deleted */
+export type RedactionMask = 'placeholder' | 'partial' | 'remove';
+
+export interface RedactionRuleConfig {
+  enabled: boolean;
+  mask: RedactionMask;
+}
+
+/**
+ * Workspace-defined detection rule; the pattern is a JavaScript regular expression.
+ */
+export interface CustomRedactionRule extends RedactionRuleConfig {
+  id: string;
+  label: string;
+  category: RedactionCategory;
+  pattern: string;
+  caseInsensitive: boolean;
+}
+
+/**
+ * Per-workspace detection settings. Built-in rules missing from `rules` use their defaults.
+ */
+export interface RedactionSettings {
+  rules: Record<string, RedactionRuleConfig>;
+  customRules: CustomRedactionRule[];
+}
+
+export interface RedactionSummary {
+  redactedAt: Date;
+  redacted: { ruleId: string; label: string; count: number }[];
+  /** Findings the reviewer chose to keep */
+  kept: number;
+}
+
+/**
+ * Text of a document as it was sent to the API, kept in the browser because the
+ * API cannot return document text.
+ */
+export interface DocumentVersion {
+  /** 1-based, increasing per document */
+  version: number;
+  text: string;
+  createdAt: number;
+  source: 'upload' | 'edit' | 'rollback';
+  fileName?: string;
+  /** For rollbacks: the version that was re-submitted */
+  restoredFrom?: number;
+}
+
+/**
+ * Background ingestion job tracked by the client until it succeeds or fails.
+ */
+export interface IngestJob {
+  jobId: string;
+  documentId: string;
+  tenantId: string;
+  fileName: string;
+  /** 'unavailable' when the server no longer knows the job, e.g. after an API restart */
+  state: IngestJobState | 'unavailable';
+  progress: number;
+  pagesProcessed?: number;
+  totalPages?: number;
+  chunksCreated?: number;
+  usedOcr?: boolean;
+  error?: string;
+  startedAt: number;
+  completedAt?: number;
 }